@@ -0,0 +1,198 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as THREE from 'three';
+import { PartData, PartGroup } from './types';
+import { footprintPoints } from './cutOptimizer';
+import { partsInGroup } from './partGroups';
+import { parseAssembly } from './projectSchema';
+import { COMPONENTS_STORE, runRequest } from './localDatabase';
+
+export type LibraryComponent = {
+  id: string;
+  name: string;
+  createdAt: string;
+  thumbnail: string;
+  // Positions are relative to the bottom center of the assembly, so inserts land on the floor at the origin.
+  parts: PartData[];
+  groups: PartGroup[];
+};
+
+const THUMBNAIL_SIZE = 96;
+const ISO_COS = Math.cos(Math.PI / 6);
+const ISO_SIN = Math.sin(Math.PI / 6);
+
+const partCorners = (part: PartData) => {
+  const halfHeight = part.dimensions[1] / 2;
+  const center = new THREE.Vector3(...part.position);
+  const rotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(...part.rotation, 'XYZ'));
+  const outline = part.type === 'hardware'
+    ? [
+        [-part.dimensions[0] / 2, -part.dimensions[2] / 2],
+        [part.dimensions[0] / 2, -part.dimensions[2] / 2],
+        [part.dimensions[0] / 2, part.dimensions[2] / 2],
+        [-part.dimensions[0] / 2, part.dimensions[2] / 2],
+      ]
+    : footprintPoints(part);
+  return outline.flatMap(([x, z]) => [-halfHeight, halfHeight].map((y) =>
+    new THREE.Vector3(x, y, z).applyQuaternion(rotation).add(center)
+  ));
+};
+
+const convexHull = (points: [number, number][]) => {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const build = (input: [number, number][]) => input.reduce<[number, number][]>((hull, point) => {
+    while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) {
+      hull.pop();
+    }
+    hull.push(point);
+    return hull;
+  }, []);
+  const lower = build(sorted);
+  const upper = build([...sorted].reverse());
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+// Flat isometric silhouettes, back to front; enough to recognize an assembly at a glance.
+export const buildAssemblyThumbnail = (parts: PartData[]) => {
+  const projected = parts
+    .map((part) => {
+      const corners = partCorners(part);
+      return {
+        color: part.color ?? (part.type === 'hardware' ? '#94a3b8' : '#deb887'),
+        depth: part.position[0] + part.position[1] + part.position[2],
+        outline: convexHull(corners.map((corner) => [
+          (corner.x - corner.z) * ISO_COS,
+          (corner.x + corner.z) * ISO_SIN - corner.y,
+        ] as [number, number])),
+      };
+    })
+    .sort((a, b) => a.depth - b.depth);
+
+  const xs = projected.flatMap((item) => item.outline.map(([x]) => x));
+  const ys = projected.flatMap((item) => item.outline.map(([, y]) => y));
+  const minX = Math.min(...xs, 0);
+  const minY = Math.min(...ys, 0);
+  const span = Math.max(Math.max(...xs, 0) - minX, Math.max(...ys, 0) - minY, 1);
+  const padding = span * 0.08;
+  const viewSize = span + padding * 2;
+
+  const polygons = projected.map((item) => {
+    const points = item.outline.map(([x, y]) => `${(x - minX + padding).toFixed(2)},${(y - minY + padding).toFixed(2)}`).join(' ');
+    return `<polygon points="${points}" fill="${item.color}" stroke="#334155" stroke-width="${(viewSize / THUMBNAIL_SIZE).toFixed(3)}" stroke-linejoin="round" />`;
+  }).join('');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_SIZE}" height="${THUMBNAIL_SIZE}" viewBox="0 0 ${viewSize.toFixed(2)} ${viewSize.toFixed(2)}">${polygons}</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// Captures the chosen parts plus every assembly they fully contain. The result always has a
+// single top-level group, so the insert shows up as one unit in the scene tree.
+export const captureComponent = (
+  name: string,
+  parts: PartData[],
+  groups: PartGroup[],
+  partIds: string[]
+): LibraryComponent | null => {
+  const selected = new Set(partIds);
+  const members = parts.filter((part) => selected.has(part.id));
+  if (members.length === 0) return null;
+
+  const includedGroupIds = new Set(
+    groups
+      .filter((group) => {
+        const contained = partsInGroup(parts, groups, group.id);
+        return contained.length > 0 && contained.every((part) => selected.has(part.id));
+      })
+      .map((group) => group.id)
+  );
+  let capturedGroups: PartGroup[] = groups
+    .filter((group) => includedGroupIds.has(group.id))
+    .map((group) => ({
+      id: group.id,
+      name: group.name,
+      parentId: group.parentId && includedGroupIds.has(group.parentId) ? group.parentId : undefined,
+    }));
+  let capturedParts: PartData[] = members.map((part) => ({
+    ...part,
+    groupId: part.groupId && includedGroupIds.has(part.groupId) ? part.groupId : undefined,
+    attachment: part.attachment && selected.has(part.attachment.hingeId) ? part.attachment : undefined,
+  }));
+
+  const roots = capturedGroups.filter((group) => !group.parentId);
+  const componentName = name.trim() || roots[0]?.name || 'Assembly';
+  if (roots.length !== 1 || capturedParts.some((part) => !part.groupId)) {
+    const rootId = uuidv4();
+    capturedGroups = [
+      ...capturedGroups.map((group) => (group.parentId ? group : { ...group, parentId: rootId })),
+      { id: rootId, name: componentName },
+    ];
+    capturedParts = capturedParts.map((part) => (part.groupId ? part : { ...part, groupId: rootId }));
+  }
+
+  const bounds = new THREE.Box3();
+  capturedParts.forEach((part) => partCorners(part).forEach((corner) => bounds.expandByPoint(corner)));
+  const origin = new THREE.Vector3((bounds.min.x + bounds.max.x) / 2, bounds.min.y, (bounds.min.z + bounds.max.z) / 2);
+  const localParts = capturedParts.map((part) => ({
+    ...part,
+    position: [
+      part.position[0] - origin.x,
+      part.position[1] - origin.y,
+      part.position[2] - origin.z,
+    ] as [number, number, number],
+  }));
+
+  return {
+    id: uuidv4(),
+    name: componentName,
+    createdAt: new Date().toISOString(),
+    thumbnail: buildAssemblyThumbnail(localParts),
+    parts: localParts,
+    groups: capturedGroups,
+  };
+};
+
+// Every insert gets fresh part and group ids; hinge attachments follow their copied hinge
+// and the top-level group takes the component's current name.
+export const instantiateComponent = (component: LibraryComponent) => {
+  const { parts, groups, rejected } = parseAssembly(component.parts, component.groups);
+  const partIdMap = new Map(parts.map((part) => [part.id, uuidv4()]));
+  const groupIdMap = new Map(groups.map((group) => [group.id, uuidv4()]));
+
+  return {
+    rejectedCount: rejected.length,
+    groups: groups.map((group) => ({
+      ...group,
+      id: groupIdMap.get(group.id) as string,
+      name: group.parentId ? group.name : component.name,
+      parentId: group.parentId ? groupIdMap.get(group.parentId) : undefined,
+    })),
+    parts: parts.map((part) => {
+      const hingeId = part.attachment ? partIdMap.get(part.attachment.hingeId) : undefined;
+      return {
+        ...part,
+        id: partIdMap.get(part.id) as string,
+        groupId: part.groupId ? groupIdMap.get(part.groupId) : undefined,
+        attachment: part.attachment && hingeId ? { ...part.attachment, hingeId } : undefined,
+      };
+    }),
+  };
+};
+
+export const listLibraryComponents = async () => {
+  const records = await runRequest<LibraryComponent[]>(COMPONENTS_STORE, 'readonly', (store) => store.getAll());
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const saveLibraryComponent = (component: LibraryComponent) =>
+  runRequest(COMPONENTS_STORE, 'readwrite', (store) => store.put(component));
+
+export const renameLibraryComponent = async (id: string, name: string) => {
+  const existing = await runRequest<LibraryComponent | undefined>(COMPONENTS_STORE, 'readonly', (store) => store.get(id));
+  if (!existing) return;
+  await runRequest(COMPONENTS_STORE, 'readwrite', (store) => store.put({ ...existing, name }));
+};
+
+export const deleteLibraryComponent = (id: string) =>
+  runRequest(COMPONENTS_STORE, 'readwrite', (store) => store.delete(id));
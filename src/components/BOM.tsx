@@ -1,229 +1,55 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useStore } from '../store';
-import { PartData } from '../types';
-import { ClipboardList, ExternalLink, FileDown, ShoppingCart, ChevronDown } from 'lucide-react';
+import { CutAllowances, DimensionAnnotation, FractionPrecision, HardwareKind, LengthUnit, PartData, PriceBook, StockDefinition } from '../types';
+import { AlertTriangle, ClipboardList, ExternalLink, FileDown, ShoppingCart, ChevronDown, ChevronUp, SlidersHorizontal, Tag } from 'lucide-react';
+import { clsx } from 'clsx';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
-
-const roundTo = (value: number) => value.toFixed(3);
-const CUT_PLAN_EPS = 0.0001;
-
-type NotchRect = {
-  x0: number;
-  x1: number;
-  z0: number;
-  z1: number;
-};
+import {
+  footprintPoints,
+  lCutNotchRect,
+  NotchRect,
+  nestSheetParts,
+  planLinearStock,
+  Point2,
+  polygonNotches,
+  SheetNestingResult,
+  SheetPanelLayout,
+} from '../cutOptimizer';
+import {
+  DEFAULT_HARDWARE_KIND_PRICES,
+  formatCurrency,
+  formatStockLength,
+  getCatalogPricePerFoot,
+  getHardwareKindPrice,
+  getHardwareUnitPrice,
+  getLumberStockOptions,
+  getSheetPanelPrice,
+  getSheetStockSize,
+  getStockIssue,
+  partStockName,
+} from '../stockCatalog';
+import { cutListNumbers, groupCutList } from '../cutList';
+import { describeRounding, formatInches, formatLength, formatLengthValue, formatSize } from '../units';
+import { LengthInput } from './LengthInput';
+import { measurementLength, resolveAnnotation } from '../measurement';
+import { buildGroupTree, flattenGroupTree } from '../partGroups';
+import { buildShopDrawingsPdf } from '../shopDrawings';
+import { partPurchaseName, partSpecies, speciesPriceFactor } from '../species';
 
 type CutRecipe = {
   summary: string;
   steps: string[];
 };
 
-type Point2 = [number, number];
-
-const formatInches = (value: number) => {
-  const rounded = Math.round(value * 100) / 100;
-  const text = rounded.toFixed(2);
-  return text.replace(/\.00$/, '').replace(/(\.\d)0$/, '$1');
-};
-
-const uniqueSorted = (values: number[]) => {
-  const sorted = [...values].sort((a, b) => a - b);
-  const unique: number[] = [];
-
-  sorted.forEach((value) => {
-    if (unique.length === 0 || Math.abs(unique[unique.length - 1] - value) > CUT_PLAN_EPS) {
-      unique.push(value);
-    }
-  });
-
-  return unique;
-};
-
-const getLCutPoints = (
-  width: number,
-  depth: number,
-  cutWidth: number,
-  cutDepth: number,
-  corner: 'front-left' | 'front-right' | 'back-left' | 'back-right'
-): Point2[] => {
-  const minX = -width / 2;
-  const maxX = width / 2;
-  const minZ = -depth / 2;
-  const maxZ = depth / 2;
-
-  if (corner === 'front-left') {
-    return [
-      [minX, minZ],
-      [maxX, minZ],
-      [maxX, maxZ],
-      [minX + cutWidth, maxZ],
-      [minX + cutWidth, maxZ - cutDepth],
-      [minX, maxZ - cutDepth],
-    ];
-  }
-  if (corner === 'front-right') {
-    return [
-      [minX, minZ],
-      [maxX, minZ],
-      [maxX, maxZ - cutDepth],
-      [maxX - cutWidth, maxZ - cutDepth],
-      [maxX - cutWidth, maxZ],
-      [minX, maxZ],
-    ];
-  }
-  if (corner === 'back-left') {
-    return [
-      [minX, minZ + cutDepth],
-      [minX + cutWidth, minZ + cutDepth],
-      [minX + cutWidth, minZ],
-      [maxX, minZ],
-      [maxX, maxZ],
-      [minX, maxZ],
-    ];
-  }
-  return [
-    [minX, minZ],
-    [maxX - cutWidth, minZ],
-    [maxX - cutWidth, minZ + cutDepth],
-    [maxX, minZ + cutDepth],
-    [maxX, maxZ],
-    [minX, maxZ],
-  ];
-};
-
-const pointInPolygon = (x: number, z: number, points: [number, number][]) => {
-  let inside = false;
-  for (let i = 0, j = points.length - 1; i < points.length; j = i, i += 1) {
-    const xi = points[i][0];
-    const zi = points[i][1];
-    const xj = points[j][0];
-    const zj = points[j][1];
-
-    const intersects = ((zi > z) !== (zj > z))
-      && (x < ((xj - xi) * (z - zi)) / ((zj - zi) || Number.EPSILON) + xi);
-
-    if (intersects) {
-      inside = !inside;
-    }
-  }
-  return inside;
-};
-
-const lCutNotchRect = (part: PartData): NotchRect | null => {
-  if (!part.profile || part.profile.type !== 'l-cut') return null;
-
-  const width = part.dimensions[0];
-  const depth = part.dimensions[2];
-  const minX = -width / 2;
-  const maxX = width / 2;
-  const minZ = -depth / 2;
-  const maxZ = depth / 2;
-  const cutWidth = part.profile.cutWidth ?? width / 2;
-  const cutDepth = part.profile.cutDepth ?? depth / 2;
-  const corner = part.profile.corner ?? 'front-left';
-
-  if (corner === 'front-left') {
-    return { x0: minX, x1: minX + cutWidth, z0: maxZ - cutDepth, z1: maxZ };
-  }
-  if (corner === 'front-right') {
-    return { x0: maxX - cutWidth, x1: maxX, z0: maxZ - cutDepth, z1: maxZ };
-  }
-  if (corner === 'back-left') {
-    return { x0: minX, x1: minX + cutWidth, z0: minZ, z1: minZ + cutDepth };
-  }
-  return { x0: maxX - cutWidth, x1: maxX, z0: minZ, z1: minZ + cutDepth };
-};
-
-const polygonNotches = (part: PartData): NotchRect[] => {
-  if (!part.profile || part.profile.type !== 'polygon' || !part.profile.points || part.profile.points.length < 3) {
-    return [];
-  }
-
-  const width = part.dimensions[0];
-  const depth = part.dimensions[2];
-  const minX = -width / 2;
-  const maxX = width / 2;
-  const minZ = -depth / 2;
-  const maxZ = depth / 2;
-  const points = part.profile.points;
-
-  const xs = uniqueSorted([minX, maxX, ...points.map((p) => p[0])]);
-  const zs = uniqueSorted([minZ, maxZ, ...points.map((p) => p[1])]);
-  const nx = xs.length - 1;
-  const nz = zs.length - 1;
-
-  const missing = Array.from({ length: nx }, () => Array.from({ length: nz }, () => false));
-
-  for (let xi = 0; xi < nx; xi += 1) {
-    for (let zi = 0; zi < nz; zi += 1) {
-      const x0 = xs[xi];
-      const x1 = xs[xi + 1];
-      const z0 = zs[zi];
-      const z1 = zs[zi + 1];
-      const area = (x1 - x0) * (z1 - z0);
-      if (area <= CUT_PLAN_EPS * CUT_PLAN_EPS) continue;
-
-      const cx = (x0 + x1) / 2;
-      const cz = (z0 + z1) / 2;
-      const inside = pointInPolygon(cx, cz, points);
-      missing[xi][zi] = !inside;
-    }
-  }
-
-  const visited = Array.from({ length: nx }, () => Array.from({ length: nz }, () => false));
-  const notches: NotchRect[] = [];
-
-  for (let zi = 0; zi < nz; zi += 1) {
-    for (let xi = 0; xi < nx; xi += 1) {
-      if (!missing[xi][zi] || visited[xi][zi]) continue;
-
-      let xEnd = xi + 1;
-      while (xEnd < nx && missing[xEnd][zi] && !visited[xEnd][zi]) {
-        xEnd += 1;
-      }
-
-      let zEnd = zi + 1;
-      let canGrow = true;
-      while (canGrow && zEnd < nz) {
-        for (let x = xi; x < xEnd; x += 1) {
-          if (!missing[x][zEnd] || visited[x][zEnd]) {
-            canGrow = false;
-            break;
-          }
-        }
-        if (canGrow) {
-          zEnd += 1;
-        }
-      }
-
-      for (let z = zi; z < zEnd; z += 1) {
-        for (let x = xi; x < xEnd; x += 1) {
-          visited[x][z] = true;
-        }
-      }
-
-      notches.push({
-        x0: xs[xi],
-        x1: xs[xEnd],
-        z0: zs[zi],
-        z1: zs[zEnd],
-      });
-    }
-  }
-
-  return notches.sort((a, b) => ((b.x1 - b.x0) * (b.z1 - b.z0)) - ((a.x1 - a.x0) * (a.z1 - a.z0)));
-};
-
-const notchToInstruction = (notch: NotchRect, part: PartData) => {
+const notchToInstruction = (notch: NotchRect, part: PartData, unit: LengthUnit, precision: FractionPrecision) => {
   const minX = -part.dimensions[0] / 2;
   const minZ = -part.dimensions[2] / 2;
   const width = notch.x1 - notch.x0;
   const depth = notch.z1 - notch.z0;
   const fromLeft = notch.x0 - minX;
   const fromBack = notch.z0 - minZ;
-  return `Remove ${formatInches(width)}" x ${formatInches(depth)}" at left ${formatInches(fromLeft)}", back ${formatInches(fromBack)}"`;
+  return `Remove ${formatSize([width, depth], unit, precision)} at left ${formatLength(fromLeft, unit, precision)}, back ${formatLength(fromBack, unit, precision)}`;
 };
 
 const homeDepotSearchUrl = (query: string) => `https://www.homedepot.com/s/${encodeURIComponent(query)}`;
@@ -239,9 +65,40 @@ const homeDepotQueryForPart = (part: PartData) => {
     return `${part.name} hardware`;
   }
   if (part.type === 'sheet') {
-    return `${part.name} plywood sheet`;
+    return `${partPurchaseName(part)} plywood sheet`;
   }
-  return `${part.name} lumber board`;
+  return `${partPurchaseName(part)} lumber board`;
+};
+
+const speciesMeta = (part: PartData) => (part.type === 'hardware' ? '' : ` | Species: ${partSpecies(part).label}`);
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+// A species other than the stock's usual one is its own shopping line. Unless the price book
+// names that line directly, it costs the base stock's price scaled by the species.
+const speciesLumberOptions = (part: PartData, priceBook: PriceBook, customStock: StockDefinition[]) => {
+  const name = partPurchaseName(part);
+  const stockName = partStockName(part);
+  if (name === stockName) return getLumberStockOptions(name, priceBook, customStock);
+  const override = priceBook.parts[name];
+  if (override !== undefined) {
+    return getLumberStockOptions(stockName, { ...priceBook, parts: { [stockName]: override } }, customStock);
+  }
+  const factor = speciesPriceFactor(part);
+  return getLumberStockOptions(stockName, priceBook, customStock).map((option) => ({
+    ...option,
+    price: option.price === null ? null : roundPrice(option.price * factor),
+  }));
+};
+
+const speciesSheetPrice = (part: PartData, priceBook: PriceBook) => {
+  const name = partPurchaseName(part);
+  const stockName = partStockName(part);
+  if (name === stockName) return getSheetPanelPrice(name, priceBook);
+  const override = priceBook.parts[name];
+  if (override !== undefined) return override;
+  const base = getSheetPanelPrice(stockName, priceBook);
+  return base === null ? null : roundPrice(base * speciesPriceFactor(part));
 };
 
 const escapeHtml = (value: string) =>
@@ -252,32 +109,6 @@ const escapeHtml = (value: string) =>
     .replace(/"/g, '&quot;')
     .replace(/'/g, '&#039;');
 
-const footprintPoints = (part: PartData): Point2[] => {
-  const width = part.dimensions[0];
-  const depth = part.dimensions[2];
-  const minX = -width / 2;
-  const maxX = width / 2;
-  const minZ = -depth / 2;
-  const maxZ = depth / 2;
-
-  if (part.profile?.type === 'polygon' && part.profile.points && part.profile.points.length >= 3) {
-    return part.profile.points;
-  }
-
-  if (part.profile?.type === 'l-cut') {
-    const cutWidth = part.profile.cutWidth ?? width / 2;
-    const cutDepth = part.profile.cutDepth ?? depth / 2;
-    return getLCutPoints(width, depth, cutWidth, cutDepth, part.profile.corner ?? 'front-left');
-  }
-
-  return [
-    [minX, minZ],
-    [maxX, minZ],
-    [maxX, maxZ],
-    [minX, maxZ],
-  ];
-};
-
 const buildPathForSvg = (points: Point2[], size = 148, padding = 12) => {
   const xs = points.map((p) => p[0]);
   const zs = points.map((p) => p[1]);
@@ -347,7 +178,44 @@ const cutShapeSvg = (part: PartData) => {
   `;
 };
 
-const cutRecipe = (part: PartData): CutRecipe | null => {
+const SHEET_LAYOUT_SVG_SCALE = 3;
+
+const sheetPanelSvg = (panel: SheetPanelLayout, labels: Record<string, string>, unit: LengthUnit, precision: FractionPrecision) => {
+  const padding = 2;
+  const viewWidth = panel.stock.length + padding * 2;
+  const viewHeight = panel.stock.width + padding * 2;
+  // Panels are drawn landscape: the long edge of the sheet runs left to right.
+  const toSvg = ([x, y]: Point2) => `${(y + padding).toFixed(2)} ${(x + padding).toFixed(2)}`;
+
+  const pieces = panel.placements.map((placement) => {
+    const path = placement.points.map((point, i) => `${i === 0 ? 'M' : 'L'}${toSvg(point)}`).join(' ');
+    const centerX = placement.y + placement.length / 2 + padding;
+    const centerY = placement.x + placement.width / 2 + padding;
+    const fontSize = Math.max(1.2, Math.min(3, Math.min(placement.width, placement.length) * 0.3));
+    const label = labels[placement.partId] ?? '';
+    const showSize = Math.min(placement.width, placement.length) >= fontSize * 3;
+    const sizeLabel = `${formatLengthValue(placement.length, unit, precision)} x ${formatLengthValue(placement.width, unit, precision)}`;
+
+    return `
+      <path d="${path} Z" fill="#bfdbfe" stroke="#1d4ed8" stroke-width="0.3" />
+      <text x="${centerX.toFixed(2)}" y="${(centerY + (showSize ? -fontSize * 0.15 : fontSize * 0.35)).toFixed(2)}" text-anchor="middle" font-size="${fontSize.toFixed(2)}" font-weight="bold" fill="#1e3a8a" font-family="Arial">${escapeHtml(label)}</text>
+      ${showSize ? `<text x="${centerX.toFixed(2)}" y="${(centerY + fontSize * 0.95).toFixed(2)}" text-anchor="middle" font-size="${(fontSize * 0.7).toFixed(2)}" fill="#334155" font-family="Arial">${escapeHtml(sizeLabel)}</text>` : ''}
+    `;
+  }).join('');
+
+  return `
+    <svg viewBox="0 0 ${viewWidth} ${viewHeight}" width="${viewWidth * SHEET_LAYOUT_SVG_SCALE}" height="${viewHeight * SHEET_LAYOUT_SVG_SCALE}" xmlns="http://www.w3.org/2000/svg">
+      <rect x="${padding}" y="${padding}" width="${panel.stock.length}" height="${panel.stock.width}" fill="#f8fafc" stroke="#64748b" stroke-width="0.4" stroke-dasharray="1.5 1" />
+      ${pieces}
+    </svg>
+  `;
+};
+
+const sheetPanelTitle = (panel: SheetPanelLayout, panelCount: number, unit: LengthUnit, precision: FractionPrecision) => (
+  `${panel.material} - Panel ${panel.index} of ${panelCount} (${formatSize([panel.stock.width, panel.stock.length], unit, precision)}, ${Math.round(panel.utilization * 100)}% used)`
+);
+
+const cutRecipe = (part: PartData, unit: LengthUnit, precision: FractionPrecision): CutRecipe | null => {
   if (part.type === 'hardware' || !part.profile || part.profile.type === 'rect') {
     return null;
   }
@@ -357,7 +225,7 @@ const cutRecipe = (part: PartData): CutRecipe | null => {
     if (!notch) return null;
     return {
       summary: '2 straight cuts (1 corner notch)',
-      steps: [notchToInstruction(notch, part)],
+      steps: [notchToInstruction(notch, part, unit, precision)],
     };
   }
 
@@ -370,7 +238,7 @@ const cutRecipe = (part: PartData): CutRecipe | null => {
       };
     }
 
-    const steps = notches.map((notch) => notchToInstruction(notch, part));
+    const steps = notches.map((notch) => notchToInstruction(notch, part, unit, precision));
     return {
       summary: `${notches.length * 2} straight cuts (${notches.length} notch${notches.length > 1 ? 'es' : ''})`,
       steps,
@@ -392,48 +260,7 @@ const cutRecipe = (part: PartData): CutRecipe | null => {
   return null;
 };
 
-const profileSignature = (part: PartData) => {
-  if (part.type === 'hardware') {
-    return 'hardware';
-  }
-
-  if (!part.profile || part.profile.type === 'rect') {
-    return 'rect';
-  }
-
-  if (part.profile.type === 'polygon' && part.profile.points) {
-    const serializedPoints = part.profile.points
-      .map(([x, z]) => `${roundTo(x)},${roundTo(z)}`)
-      .join(';');
-    return ['polygon', serializedPoints].join('|');
-  }
-
-  if (part.profile.type === 'angled') {
-    return [
-      'angled',
-      roundTo(part.profile.startAngle ?? 0),
-      roundTo(part.profile.endAngle ?? 0),
-    ].join('|');
-  }
-
-  return [
-    'l-cut',
-    roundTo(part.profile.cutWidth ?? part.dimensions[0] / 2),
-    roundTo(part.profile.cutDepth ?? part.dimensions[2] / 2),
-    part.profile.corner ?? 'front-left',
-  ].join('|');
-};
-
-const cutKey = (part: PartData) => {
-  return [
-    part.name,
-    part.type,
-    ...part.dimensions.map((dimension) => roundTo(dimension)),
-    profileSignature(part),
-  ].join('|');
-};
-
-const formatProfile = (part: PartData) => {
+const formatProfile = (part: PartData, unit: LengthUnit, precision: FractionPrecision) => {
   if (!part.profile || part.profile.type === 'rect' || part.type === 'hardware') {
     return null;
   }
@@ -447,76 +274,162 @@ const formatProfile = (part: PartData) => {
   }
 
   const corner = (part.profile.corner ?? 'front-left').replace('-', ' ');
-  return `L-cut: ${part.profile.cutWidth?.toFixed(1) ?? (part.dimensions[0] / 2).toFixed(1)}" x ${part.profile.cutDepth?.toFixed(1) ?? (part.dimensions[2] / 2).toFixed(1)}" (${corner})`;
+  const cutWidth = part.profile.cutWidth ?? part.dimensions[0] / 2;
+  const cutDepth = part.profile.cutDepth ?? part.dimensions[2] / 2;
+  return `L-cut: ${formatSize([cutWidth, cutDepth], unit, precision)} (${corner})`;
+};
+
+const DIMENSION_LABELS = ['Width', 'Height', 'Length'];
+
+// Dimensions that fall between tick marks at the chosen precision, so the cut list can say so.
+const roundingWarnings = (part: PartData, unit: LengthUnit, precision: FractionPrecision) => {
+  if (part.type === 'hardware') return [];
+  return part.dimensions.flatMap((dimension, axis) => {
+    const rounding = describeRounding(dimension, unit, precision);
+    return rounding ? [`${DIMENSION_LABELS[axis]} ${rounding}`] : [];
+  });
 };
 
-const calculateShoppingList = (parts: PartData[]) => {
+// One line per dimension annotation whose parts are still in the design.
+const describeAnnotations = (
+  annotations: DimensionAnnotation[],
+  parts: PartData[],
+  unit: LengthUnit,
+  precision: FractionPrecision
+) => annotations.flatMap((annotation) => {
+  const placement = resolveAnnotation(annotation, parts);
+  if (!placement) return [];
+  const { measurement, startPart, endPart } = placement;
+  const length = formatLength(measurementLength(measurement), unit, precision);
+  return [`${startPart.name} to ${endPart.name}: ${measurement.kind === 'face' ? `gap ${length}` : length}`];
+});
+
+type ShoppingListEntry = {
+  count: number;
+  totalLength: number;
+  details: string;
+  cost: number | null;
+};
+
+const formatAllowances = (allowances: CutAllowances, unit: LengthUnit, precision: FractionPrecision) => (
+  `Kerf ${formatLength(allowances.kerf, unit, precision)} | End trim ${formatLength(allowances.endTrim, unit, precision)} per end | Rip allowance ${formatLength(allowances.ripAllowance, unit, precision)}`
+);
+
+const calculateShoppingList = (
+  parts: PartData[],
+  sheetNesting: SheetNestingResult,
+  allowances: CutAllowances,
+  priceBook: PriceBook,
+  customStock: StockDefinition[],
+  unit: LengthUnit,
+  precision: FractionPrecision
+) => {
   const groups: Record<string, number[]> = {};
   const hardware: Record<string, number> = {};
+  const hardwareKinds: Record<string, HardwareKind | undefined> = {};
+  const sheetAreas: Record<string, number> = {};
+  const samplePart: Record<string, PartData> = {};
 
   parts.forEach((part) => {
     if (part.type === 'hardware') {
       hardware[part.name] = (hardware[part.name] || 0) + 1;
+      hardwareKinds[part.name] = hardwareKinds[part.name] ?? part.hardwareKind;
       return;
     }
 
-    if (!groups[part.name]) {
-      groups[part.name] = [];
+    const purchaseName = partPurchaseName(part);
+    samplePart[purchaseName] = samplePart[purchaseName] ?? part;
+    if (part.type === 'sheet') {
+      sheetAreas[purchaseName] = (sheetAreas[purchaseName] || 0) + part.dimensions[0] * part.dimensions[2];
+      return;
+    }
+
+    if (!groups[purchaseName]) {
+      groups[purchaseName] = [];
     }
     const length = Math.max(...part.dimensions);
-    groups[part.name].push(length);
+    groups[purchaseName].push(length);
   });
 
-  const shoppingList: Record<string, { count: number; totalLength: number; details: string }> = {};
+  const shoppingList: Record<string, ShoppingListEntry> = {};
+  const nominalSuffix = (name: string) => {
+    const nominal = customStock.find((stock) => stock.name === name)?.nominal;
+    return nominal ? ` (${nominal} nominal)` : '';
+  };
 
   Object.entries(hardware).forEach(([name, count]) => {
+    const unitPrice = getHardwareUnitPrice(name, hardwareKinds[name], priceBook);
     shoppingList[name] = {
       count,
       totalLength: 0,
-      details: `${count} unit${count > 1 ? 's' : ''}`,
+      details: `${count} unit${count > 1 ? 's' : ''}${unitPrice === null ? '' : ` @ ${formatCurrency(unitPrice)}`}`,
+      cost: unitPrice === null ? null : unitPrice * count,
     };
   });
 
-  const STOCK_LENGTH = 96;
-
   Object.entries(groups).forEach(([name, lengths]) => {
-    lengths.sort((a, b) => b - a);
-
-    const bins: number[] = [];
-
-    lengths.forEach((len) => {
-      let fitted = false;
-      for (let i = 0; i < bins.length; i += 1) {
-        if (bins[i] >= len) {
-          bins[i] -= len;
-          fitted = true;
-          break;
-        }
-      }
-      if (!fitted) {
-        if (len > STOCK_LENGTH) {
-          const count = Math.ceil(len / STOCK_LENGTH);
-          for (let k = 0; k < count; k += 1) {
-            bins.push(0);
-          }
-        } else {
-          bins.push(STOCK_LENGTH - len);
-        }
-      }
+    const part = samplePart[name];
+    const plan = planLinearStock(lengths, speciesLumberOptions(part, priceBook, customStock), allowances);
+    const countsByLength = new Map<number, number>();
+    plan.boards.forEach((board) => {
+      countsByLength.set(board.stockLength, (countsByLength.get(board.stockLength) ?? 0) + 1);
     });
+    const mix = Array.from(countsByLength.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([stockLength, count]) => `${count} x ${formatStockLength(stockLength, unit, precision)}`)
+      .join(', ');
 
     shoppingList[name] = {
-      count: bins.length,
+      count: plan.boards.length,
       totalLength: lengths.reduce((a, b) => a + b, 0),
-      details: `${bins.length} x 8ft (96\") Board${bins.length > 1 ? 's' : ''}`,
+      details: `${mix} Board${plan.boards.length > 1 ? 's' : ''}${nominalSuffix(partStockName(part))}`,
+      cost: plan.totalCost,
+    };
+  });
+
+  Object.entries(sheetAreas).forEach(([name, totalArea]) => {
+    const panelCount = sheetNesting.panelCountByMaterial[name] ?? 0;
+    const part = samplePart[name];
+    const stockName = partStockName(part);
+    const stock = getSheetStockSize(stockName, customStock);
+    const panelPrice = speciesSheetPrice(part, priceBook);
+    shoppingList[name] = {
+      count: panelCount,
+      totalLength: totalArea,
+      details: `${panelCount} x ${formatSize([stock.width, stock.length], unit, precision)} Panel${panelCount > 1 ? 's' : ''}${nominalSuffix(stockName)}`,
+      cost: panelPrice === null ? null : panelPrice * panelCount,
     };
   });
 
   return shoppingList;
 };
 
+// Spreads each shopping line's cost over the parts that use it (by length, area or unit),
+// so assembly subtotals add back up to the estimated total.
+const allocatePartCosts = (parts: PartData[], shoppingList: Record<string, ShoppingListEntry>) =>
+  parts.reduce<Record<string, number | null>>((costs, part) => {
+    const entry = shoppingList[partPurchaseName(part)];
+    if (!entry || entry.cost === null) {
+      costs[part.id] = null;
+    } else if (part.type === 'hardware') {
+      costs[part.id] = entry.count > 0 ? entry.cost / entry.count : 0;
+    } else {
+      const share = part.type === 'sheet'
+        ? part.dimensions[0] * part.dimensions[2]
+        : Math.max(...part.dimensions);
+      costs[part.id] = entry.totalLength > 0 ? (entry.cost * share) / entry.totalLength : 0;
+    }
+    return costs;
+  }, {});
+
 type ReportFormat = 'html' | 'pdf';
 
+const ALLOWANCE_FIELDS: Array<{ key: keyof CutAllowances; label: string; title: string }> = [
+  { key: 'kerf', label: 'Kerf', title: 'Blade kerf removed by every cut' },
+  { key: 'endTrim', label: 'End Trim', title: 'Trimmed from each factory end or sheet edge before cutting' },
+  { key: 'ripAllowance', label: 'Rip', title: 'Extra width left on each sheet rip for cleanup' },
+];
+
 const triggerFileDownload = (filename: string, contents: string, mimeType: string) => {
   const blob = new Blob([contents], { type: mimeType });
   const url = URL.createObjectURL(blob);
@@ -527,7 +440,24 @@ const triggerFileDownload = (filename: string, contents: string, mimeType: strin
   setTimeout(() => URL.revokeObjectURL(url), 5000);
 };
 
-const buildHomeDepotPdf = (rows: Array<{ name: string; qty: number; details: string; url: string }>) => {
+const summarizeCosts = (rows: Array<{ cost: number | null }>) => ({
+  total: rows.reduce((sum, row) => sum + (row.cost ?? 0), 0),
+  unpricedCount: rows.filter((row) => row.cost === null).length,
+});
+
+const formatGrandTotal = (rows: Array<{ cost: number | null }>) => {
+  const { total, unpricedCount } = summarizeCosts(rows);
+  return unpricedCount > 0
+    ? `${formatCurrency(total)} (+${unpricedCount} unpriced item${unpricedCount > 1 ? 's' : ''})`
+    : formatCurrency(total);
+};
+
+const buildHomeDepotPdf = (
+  rows: Array<{ name: string; qty: number; details: string; cost: number | null; url: string }>,
+  allowances: CutAllowances,
+  unit: LengthUnit,
+  precision: FractionPrecision
+) => {
   const doc = new jsPDF({ unit: 'pt', format: 'letter' });
   const exportedAt = new Date().toLocaleString();
 
@@ -538,25 +468,35 @@ const buildHomeDepotPdf = (rows: Array<{ name: string; qty: number; details: str
   doc.setFontSize(10);
   doc.setTextColor(71, 85, 105);
   doc.text(`Generated ${exportedAt}`, 40, 64);
+  doc.text(`Allowances: ${formatAllowances(allowances, unit, precision)}`, 40, 78);
   doc.setTextColor(15, 23, 42);
 
   autoTable(doc, {
-    startY: 82,
-    head: [['Item', 'Qty', 'Estimate', 'Search Link']],
-    body: rows.map((row) => [row.name, `${row.qty}`, row.details, row.url]),
+    startY: 94,
+    head: [['Item', 'Qty', 'Estimate', 'Cost', 'Search Link']],
+    body: rows.map((row) => [
+      row.name,
+      `${row.qty}`,
+      row.details,
+      row.cost === null ? '-' : formatCurrency(row.cost),
+      row.url,
+    ]),
+    foot: [['Grand Total', '', '', formatGrandTotal(rows), '']],
     styles: { fontSize: 9, cellPadding: 5, valign: 'top' },
     headStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42] },
+    footStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42], fontStyle: 'bold' },
     columnStyles: {
-      1: { cellWidth: 38, halign: 'center' },
-      2: { cellWidth: 170 },
-      3: { cellWidth: 190, textColor: [29, 78, 216] },
+      1: { cellWidth: 34, halign: 'center' },
+      2: { cellWidth: 140 },
+      3: { cellWidth: 60, halign: 'right' },
+      4: { cellWidth: 160, textColor: [29, 78, 216] },
     },
   });
 
   doc.save('home-depot-report.pdf');
 };
 
-const svgMarkupToPngDataUrl = (svgMarkup: string, size = 148) =>
+const svgMarkupToPngDataUrl = (svgMarkup: string, width = 148, height = width) =>
   new Promise<string>((resolve, reject) => {
     const blob = new Blob([svgMarkup], { type: 'image/svg+xml;charset=utf-8' });
     const url = URL.createObjectURL(blob);
@@ -565,8 +505,8 @@ const svgMarkupToPngDataUrl = (svgMarkup: string, size = 148) =>
     image.onload = () => {
       try {
         const canvas = document.createElement('canvas');
-        canvas.width = size;
-        canvas.height = size;
+        canvas.width = width;
+        canvas.height = height;
         const ctx = canvas.getContext('2d');
         if (!ctx) {
           URL.revokeObjectURL(url);
@@ -574,8 +514,8 @@ const svgMarkupToPngDataUrl = (svgMarkup: string, size = 148) =>
           return;
         }
         ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, size, size);
-        ctx.drawImage(image, 0, 0, size, size);
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(image, 0, 0, width, height);
         URL.revokeObjectURL(url);
         resolve(canvas.toDataURL('image/png'));
       } catch (error) {
@@ -594,7 +534,13 @@ const svgMarkupToPngDataUrl = (svgMarkup: string, size = 148) =>
 
 const buildCutReportPdf = async (
   parts: PartData[],
-  cutList: Array<{ key: string; part: PartData; count: number }>
+  cutList: Array<{ key: string; part: PartData; count: number }>,
+  sheetNesting: SheetNestingResult,
+  sheetLabels: Record<string, string>,
+  dimensionNotes: string[],
+  allowances: CutAllowances,
+  unit: LengthUnit,
+  precision: FractionPrecision
 ) => {
   const doc = new jsPDF({ unit: 'pt', format: 'letter' });
   const pageHeight = doc.internal.pageSize.getHeight();
@@ -633,15 +579,18 @@ const buildCutReportPdf = async (
     margin,
     y
   );
+  y += 14;
+  doc.text(`Allowances: ${formatAllowances(allowances, unit, precision)}`, margin, y);
   doc.setTextColor(15, 23, 42);
   y += 18;
 
   for (let index = 0; index < cutList.length; index += 1) {
     const { part, count } = cutList[index];
-    const profileLabel = formatProfile(part) ?? 'Rectangular profile';
-    const recipe = cutRecipe(part);
+    const profileLabel = formatProfile(part, unit, precision) ?? 'Rectangular profile';
+    const recipe = cutRecipe(part, unit, precision);
     const steps = recipe?.steps ?? ['No custom cuts required beyond final dimensions.'];
     const recipeSummary = recipe?.summary ?? 'Standard rectangular cutting';
+    const rounding = roundingWarnings(part, unit, precision);
     const textX = margin + cardPadding + shapeSize + 12;
     const textWidth = 612 - margin - textX - cardPadding;
 
@@ -651,9 +600,10 @@ const buildCutReportPdf = async (
     doc.setFont('helvetica', 'normal');
     doc.setFontSize(10);
     const dimensionLines = doc.splitTextToSize(
-      `Dimensions: ${part.dimensions[0].toFixed(1)}" x ${part.dimensions[1].toFixed(1)}" x ${part.dimensions[2].toFixed(1)}" | Type: ${part.type}`,
+      `Dimensions: ${formatSize(part.dimensions, unit, precision)} | Type: ${part.type}${speciesMeta(part)}`,
       textWidth
     );
+    const roundingLines = rounding.flatMap((warning) => doc.splitTextToSize(`Rounded: ${warning}`, textWidth));
     const profileLines = doc.splitTextToSize(`Profile: ${profileLabel}`, textWidth);
     const summaryLines = doc.splitTextToSize(`Cut Plan: ${recipeSummary}`, textWidth);
     const stepLines = steps.flatMap((step, stepIndex) =>
@@ -663,6 +613,7 @@ const buildCutReportPdf = async (
     const textLineCount = (
       titleLines.length
       + dimensionLines.length
+      + roundingLines.length
       + profileLines.length
       + summaryLines.length
       + stepLines.length
@@ -702,6 +653,12 @@ const buildCutReportPdf = async (
       doc.text(line, textX, textY);
       textY += lineHeight;
     });
+    doc.setTextColor(180, 83, 9);
+    roundingLines.forEach((line: string) => {
+      doc.text(line, textX, textY);
+      textY += lineHeight;
+    });
+    doc.setTextColor(15, 23, 42);
     profileLines.forEach((line: string) => {
       doc.text(line, textX, textY);
       textY += lineHeight;
@@ -719,36 +676,168 @@ const buildCutReportPdf = async (
     y += cardHeight + cardGap;
   }
 
+  if (dimensionNotes.length > 0) {
+    ensureSpace(40);
+    y += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text('Dimensions', margin, y);
+    y += 18;
+    doc.setFont('helvetica', 'normal');
+    dimensionNotes.forEach((note) => writeWrapped(note, margin, 612 - margin * 2));
+    y += 6;
+  }
+
+  if (sheetNesting.panels.length > 0 || sheetNesting.oversized.length > 0) {
+    const layoutWidth = 612 - margin * 2;
+
+    ensureSpace(40);
+    y += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text('Sheet Layouts', margin, y);
+    y += 18;
+    doc.setFont('helvetica', 'normal');
+
+    sheetNesting.oversized.forEach(({ part, panelsNeeded }) => {
+      doc.setTextColor(185, 28, 28);
+      writeWrapped(
+        `${part.name} (${sheetLabels[part.id] ?? ''}) is larger than one panel and needs ${panelsNeeded} spliced panels.`,
+        margin,
+        layoutWidth
+      );
+      doc.setTextColor(15, 23, 42);
+    });
+
+    for (const panel of sheetNesting.panels) {
+      const panelCount = sheetNesting.panels.filter((item) => item.material === panel.material).length;
+      const layoutHeight = layoutWidth * ((panel.stock.width + 4) / (panel.stock.length + 4));
+      ensureSpace(layoutHeight + lineHeight + cardGap * 2);
+
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(11);
+      doc.text(sheetPanelTitle(panel, panelCount, unit, precision), margin, y);
+      y += 8;
+
+      try {
+        const layoutPngData = await svgMarkupToPngDataUrl(
+          sheetPanelSvg(panel, sheetLabels, unit, precision),
+          Math.round(layoutWidth * 2),
+          Math.round(layoutHeight * 2)
+        );
+        doc.addImage(layoutPngData, 'PNG', margin, y, layoutWidth, layoutHeight);
+      } catch {
+        doc.setDrawColor(203, 213, 225);
+        doc.rect(margin, y, layoutWidth, layoutHeight);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(9);
+        doc.setTextColor(100, 116, 139);
+        doc.text('Layout preview unavailable', margin + 8, y + layoutHeight / 2);
+        doc.setTextColor(15, 23, 42);
+      }
+
+      y += layoutHeight + cardGap * 2;
+    }
+  }
+
   doc.save('cut-report.pdf');
 };
 
+const PriceInput: React.FC<{
+  label: string;
+  unit: string;
+  value: number | undefined;
+  placeholder: number | null;
+  onChange: (price: number | null) => void;
+}> = ({ label, unit, value, placeholder, onChange }) => (
+  <label className="flex items-center justify-between gap-2">
+    <span className="text-[11px] text-slate-600 truncate capitalize" title={label}>{label}</span>
+    <span className="flex items-center gap-1 shrink-0">
+      <span className="text-[11px] text-slate-400">$</span>
+      <input
+        type="number"
+        step="0.01"
+        min="0"
+        value={value ?? ''}
+        placeholder={placeholder === null ? '-' : placeholder.toFixed(2)}
+        onChange={(e) => {
+          const price = parseFloat(e.target.value);
+          onChange(Number.isFinite(price) ? price : null);
+        }}
+        className="w-20 px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+      />
+      <span className="w-9 text-[10px] text-slate-400">{unit}</span>
+    </span>
+  </label>
+);
+
 export const BOM: React.FC = () => {
-  const { parts } = useStore();
+  const {
+    parts,
+    groups,
+    cutAllowances,
+    setCutAllowances,
+    priceBook,
+    setPriceBook,
+    setPriceBookEntry,
+    customStock,
+    lengthUnit,
+    fractionPrecision,
+    annotations,
+    projectName,
+  } = useStore();
   const [tab, setTab] = useState<'cut' | 'shop'>('cut');
   const [openDownloadMenu, setOpenDownloadMenu] = useState<'cut' | 'shop' | null>(null);
+  const [allowancesOpen, setAllowancesOpen] = useState(false);
+  const [priceBookOpen, setPriceBookOpen] = useState(false);
   const cutDownloadMenuRef = useRef<HTMLDivElement>(null);
   const shopDownloadMenuRef = useRef<HTMLDivElement>(null);
 
-  const shoppingList = useMemo(() => calculateShoppingList(parts), [parts]);
-  const cutList = useMemo(() => {
-    const grouped = new Map<string, { key: string; part: PartData; count: number }>();
-
-    parts.forEach((part) => {
-      const key = cutKey(part);
-      const existing = grouped.get(key);
-      if (existing) {
-        existing.count += 1;
-        return;
+  const sheetNesting = useMemo(
+    () => nestSheetParts(parts, cutAllowances, customStock),
+    [cutAllowances, customStock, parts]
+  );
+  const shoppingList = useMemo(
+    () => calculateShoppingList(parts, sheetNesting, cutAllowances, priceBook, customStock, lengthUnit, fractionPrecision),
+    [cutAllowances, customStock, fractionPrecision, lengthUnit, parts, priceBook, sheetNesting]
+  );
+  const cutList = useMemo(() => groupCutList(parts), [parts]);
+  const dimensionNotes = useMemo(
+    () => describeAnnotations(annotations, parts, lengthUnit, fractionPrecision),
+    [annotations, fractionPrecision, lengthUnit, parts]
+  );
+  const roundedCutCount = useMemo(
+    () => cutList.filter(({ part }) => roundingWarnings(part, lengthUnit, fractionPrecision).length > 0).length,
+    [cutList, fractionPrecision, lengthUnit]
+  );
+  const stockIssueCount = useMemo(
+    () => parts.filter((part) => getStockIssue(part, customStock)).length,
+    [customStock, parts]
+  );
+  const assemblyRows = useMemo(() => {
+    const partCosts = allocatePartCosts(parts, shoppingList);
+    return flattenGroupTree(buildGroupTree(groups, parts).roots).map((node) => ({
+      id: node.group.id,
+      name: node.group.name,
+      depth: node.depth,
+      partCount: node.allParts.length,
+      costs: node.allParts.map((part) => ({ cost: partCosts[part.id] ?? null })),
+    }));
+  }, [groups, parts, shoppingList]);
+
+  const sheetLabels = useMemo(() => {
+    const numbers = cutListNumbers(parts);
+    return parts.reduce<Record<string, string>>((labels, part) => {
+      if (part.type === 'sheet') {
+        labels[part.id] = `#${numbers[part.id] || '?'}`;
       }
-      grouped.set(key, { key, part, count: 1 });
-    });
-
-    return Array.from(grouped.values());
+      return labels;
+    }, {});
   }, [parts]);
 
   const homeDepotRows = useMemo(() => {
     return Object.entries(shoppingList).map(([name, info]) => {
-      const part = parts.find((item) => item.name === name);
+      const part = parts.find((item) => partPurchaseName(item) === name);
       const query = homeDepotQueryForPart(part ?? {
         id: '',
         name,
@@ -762,12 +851,35 @@ export const BOM: React.FC = () => {
         name,
         qty: info.count,
         details: info.details,
+        cost: info.cost,
         query,
         url: homeDepotSearchUrl(query),
       };
     });
   }, [parts, shoppingList]);
 
+  const priceBookRows = useMemo(() => {
+    const kindOnlyBook: PriceBook = { parts: {}, hardwareKinds: priceBook.hardwareKinds };
+    return Object.keys(shoppingList).map((name) => {
+      const part = parts.find((item) => partPurchaseName(item) === name);
+      const type = part?.type ?? 'hardware';
+      const stockName = part ? partStockName(part) : name;
+      const factor = part && stockName !== name ? speciesPriceFactor(part) : 1;
+      const basePrice = type === 'lumber'
+        ? getCatalogPricePerFoot(stockName)
+        : type === 'sheet'
+          ? getSheetPanelPrice(stockName)
+          : getHardwareUnitPrice(name, part?.hardwareKind, kindOnlyBook);
+      const defaultPrice = basePrice === null ? null : roundPrice(basePrice * factor);
+      return {
+        name,
+        unit: type === 'lumber' ? '/ft' : type === 'sheet' ? '/panel' : '/ea',
+        defaultPrice,
+        override: priceBook.parts[name],
+      };
+    });
+  }, [parts, priceBook, shoppingList]);
+
   useEffect(() => {
     if (!openDownloadMenu) return;
 
@@ -794,6 +906,7 @@ export const BOM: React.FC = () => {
           <td>${escapeHtml(row.name)}</td>
           <td>${row.qty}</td>
           <td>${escapeHtml(row.details)}</td>
+          <td class="cost">${row.cost === null ? '-' : escapeHtml(formatCurrency(row.cost))}</td>
           <td><a href="${row.url}" target="_blank" rel="noopener noreferrer">Open Link</a></td>
         </tr>
       `)
@@ -813,21 +926,31 @@ export const BOM: React.FC = () => {
     th, td { border: 1px solid #cbd5e1; padding: 10px; text-align: left; vertical-align: top; }
     th { background: #f1f5f9; }
     a { color: #1d4ed8; text-decoration: none; }
+    .cost { text-align: right; white-space: nowrap; }
+    tfoot td { background: #f1f5f9; font-weight: bold; }
   </style>
 </head>
 <body>
   <h1>Home Depot Shopping Report</h1>
-  <p>Generated ${escapeHtml(exportedAt)}</p>
+  <p>Generated ${escapeHtml(exportedAt)}<br />Allowances: ${escapeHtml(formatAllowances(cutAllowances, lengthUnit, fractionPrecision))}</p>
   <table>
     <thead>
       <tr>
         <th>Item</th>
         <th>Qty</th>
         <th>Estimate</th>
+        <th>Cost</th>
         <th>Search Link</th>
       </tr>
     </thead>
     <tbody>${rowsHtml}</tbody>
+    <tfoot>
+      <tr>
+        <td colspan="3">Grand Total</td>
+        <td class="cost">${escapeHtml(formatGrandTotal(homeDepotRows))}</td>
+        <td></td>
+      </tr>
+    </tfoot>
   </table>
 </body>
 </html>`;
@@ -835,9 +958,12 @@ export const BOM: React.FC = () => {
 
   const buildCutReportHtml = () => {
     const cards = cutList.map(({ part, count }, index) => {
-      const profileLabel = formatProfile(part) ?? 'Rectangular profile';
-      const recipe = cutRecipe(part);
+      const profileLabel = formatProfile(part, lengthUnit, fractionPrecision) ?? 'Rectangular profile';
+      const recipe = cutRecipe(part, lengthUnit, fractionPrecision);
       const steps = recipe?.steps ?? ['No custom cuts required beyond final dimensions.'];
+      const roundingHtml = roundingWarnings(part, lengthUnit, fractionPrecision)
+        .map((warning) => `<p class="rounding">${escapeHtml(`Rounded: ${warning}`)}</p>`)
+        .join('');
       const stepsHtml = steps
         .map((step, stepIndex) => `<li>${escapeHtml(`${stepIndex + 1}. ${step}`)}</li>`)
         .join('');
@@ -847,7 +973,8 @@ export const BOM: React.FC = () => {
           <div class="shape">${cutShapeSvg(part)}</div>
           <div class="content">
             <h2>${index + 1}. ${escapeHtml(part.name)} <span class="badge">x${count}</span></h2>
-            <p class="meta">Dimensions: ${escapeHtml(`${part.dimensions[0].toFixed(1)}" x ${part.dimensions[1].toFixed(1)}" x ${part.dimensions[2].toFixed(1)}"`)} | Type: ${escapeHtml(part.type)}</p>
+            <p class="meta">Dimensions: ${escapeHtml(formatSize(part.dimensions, lengthUnit, fractionPrecision))} | Type: ${escapeHtml(part.type + speciesMeta(part))}</p>
+            ${roundingHtml}
             <p class="profile">${escapeHtml(profileLabel)}</p>
             <p class="summary"><strong>Cut Plan:</strong> ${escapeHtml(recipe?.summary ?? 'Standard rectangular cutting')}</p>
             <ol class="steps">${stepsHtml}</ol>
@@ -856,6 +983,25 @@ export const BOM: React.FC = () => {
       `;
     }).join('');
 
+    const oversizedHtml = sheetNesting.oversized
+      .map(({ part, panelsNeeded }) => `<p class="warning">${escapeHtml(`${part.name} (${sheetLabels[part.id] ?? ''}) is larger than one panel and needs ${panelsNeeded} spliced panels.`)}</p>`)
+      .join('');
+    const panelsHtml = sheetNesting.panels.map((panel) => {
+      const panelCount = sheetNesting.panels.filter((item) => item.material === panel.material).length;
+      return `
+        <article class="panel">
+          <h3>${escapeHtml(sheetPanelTitle(panel, panelCount, lengthUnit, fractionPrecision))}</h3>
+          ${sheetPanelSvg(panel, sheetLabels, lengthUnit, fractionPrecision)}
+        </article>
+      `;
+    }).join('');
+    const dimensionSectionHtml = dimensionNotes.length > 0
+      ? `<h2 class="section">Dimensions</h2><ul class="dimensions">${dimensionNotes.map((note) => `<li>${escapeHtml(note)}</li>`).join('')}</ul>`
+      : '';
+    const sheetSectionHtml = sheetNesting.panels.length > 0 || sheetNesting.oversized.length > 0
+      ? `<h2 class="section">Sheet Layouts</h2>${oversizedHtml}<section class="panels">${panelsHtml}</section>`
+      : '';
+
     const generatedAt = new Date().toLocaleString();
     return `<!doctype html>
 <html lang="en">
@@ -872,10 +1018,19 @@ export const BOM: React.FC = () => {
     .content h2 { margin: 0 0 6px 0; font-size: 17px; }
     .badge { display: inline-block; margin-left: 6px; font-size: 12px; background: #dbeafe; color: #1e3a8a; border-radius: 999px; padding: 2px 8px; }
     .meta { margin: 0; font-size: 12px; color: #475569; }
+    .rounding { margin: 2px 0 0 0; font-size: 12px; color: #b45309; }
     .profile { margin: 6px 0 0 0; font-size: 12px; color: #1d4ed8; font-weight: 600; }
     .summary { margin: 8px 0 0 0; font-size: 13px; }
     .steps { margin: 6px 0 0 18px; padding: 0; font-size: 12px; color: #1f2937; }
     .steps li { margin: 4px 0; }
+    .section { margin: 24px 0 10px 0; font-size: 19px; }
+    .warning { margin: 0 0 8px 0; font-size: 13px; color: #b91c1c; }
+    .dimensions { margin: 0; padding-left: 18px; font-size: 13px; }
+    .dimensions li { margin: 4px 0; }
+    .panels { display: grid; gap: 12px; }
+    .panel { background: #fff; border: 1px solid #cbd5e1; border-radius: 10px; padding: 12px; }
+    .panel h3 { margin: 0 0 8px 0; font-size: 14px; }
+    .panel svg { width: 100%; height: auto; }
     @media (max-width: 720px) {
       .card { grid-template-columns: 1fr; }
       .shape { justify-content: flex-start; }
@@ -884,8 +1039,10 @@ export const BOM: React.FC = () => {
 </head>
 <body>
   <h1>Cut Report</h1>
-  <p class="sub">Generated ${escapeHtml(generatedAt)} | Unique cuts: ${cutList.length} | Total parts: ${parts.length}</p>
+  <p class="sub">Generated ${escapeHtml(generatedAt)} | Unique cuts: ${cutList.length} | Total parts: ${parts.length}<br />Allowances: ${escapeHtml(formatAllowances(cutAllowances, lengthUnit, fractionPrecision))}</p>
   <section class="cards">${cards}</section>
+  ${dimensionSectionHtml}
+  ${sheetSectionHtml}
 </body>
 </html>`;
   };
@@ -897,7 +1054,7 @@ export const BOM: React.FC = () => {
       triggerFileDownload('home-depot-report.html', html, 'text/html');
       return;
     }
-    buildHomeDepotPdf(homeDepotRows);
+    buildHomeDepotPdf(homeDepotRows, cutAllowances, lengthUnit, fractionPrecision);
   };
 
   const downloadCutReport = (format: ReportFormat) => {
@@ -907,7 +1064,7 @@ export const BOM: React.FC = () => {
       triggerFileDownload('cut-report.html', html, 'text/html');
       return;
     }
-    void buildCutReportPdf(parts, cutList);
+    void buildCutReportPdf(parts, cutList, sheetNesting, sheetLabels, dimensionNotes, cutAllowances, lengthUnit, fractionPrecision);
   };
 
   return (
@@ -938,6 +1095,30 @@ export const BOM: React.FC = () => {
             Shopping List
           </button>
         </div>
+        <button
+          onClick={() => setAllowancesOpen((open) => !open)}
+          className="mt-3 w-full flex items-center justify-between text-[11px] font-medium text-slate-500 hover:text-slate-700"
+        >
+          <span className="flex items-center gap-1.5">
+            <SlidersHorizontal size={12} />
+            Cut Allowances
+          </span>
+          {allowancesOpen ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+        </button>
+        {allowancesOpen && (
+          <div className="mt-2 grid grid-cols-3 gap-2">
+            {ALLOWANCE_FIELDS.map(({ key, label, title }) => (
+              <label key={key} className="block" title={title}>
+                <span className="text-[10px] text-slate-400">{label}</span>
+                <LengthInput
+                  value={cutAllowances[key]}
+                  min={0}
+                  onChange={(value) => setCutAllowances({ [key]: value })}
+                />
+              </label>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="flex-1 min-h-0 overflow-y-auto p-4">
@@ -978,16 +1159,38 @@ export const BOM: React.FC = () => {
                       >
                         Download as PDF
                       </button>
+                      <button
+                        onClick={() => {
+                          buildShopDrawingsPdf(parts, cutList, projectName, lengthUnit, fractionPrecision);
+                          setOpenDownloadMenu(null);
+                        }}
+                        disabled={cutList.every(({ part }) => part.type === 'hardware')}
+                        className="w-full px-3 py-2 text-left text-xs text-slate-700 hover:bg-slate-50 border-t border-slate-100 disabled:text-slate-300 disabled:hover:bg-white"
+                        title="Front, side and top views with dimensions"
+                      >
+                        Shop Drawings (PDF)
+                      </button>
                     </div>
                   )}
                 </div>
+                {stockIssueCount > 0 && (
+                  <div className="text-[11px] rounded-md border border-amber-200 bg-amber-50 px-2 py-1.5 text-amber-800">
+                    {stockIssueCount} part{stockIssueCount === 1 ? '' : 's'} can't be cut from {stockIssueCount === 1 ? 'its' : 'their'} declared stock. Select one to switch to a stock size that fits.
+                  </div>
+                )}
+                {roundedCutCount > 0 && (
+                  <div className="text-[11px] rounded-md border border-amber-200 bg-amber-50 px-2 py-1.5 text-amber-800">
+                    {roundedCutCount} cut{roundedCutCount === 1 ? ' has' : 's have'} a dimension between 1/{fractionPrecision}" marks; the fraction shown is rounded.
+                  </div>
+                )}
                 <div className="flex justify-between text-xs font-semibold text-slate-500 pb-2 border-b border-slate-100">
                   <span>Cut</span>
                   <span>Dimensions (W x H x L)</span>
                 </div>
                 {cutList.map(({ key, part, count }, index) => {
-                  const profileLabel = formatProfile(part);
-                  const recipe = cutRecipe(part);
+                  const profileLabel = formatProfile(part, lengthUnit, fractionPrecision);
+                  const recipe = cutRecipe(part, lengthUnit, fractionPrecision);
+                  const rounding = roundingWarnings(part, lengthUnit, fractionPrecision);
                   return (
                   <div key={key} className="py-2 border-b border-slate-50 last:border-0">
                     <div className="flex justify-between items-start text-sm gap-2">
@@ -999,9 +1202,13 @@ export const BOM: React.FC = () => {
                         <span className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 text-[11px] shrink-0">x{count}</span>
                       </div>
                       <div className="text-slate-500 font-mono text-xs text-right min-w-0 max-w-[16rem]">
-                        <div className="whitespace-nowrap">
-                          {part.dimensions[0].toFixed(1)}" x {part.dimensions[1].toFixed(1)}" x {part.dimensions[2].toFixed(1)}"
+                        <div className={clsx('whitespace-nowrap', rounding.length > 0 && 'text-amber-700')} title={rounding.join('\n') || undefined}>
+                          {rounding.length > 0 && <AlertTriangle size={11} className="inline mr-1 -mt-0.5" />}
+                          {formatSize(part.dimensions, lengthUnit, fractionPrecision)}
                         </div>
+                        {part.type !== 'hardware' && (
+                          <div className="mt-0.5 text-[11px] font-sans text-slate-400">{partSpecies(part).label}</div>
+                        )}
                         {profileLabel && (
                           <div className="mt-1 text-[11px] font-medium font-sans text-blue-700 whitespace-normal break-words">
                             {profileLabel}
@@ -1030,6 +1237,29 @@ export const BOM: React.FC = () => {
                     )}
                   </div>
                 )})}
+                {(sheetNesting.panels.length > 0 || sheetNesting.oversized.length > 0) && (
+                  <div className="pt-2 space-y-3">
+                    <div className="text-xs font-semibold text-slate-500 pb-2 border-b border-slate-100">
+                      Sheet Layouts
+                    </div>
+                    {sheetNesting.oversized.map(({ part, panelsNeeded }) => (
+                      <div key={`oversized-${part.id}`} className="text-[11px] rounded-md border border-red-100 bg-red-50 px-2 py-1.5 text-red-700">
+                        {part.name} ({sheetLabels[part.id]}) is larger than one panel and needs {panelsNeeded} spliced panels.
+                      </div>
+                    ))}
+                    {sheetNesting.panels.map((panel) => (
+                      <div key={`${panel.material}-${panel.index}`} className="space-y-1">
+                        <div className="text-[11px] font-medium text-slate-700">
+                          {sheetPanelTitle(panel, sheetNesting.panels.filter((item) => item.material === panel.material).length, lengthUnit, fractionPrecision)}
+                        </div>
+                        <div
+                          className="rounded-md border border-slate-200 overflow-hidden [&>svg]:w-full [&>svg]:h-auto"
+                          dangerouslySetInnerHTML={{ __html: sheetPanelSvg(panel, sheetLabels, lengthUnit, fractionPrecision) }}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="text-xs text-slate-400 mt-4 text-center">
                   Unique Cuts: {cutList.length} | Total Parts: {parts.length}
                 </div>
@@ -1077,13 +1307,19 @@ export const BOM: React.FC = () => {
                       <div className="text-xs text-slate-500">
                         <div>Est. Material:</div>
                         <div className="font-medium text-slate-700">{info.details}</div>
+                        <div className="mt-1">
+                          Est. Cost:{' '}
+                          <span className="font-medium text-slate-700">
+                            {info.cost === null ? 'Not priced' : formatCurrency(info.cost)}
+                          </span>
+                        </div>
                       </div>
                       <div className="text-xl font-bold text-blue-600">
                         {info.count} <span className="text-sm font-normal text-slate-500">qty</span>
                       </div>
                     </div>
                     <a
-                      href={homeDepotSearchUrl(homeDepotQueryForPart(parts.find((part) => part.name === name) ?? {
+                      href={homeDepotSearchUrl(homeDepotQueryForPart(parts.find((part) => partPurchaseName(part) === name) ?? {
                         id: '',
                         name,
                         type: 'hardware',
@@ -1100,9 +1336,78 @@ export const BOM: React.FC = () => {
                     </a>
                   </div>
                 ))}
+                <div className="rounded-lg border border-slate-200">
+                  <button
+                    onClick={() => setPriceBookOpen((open) => !open)}
+                    className="w-full flex items-center justify-between px-3 py-2 text-xs font-semibold text-slate-600 hover:text-slate-800"
+                  >
+                    <span className="flex items-center gap-1.5">
+                      <Tag size={12} />
+                      Price Book
+                    </span>
+                    {priceBookOpen ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+                  </button>
+                  {priceBookOpen && (
+                    <div className="px-3 pb-3 space-y-2">
+                      <div className="text-[10px] text-slate-400">
+                        Leave a price blank to use the catalog default. Lumber is priced per linear foot.
+                      </div>
+                      {priceBookRows.map((row) => (
+                        <PriceInput
+                          key={row.name}
+                          label={row.name}
+                          unit={row.unit}
+                          value={row.override}
+                          placeholder={row.defaultPrice}
+                          onChange={(price) => setPriceBookEntry('parts', row.name, price)}
+                        />
+                      ))}
+                      <div className="pt-1 text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                        Hardware by kind
+                      </div>
+                      {(Object.keys(DEFAULT_HARDWARE_KIND_PRICES) as HardwareKind[]).map((kind) => (
+                        <PriceInput
+                          key={kind}
+                          label={kind}
+                          unit="/ea"
+                          value={priceBook.hardwareKinds[kind]}
+                          placeholder={getHardwareKindPrice(kind)}
+                          onChange={(price) => setPriceBookEntry('hardwareKinds', kind, price)}
+                        />
+                      ))}
+                      <button
+                        onClick={() => setPriceBook({ parts: {}, hardwareKinds: {} })}
+                        className="w-full py-1.5 text-[11px] rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50"
+                      >
+                        Reset to Catalog Prices
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {assemblyRows.length > 0 && (
+                  <div className="rounded-lg border border-slate-200 px-3 py-2 space-y-1">
+                    <div className="text-xs font-semibold text-slate-600">Assembly Subtotals</div>
+                    {assemblyRows.map((row) => (
+                      <div
+                        key={row.id}
+                        className="flex justify-between gap-2 text-xs"
+                        style={{ paddingLeft: row.depth * 12 }}
+                      >
+                        <span className="text-slate-700 truncate">
+                          {row.name} <span className="text-slate-400">({row.partCount} part{row.partCount === 1 ? '' : 's'})</span>
+                        </span>
+                        <span className="font-medium text-slate-700 shrink-0">{formatGrandTotal(row.costs)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex justify-between items-center bg-blue-50 border border-blue-100 rounded-lg px-3 py-2">
+                  <span className="text-sm font-semibold text-slate-700">Estimated Total</span>
+                  <span className="text-sm font-bold text-blue-700">{formatGrandTotal(homeDepotRows)}</span>
+                </div>
                 <div className="text-xs text-slate-400 mt-4 text-center italic">
-                  Calculated for 96" (8ft) stock lengths.<br />
-                  Does not account for kerf width.
+                  Cheapest mix of 8-16ft stock lengths and 4x8 sheet panels.<br />
+                  {formatAllowances(cutAllowances, lengthUnit, fractionPrecision)}
                 </div>
               </div>
             )}
@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { PackagePlus, Pencil, Trash2 } from 'lucide-react';
+import { useStore } from '../store';
+import {
+  captureComponent,
+  deleteLibraryComponent,
+  instantiateComponent,
+  LibraryComponent,
+  listLibraryComponents,
+  renameLibraryComponent,
+  saveLibraryComponent,
+} from '../componentLibrary';
+
+export const ComponentLibraryPanel: React.FC = () => {
+  const { parts, groups, selectedIds, insertParts, setTool } = useStore();
+  const [components, setComponents] = useState<LibraryComponent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [componentName, setComponentName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setComponents(await listLibraryComponents());
+      setErrorMessage(null);
+    } catch (error) {
+      console.error('Failed to list components', error);
+      setErrorMessage('The component library is unavailable in this browser.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleSave = async () => {
+    const component = captureComponent(componentName, parts, groups, selectedIds);
+    if (!component) return;
+    try {
+      await saveLibraryComponent(component);
+      setComponentName('');
+      await refresh();
+    } catch (error) {
+      console.error('Failed to save component', error);
+      alert('Could not save component.');
+    }
+  };
+
+  const handleInsert = (component: LibraryComponent) => {
+    const { parts: inserted, groups: insertedGroups, rejectedCount } = instantiateComponent(component);
+    if (inserted.length === 0) {
+      alert(`"${component.name}" has no usable parts.`);
+      return;
+    }
+    setTool('select');
+    insertParts(inserted, { groups: insertedGroups, label: `Insert ${component.name}` });
+    if (rejectedCount > 0) {
+      alert(`Skipped ${rejectedCount} invalid part${rejectedCount === 1 ? '' : 's'} from "${component.name}".`);
+    }
+  };
+
+  const handleConfirmRename = async () => {
+    if (!renamingId) return;
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name) return;
+    try {
+      await renameLibraryComponent(renamingId, name);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to rename component', error);
+      alert('Could not rename component.');
+    }
+  };
+
+  const handleDelete = async (component: LibraryComponent) => {
+    if (!window.confirm(`Delete "${component.name}" from the component library?`)) return;
+    try {
+      await deleteLibraryComponent(component.id);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to delete component', error);
+      alert('Could not delete component.');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+        <p className="text-[11px] text-slate-500">
+          Save the selected parts as a reusable assembly. Components are stored in this browser and can be dropped into any project.
+        </p>
+        <div className="flex gap-2">
+          <input
+            value={componentName}
+            onChange={(e) => setComponentName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && selectedIds.length > 0) {
+                void handleSave();
+              }
+            }}
+            placeholder="e.g. drawer box"
+            className="flex-1 min-w-0 px-2.5 py-1.5 text-sm border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => void handleSave()}
+            disabled={selectedIds.length === 0}
+            className="px-2.5 py-1.5 text-xs rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1.5 shrink-0"
+            title={selectedIds.length === 0 ? 'Select parts to save' : `Save ${selectedIds.length} selected part${selectedIds.length === 1 ? '' : 's'}`}
+          >
+            <PackagePlus size={14} />
+            Save
+          </button>
+        </div>
+      </div>
+
+      {isLoading && <div className="text-sm text-slate-500">Loading components…</div>}
+      {errorMessage && <div className="text-sm text-rose-600">{errorMessage}</div>}
+      {!isLoading && !errorMessage && components.length === 0 && (
+        <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-500">
+          No saved assemblies yet.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        {components.map((component) => (
+          <div key={component.id} className="rounded-lg border border-slate-200 hover:border-blue-500 transition-colors overflow-hidden">
+            <button
+              onClick={() => handleInsert(component)}
+              className="w-full bg-white flex items-center justify-center p-2 hover:bg-blue-50"
+              title={`Insert ${component.name}`}
+            >
+              <img src={component.thumbnail} alt="" className="h-20 w-20 object-contain" />
+            </button>
+            <div className="px-2 py-1.5 border-t border-slate-100 flex items-center gap-1">
+              <div className="flex-1 min-w-0">
+                {renamingId === component.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={() => void handleConfirmRename()}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        void handleConfirmRename();
+                      } else if (e.key === 'Escape') {
+                        setRenamingId(null);
+                      }
+                    }}
+                    className="w-full px-1 py-0.5 text-xs border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                ) : (
+                  <div className="text-xs font-medium text-slate-700 truncate">{component.name}</div>
+                )}
+                <div className="text-[10px] text-slate-400">
+                  {component.parts.length} part{component.parts.length === 1 ? '' : 's'}
+                </div>
+              </div>
+              <button
+                onClick={() => {
+                  setRenamingId(component.id);
+                  setRenameValue(component.name);
+                }}
+                className="p-1 rounded text-slate-500 hover:bg-slate-100"
+                title="Rename"
+              >
+                <Pencil size={12} />
+              </button>
+              <button
+                onClick={() => void handleDelete(component)}
+                className="p-1 rounded text-red-500 hover:bg-red-50"
+                title="Delete"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
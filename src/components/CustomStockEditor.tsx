@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Pencil, Plus, PlusSquare, Trash2 } from 'lucide-react';
+import { useStore } from '../store';
+import { FractionPrecision, LengthUnit, StockDefinition } from '../types';
+import { isBuiltInStockName, partStockName } from '../stockCatalog';
+import { formatLength, formatLengthValue, formatSize, lengthUnitName, parseLength } from '../units';
+import { LengthInput } from './LengthInput';
+
+type StockDraft = {
+  id: string | null;
+  name: string;
+  type: StockDefinition['type'];
+  nominal: string;
+  thickness: number;
+  width: number;
+  color: string;
+  stockLengths: string;
+};
+
+const formatStockLengths = (lengths: number[], unit: LengthUnit, precision: FractionPrecision) =>
+  lengths.map((length) => formatLengthValue(length, unit, precision)).join(', ');
+
+const emptyDraft = (unit: LengthUnit, precision: FractionPrecision): StockDraft => ({
+  id: null,
+  name: '',
+  type: 'lumber',
+  nominal: '',
+  thickness: 0,
+  width: 0,
+  color: '#e6c9a0',
+  stockLengths: formatStockLengths([96, 120, 144], unit, precision),
+});
+
+const toDraft = (stock: StockDefinition, unit: LengthUnit, precision: FractionPrecision): StockDraft => ({
+  id: stock.id,
+  name: stock.name,
+  type: stock.type,
+  nominal: stock.nominal,
+  thickness: stock.thickness,
+  width: stock.width,
+  color: stock.color,
+  stockLengths: formatStockLengths(stock.stockLengths, unit, precision),
+});
+
+const inputClass = 'w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+
+type CustomStockEditorProps = {
+  onAddStock: (stock: StockDefinition) => void;
+};
+
+export const CustomStockEditor: React.FC<CustomStockEditorProps> = ({ onAddStock }) => {
+  const { customStock, saveCustomStock, deleteCustomStock, parts, lengthUnit, fractionPrecision } = useStore();
+  const [draft, setDraft] = useState<StockDraft>(() => emptyDraft(lengthUnit, fractionPrecision));
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const updateDraft = (updates: Partial<StockDraft>) => setDraft((current) => ({ ...current, ...updates }));
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    const { thickness, width } = draft;
+    const stockLengths = draft.stockLengths
+      .split(',')
+      .map((value) => parseLength(value, lengthUnit))
+      .filter((value): value is number => value !== null && value > 0);
+
+    if (!name) {
+      setErrorMessage('Give the stock a name.');
+      return;
+    }
+    if (isBuiltInStockName(name) || customStock.some((stock) => stock.name === name && stock.id !== draft.id)) {
+      setErrorMessage(`"${name}" is already in the library.`);
+      return;
+    }
+    if (!(thickness > 0) || !(width > 0)) {
+      setErrorMessage('Actual thickness and width must be greater than zero.');
+      return;
+    }
+    if (stockLengths.length === 0) {
+      setErrorMessage(`List at least one stock length in ${lengthUnitName(lengthUnit)}.`);
+      return;
+    }
+
+    saveCustomStock({
+      id: draft.id ?? uuidv4(),
+      name,
+      type: draft.type,
+      nominal: draft.nominal,
+      thickness,
+      width,
+      color: draft.color,
+      stockLengths,
+    });
+    setDraft(emptyDraft(lengthUnit, fractionPrecision));
+    setErrorMessage(null);
+  };
+
+  const handleDelete = (stock: StockDefinition) => {
+    const inUse = parts.filter((part) => part.type !== 'hardware' && partStockName(part) === stock.name).length;
+    const warning = inUse > 0
+      ? ` ${inUse} part${inUse === 1 ? ' uses' : 's use'} it and will be flagged as having an unknown stock size.`
+      : '';
+    if (!window.confirm(`Delete "${stock.name}" from your stock?${warning}`)) return;
+    deleteCustomStock(stock.id);
+    if (draft.id === stock.id) {
+      setDraft(emptyDraft(lengthUnit, fractionPrecision));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+        <p className="text-[11px] text-slate-500">
+          Add board and panel sizes the built-in library is missing. Dimensions are actual (as milled); your stock is saved in this browser.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="col-span-2 block">
+            <span className="text-[10px] text-slate-500">Name</span>
+            <input
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              placeholder="e.g. 5/4x6 Decking"
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="text-[10px] text-slate-500">Type</span>
+            <select
+              value={draft.type}
+              onChange={(e) => updateDraft({ type: e.target.value as StockDefinition['type'] })}
+              className={inputClass}
+            >
+              <option value="lumber">Lumber</option>
+              <option value="sheet">Sheet</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-[10px] text-slate-500">Nominal size</span>
+            <input
+              value={draft.nominal}
+              onChange={(e) => updateDraft({ nominal: e.target.value })}
+              placeholder={draft.type === 'sheet' ? '1/4"' : '5/4x6'}
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="text-[10px] text-slate-500">Actual thickness</span>
+            <LengthInput
+              value={draft.thickness}
+              min={0}
+              onChange={(thickness) => updateDraft({ thickness })}
+              className="bg-white"
+            />
+          </label>
+          <label className="block">
+            <span className="text-[10px] text-slate-500">
+              {draft.type === 'sheet' ? 'Panel width' : 'Actual width'}
+            </span>
+            <LengthInput
+              value={draft.width}
+              min={0}
+              onChange={(width) => updateDraft({ width })}
+              className="bg-white"
+            />
+          </label>
+          <label className="block">
+            <span className="text-[10px] text-slate-500">
+              {draft.type === 'sheet' ? 'Panel length' : 'Stock lengths'} ({lengthUnitName(lengthUnit)})
+            </span>
+            <input
+              value={draft.stockLengths}
+              onChange={(e) => updateDraft({ stockLengths: e.target.value })}
+              placeholder={formatStockLengths(draft.type === 'sheet' ? [96] : [96, 120, 144], lengthUnit, fractionPrecision)}
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="text-[10px] text-slate-500">Default color</span>
+            <input
+              type="color"
+              value={draft.color}
+              onChange={(e) => updateDraft({ color: e.target.value })}
+              className="w-full h-[30px] px-1 border rounded bg-white"
+            />
+          </label>
+        </div>
+        {errorMessage && <p className="text-[11px] text-rose-600">{errorMessage}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            className="flex-1 px-2.5 py-1.5 text-xs rounded-md bg-blue-600 text-white hover:bg-blue-700 flex items-center justify-center gap-1.5"
+          >
+            <Plus size={14} />
+            {draft.id ? 'Update Stock' : 'Add Stock'}
+          </button>
+          {draft.id && (
+            <button
+              onClick={() => {
+                setDraft(emptyDraft(lengthUnit, fractionPrecision));
+                setErrorMessage(null);
+              }}
+              className="px-2.5 py-1.5 text-xs rounded-md border border-slate-300 bg-white text-slate-700 hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {customStock.map((stock) => (
+        <div key={stock.id} className="flex items-center gap-2 rounded-lg border border-slate-200 px-3 py-2">
+          <span
+            className="inline-block h-3.5 w-3.5 rounded-full border border-black/10 shrink-0"
+            style={{ backgroundColor: stock.color }}
+          />
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-medium text-slate-700 truncate">{stock.name}</div>
+            <div className="text-[10px] text-slate-500 truncate">
+              {stock.nominal ? `${stock.nominal} nominal, ` : ''}
+              {formatSize([stock.thickness, stock.width], lengthUnit, fractionPrecision)} actual
+              {' | '}
+              {stock.stockLengths.map((length) => formatLength(length, lengthUnit, fractionPrecision)).join(', ')}
+            </div>
+          </div>
+          <button
+            onClick={() => onAddStock(stock)}
+            className="p-1 rounded text-blue-600 hover:bg-blue-50"
+            title="Add to scene"
+          >
+            <PlusSquare size={12} />
+          </button>
+          <button
+            onClick={() => {
+              setDraft(toDraft(stock, lengthUnit, fractionPrecision));
+              setErrorMessage(null);
+            }}
+            className="p-1 rounded text-slate-500 hover:bg-slate-100"
+            title="Edit"
+          >
+            <Pencil size={12} />
+          </button>
+          <button
+            onClick={() => handleDelete(stock)}
+            className="p-1 rounded text-red-500 hover:bg-red-50"
+            title="Delete"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import { useStore } from '../store';
+import { PartData } from '../types';
+import { cutListNumbers } from '../cutList';
+import { ExplodeOffsets } from '../explodedView';
+
+// Below this the parts still overlap, and balloons would only clutter the model.
+const CALLOUT_MIN_FACTOR = 0.05;
+
+type ExplodeCalloutsProps = {
+  parts: PartData[];
+  offsets: ExplodeOffsets;
+};
+
+export const ExplodeCallouts: React.FC<ExplodeCalloutsProps> = ({ parts, offsets }) => {
+  const explodeFactor = useStore((state) => state.explodeFactor);
+  const allParts = useStore((state) => state.parts);
+  const numbers = useMemo(() => cutListNumbers(allParts), [allParts]);
+
+  if (explodeFactor < CALLOUT_MIN_FACTOR) return null;
+
+  return (
+    <>
+      {parts.map((part) => {
+        const offset = offsets[part.id] ?? [0, 0, 0];
+        return (
+          <Html
+            key={part.id}
+            position={[
+              part.position[0] + offset[0] * explodeFactor,
+              part.position[1] + offset[1] * explodeFactor,
+              part.position[2] + offset[2] * explodeFactor,
+            ]}
+            center
+            zIndexRange={[15, 0]}
+            style={{ pointerEvents: 'none' }}
+          >
+            <div
+              className="flex h-6 min-w-6 items-center justify-center rounded-full border border-blue-600 bg-blue-50 px-1 text-[11px] font-semibold text-blue-700 shadow-sm"
+              title={part.name}
+            >
+              {numbers[part.id]}
+            </div>
+          </Html>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, RefreshCw } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useStore } from '../store';
+import { FurnitureTemplateId, FurnitureTemplateParams } from '../types';
+import { FURNITURE_TEMPLATES, getFurnitureTemplate } from '../furnitureTemplates';
+import { groupAncestry } from '../partGroups';
+import { LengthInput } from './LengthInput';
+
+type TemplateParamsFieldsProps = {
+  templateId: FurnitureTemplateId;
+  params: FurnitureTemplateParams;
+  onChange: (params: FurnitureTemplateParams) => void;
+};
+
+const TemplateParamsFields: React.FC<TemplateParamsFieldsProps> = ({ templateId, params, onChange }) => {
+  const template = getFurnitureTemplate(templateId);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {template.fields.map((field) => (
+          <label key={field.key} className="block">
+            <span className="text-[10px] text-slate-500">{field.label}</span>
+            {field.step < 1 ? (
+              <LengthInput
+                value={params[field.key]}
+                min={field.min}
+                onChange={(value) => onChange({ ...params, [field.key]: Math.min(field.max, value) })}
+                className="bg-white"
+              />
+            ) : (
+              <input
+                type="number"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={params[field.key]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!Number.isNaN(value)) {
+                    onChange({ ...params, [field.key]: value });
+                  }
+                }}
+                className="w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              />
+            )}
+          </label>
+        ))}
+      </div>
+      <label className="block">
+        <span className="text-[10px] text-slate-500">{template.stockLabel}</span>
+        <select
+          value={params.stock}
+          onChange={(e) => onChange({ ...params, stock: e.target.value })}
+          className="w-full px-2 py-1.5 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+        >
+          {template.stockOptions.map((stock) => (
+            <option key={stock} value={stock}>{stock}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export const FurnitureTemplatePanel: React.FC = () => {
+  const { placeTemplate, setTool } = useStore();
+  const [templateId, setTemplateId] = useState<FurnitureTemplateId>(FURNITURE_TEMPLATES[0].id);
+  const [params, setParams] = useState<FurnitureTemplateParams>(FURNITURE_TEMPLATES[0].defaults);
+  const template = getFurnitureTemplate(templateId);
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {FURNITURE_TEMPLATES.map((entry) => (
+          <button
+            key={entry.id}
+            onClick={() => {
+              setTemplateId(entry.id);
+              setParams(entry.defaults);
+            }}
+            className={clsx(
+              'px-2.5 py-1 text-xs rounded-md border transition-colors',
+              templateId === entry.id
+                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                : 'border-slate-300 bg-white text-slate-700 hover:border-slate-400'
+            )}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-slate-500">{template.description}</p>
+      <TemplateParamsFields templateId={templateId} params={params} onChange={setParams} />
+      <button
+        onClick={() => {
+          setTool('select');
+          placeTemplate(templateId, params);
+        }}
+        className="w-full px-3 py-1.5 text-xs rounded-md bg-blue-600 text-white hover:bg-blue-700 flex items-center justify-center gap-1.5"
+      >
+        <Plus size={14} />
+        Add {template.label}
+      </button>
+    </div>
+  );
+};
+
+// Shown in the properties panel when the selected part belongs to a generated assembly.
+export const TemplateAssemblyEditor: React.FC<{ partId: string }> = ({ partId }) => {
+  const { parts, groups, regenerateTemplate } = useStore();
+  const part = parts.find((entry) => entry.id === partId);
+  const group = groupAncestry(groups, part?.groupId).find((entry) => entry.template);
+  const [params, setParams] = useState<FurnitureTemplateParams | null>(group?.template?.params ?? null);
+
+  useEffect(() => {
+    setParams(group?.template?.params ?? null);
+  }, [group?.id, group?.template?.params]);
+
+  if (!group?.template || !params) return null;
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-3">
+      <div>
+        <label className="text-xs font-semibold text-slate-600">
+          {getFurnitureTemplate(group.template.templateId).label} Template
+        </label>
+        <p className="text-[10px] text-slate-500">
+          Regenerating rebuilds every board and screw in "{group.name}" in place. Manual edits inside it are replaced.
+        </p>
+      </div>
+      <TemplateParamsFields templateId={group.template.templateId} params={params} onChange={setParams} />
+      <button
+        onClick={() => regenerateTemplate(group.id, params)}
+        className="w-full px-3 py-1.5 text-xs rounded-md border border-slate-300 bg-white text-slate-700 hover:bg-slate-100 flex items-center justify-center gap-1.5"
+      >
+        <RefreshCw size={14} />
+        Regenerate
+      </button>
+    </div>
+  );
+};
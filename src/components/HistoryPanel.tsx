@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { clsx } from 'clsx';
+import { useStore } from '../store';
+
+export const HistoryPanel: React.FC = () => {
+  const { pastParts, futureParts, jumpToHistory } = useStore();
+  const currentRowRef = useRef<HTMLButtonElement>(null);
+  const labels = [...pastParts, ...futureParts].map((entry) => entry.label);
+  const position = pastParts.length;
+
+  useEffect(() => {
+    currentRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [position]);
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <h2 className="font-semibold text-slate-800">History</h2>
+        <p className="text-xs text-slate-500">Click a step to jump there. Undo history is saved with the project.</p>
+      </div>
+      <div className="max-h-56 overflow-y-auto rounded-md border border-slate-200 divide-y divide-slate-100">
+        {['Start', ...labels].map((label, index) => (
+          <button
+            key={index}
+            ref={index === position ? currentRowRef : undefined}
+            onClick={() => jumpToHistory(index)}
+            className={clsx(
+              'w-full px-2.5 py-1.5 text-left text-xs flex items-center gap-2 transition-colors',
+              index === position
+                ? 'bg-blue-50 text-blue-800 font-medium'
+                : index > position
+                  ? 'text-slate-400 hover:bg-slate-50'
+                  : 'text-slate-700 hover:bg-slate-50'
+            )}
+          >
+            <span className="w-5 shrink-0 text-right text-[10px] text-slate-400">{index}</span>
+            <span className="truncate">{label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
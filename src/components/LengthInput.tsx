@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { useStore } from '../store';
+import { describeRounding, formatLengthValue, parseLength } from '../units';
+
+type LengthInputProps = {
+  value: number; // inches
+  onChange: (inches: number) => void;
+  min?: number;
+  className?: string;
+  title?: string;
+};
+
+// Text rather than number input so fractions like 23-5/8 can be typed; commits on Enter or blur.
+export const LengthInput: React.FC<LengthInputProps> = ({ value, onChange, min, className, title }) => {
+  const lengthUnit = useStore((state) => state.lengthUnit);
+  const fractionPrecision = useStore((state) => state.fractionPrecision);
+  const formatted = formatLengthValue(value, lengthUnit, fractionPrecision);
+  const rounding = describeRounding(value, lengthUnit, fractionPrecision);
+  const [draft, setDraft] = useState(formatted);
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    setDraft(formatted);
+    setInvalid(false);
+  }, [formatted]);
+
+  const commit = () => {
+    // Leaving an untouched field must not snap the part to the displayed (rounded) value.
+    if (draft === formatted) return;
+    const parsed = parseLength(draft, lengthUnit);
+    if (parsed === null || (min !== undefined && parsed < min)) {
+      setDraft(formatted);
+      setInvalid(false);
+      return;
+    }
+    if (Math.abs(parsed - value) > 1e-9) {
+      onChange(parsed);
+    } else {
+      setDraft(formatted);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={draft}
+      title={rounding ? `${rounding}${title ? `\n${title}` : ''}` : title}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        setInvalid(parseLength(e.target.value, lengthUnit) === null);
+      }}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          commit();
+        } else if (e.key === 'Escape') {
+          setDraft(formatted);
+          setInvalid(false);
+        }
+      }}
+      className={clsx(
+        'w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none',
+        invalid ? 'border-rose-400' : rounding && 'border-amber-400 bg-amber-50',
+        className
+      )}
+    />
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import { Html, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useStore } from '../store';
+import { LoadMarker } from '../types';
+import { snapToPart } from '../measurement';
+import { getLoadPreset, LOAD_PRESETS, presetDirection, ResolvedLoad, resolveLoadMarkers } from '../loadMarkers';
+
+const CLICK_SLOP_PX = 4;
+const LOAD_COLOR = '#dc2626';
+const PREVIEW_COLOR = '#f97316';
+// Arrow length in inches grows with the load so heavier loads read as heavier at a glance.
+const arrowLength = (magnitudeLb: number) => Math.max(6, Math.min(18, 6 + magnitudeLb / 20));
+const SPREAD_ARROW_LENGTH = 4;
+const UP = new THREE.Vector3(0, 1, 0);
+
+// A shaft ending in a cone whose point touches `tip`.
+const LoadArrow: React.FC<{ tip: THREE.Vector3; direction: THREE.Vector3; length: number; color: string }> = ({
+  tip,
+  direction,
+  length,
+  color,
+}) => {
+  const { tail, headCenter, quaternion, headLength } = useMemo(() => {
+    const unit = direction.clone().normalize();
+    const head = Math.min(length * 0.35, 2);
+    return {
+      tail: tip.clone().addScaledVector(unit, -length),
+      headCenter: tip.clone().addScaledVector(unit, -head / 2),
+      quaternion: new THREE.Quaternion().setFromUnitVectors(UP, unit),
+      headLength: head,
+    };
+  }, [direction, length, tip]);
+
+  return (
+    <>
+      <Line
+        points={[tail, headCenter]}
+        color={color}
+        lineWidth={3}
+        depthTest={false}
+        renderOrder={10}
+      />
+      <mesh position={headCenter} quaternion={quaternion} renderOrder={11}>
+        <coneGeometry args={[headLength * 0.35, headLength, 12]} />
+        <meshBasicMaterial color={color} depthTest={false} transparent />
+      </mesh>
+    </>
+  );
+};
+
+const LoadMarkerLabel: React.FC<{ load: ResolvedLoad; position: THREE.Vector3 }> = ({ load, position }) => {
+  const updateLoadMarker = useStore((state) => state.updateLoadMarker);
+  const removeLoadMarker = useStore((state) => state.removeLoadMarker);
+  const { marker, part } = load;
+  const [draft, setDraft] = useState(String(marker.magnitudeLb));
+
+  useEffect(() => {
+    setDraft(String(marker.magnitudeLb));
+  }, [marker.magnitudeLb]);
+
+  const commit = () => {
+    const value = Math.max(0, Number(draft) || 0);
+    setDraft(String(value));
+    if (value !== marker.magnitudeLb) updateLoadMarker(marker.id, { magnitudeLb: value });
+  };
+
+  return (
+    <Html position={position} center zIndexRange={[20, 0]}>
+      <div className="flex items-center gap-1 whitespace-nowrap rounded-md border border-red-200 bg-white/95 px-1.5 py-0.5 text-[11px] text-red-700 shadow-sm">
+        <span title={`${marker.label} on ${part.name}`}>{marker.label}</span>
+        <input
+          type="number"
+          min={0}
+          step={5}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+          }}
+          className="w-12 rounded border border-red-200 px-1 font-mono text-[11px] outline-none focus:ring-1 focus:ring-red-400"
+        />
+        <span>lb{marker.kind === 'distributed' ? ' spread' : ''}</span>
+        <button
+          onClick={() => removeLoadMarker(marker.id)}
+          className="p-0.5 rounded text-slate-400 hover:bg-slate-100 hover:text-red-500"
+          title="Remove load"
+        >
+          <X size={11} />
+        </button>
+      </div>
+    </Html>
+  );
+};
+
+// Distributed loads draw a short arrow at each point they are spread over; the label sits above the middle one.
+const LoadMarkerArrows: React.FC<{ load: ResolvedLoad; color?: string; labelled?: boolean }> = ({
+  load,
+  color = LOAD_COLOR,
+  labelled = true,
+}) => {
+  const direction = useMemo(() => new THREE.Vector3(...load.marker.direction).normalize(), [load.marker.direction]);
+  const spread = load.marker.kind === 'distributed';
+  const length = spread ? SPREAD_ARROW_LENGTH : arrowLength(load.marker.magnitudeLb);
+  const labelAt = useMemo(() => {
+    const center = load.points.reduce((sum, point) => sum.add(point), new THREE.Vector3()).divideScalar(load.points.length);
+    return center.addScaledVector(direction, -(length + 1.5));
+  }, [direction, length, load.points]);
+
+  return (
+    <>
+      {load.points.map((point, index) => (
+        <LoadArrow key={index} tip={point} direction={direction} length={length} color={color} />
+      ))}
+      {labelled && <LoadMarkerLabel load={load} position={labelAt} />}
+    </>
+  );
+};
+
+type LoadTarget = { partId: string; offset: [number, number, number]; view: THREE.Vector3 };
+
+// Click a part to drop the active preset on it.
+const LoadTool: React.FC = () => {
+  const camera = useThree((state) => state.camera);
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const parts = useStore((state) => state.parts);
+  const loadPreset = useStore((state) => state.loadPreset);
+  const addLoadMarker = useStore((state) => state.addLoadMarker);
+  const [hover, setHover] = useState<LoadTarget | null>(null);
+  const preset = getLoadPreset(loadPreset);
+
+  const toMarker = useCallback((target: LoadTarget): Omit<LoadMarker, 'id'> => ({
+    kind: preset.kind,
+    anchor: { partId: target.partId, offset: target.offset },
+    direction: presetDirection(preset, target.view),
+    magnitudeLb: preset.magnitudeLb,
+    label: preset.label,
+  }), [preset]);
+
+  useEffect(() => {
+    const domElement = gl.domElement;
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    let downAt: [number, number] | null = null;
+
+    const pick = (event: PointerEvent): LoadTarget | null => {
+      const rect = domElement.getBoundingClientRect();
+      pointer.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+      const targets: THREE.Object3D[] = [];
+      scene.traverse((object) => {
+        if (object.userData.partId && (object as THREE.Mesh).isMesh) {
+          targets.push(object);
+        }
+      });
+      const hit = raycaster.intersectObjects(targets, false)[0];
+      if (!hit?.face) return null;
+      const partId = hit.object.userData.partId as string;
+      if (useStore.getState().parts.find((part) => part.id === partId)?.type === 'hardware') return null;
+
+      const mesh = hit.object as THREE.Mesh;
+      if (!mesh.geometry.boundingBox) {
+        mesh.geometry.computeBoundingBox();
+      }
+      const normal = hit.face.normal.clone().transformDirection(mesh.matrixWorld);
+      const snap = snapToPart(partId, mesh.geometry.boundingBox as THREE.Box3, mesh.matrixWorld, hit.point, normal, 0);
+      return { partId, offset: snap.offset, view: raycaster.ray.direction.clone() };
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      setHover(pick(event));
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      downAt = event.button === 0 && !event.shiftKey ? [event.clientX, event.clientY] : null;
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!downAt) return;
+      const moved = Math.hypot(event.clientX - downAt[0], event.clientY - downAt[1]);
+      downAt = null;
+      if (moved > CLICK_SLOP_PX) return;
+      const target = pick(event);
+      if (target) addLoadMarker(toMarker(target));
+    };
+
+    domElement.addEventListener('pointermove', handlePointerMove);
+    domElement.addEventListener('pointerdown', handlePointerDown);
+    domElement.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      domElement.removeEventListener('pointermove', handlePointerMove);
+      domElement.removeEventListener('pointerdown', handlePointerDown);
+      domElement.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [addLoadMarker, camera, gl, scene, toMarker]);
+
+  const preview = useMemo(
+    () => (hover ? resolveLoadMarkers([{ ...toMarker(hover), id: 'preview' }], parts)[0] ?? null : null),
+    [hover, parts, toMarker]
+  );
+
+  return preview ? <LoadMarkerArrows load={preview} color={PREVIEW_COLOR} labelled={false} /> : null;
+};
+
+export const LoadMarkerLayer: React.FC = () => {
+  const tool = useStore((state) => state.tool);
+  const parts = useStore((state) => state.parts);
+  const loadMarkers = useStore((state) => state.loadMarkers);
+  const resolved = useMemo(() => resolveLoadMarkers(loadMarkers, parts), [loadMarkers, parts]);
+
+  return (
+    <>
+      {resolved.map((load) => (
+        <LoadMarkerArrows key={load.marker.id} load={load} />
+      ))}
+      {tool === 'load' && <LoadTool />}
+    </>
+  );
+};
+
+// Sits over the canvas while the load tool is active.
+export const LoadHint: React.FC = () => {
+  const tool = useStore((state) => state.tool);
+  const loadPreset = useStore((state) => state.loadPreset);
+  const setLoadPreset = useStore((state) => state.setLoadPreset);
+  const markerCount = useStore((state) => state.loadMarkers.length);
+  if (tool !== 'load') return null;
+
+  return (
+    <div className="absolute bottom-3 left-3 z-10 max-w-xs rounded-md border border-slate-200 bg-white/95 px-3 py-2 text-[11px] text-slate-600 shadow space-y-1.5">
+      <div className="flex flex-wrap gap-1">
+        {LOAD_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => setLoadPreset(preset.id)}
+            className={clsx(
+              'px-2 py-0.5 rounded border',
+              loadPreset === preset.id ? 'border-red-300 bg-red-50 text-red-700' : 'border-slate-300 hover:bg-slate-100'
+            )}
+          >
+            {preset.label} · {preset.magnitudeLb} lb
+          </button>
+        ))}
+      </div>
+      <p>
+        Click a part to place the load. Shelf loads press down at the spot, seated loads spread over the top face, and
+        leaning loads push level, away from you. Edit the pounds on each label.
+      </p>
+      {markerCount > 0 && (
+        <p className="text-red-700">
+          {markerCount} placed load{markerCount === 1 ? '' : 's'} replace the stress scenario in the structural analysis.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,354 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import { Html, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { Link2, Pin, X } from 'lucide-react';
+import { useStore } from '../store';
+import { Measurement } from '../types';
+import { formatLength } from '../units';
+import {
+  annotationFromSnaps,
+  MeasureSnap,
+  measurementAngle,
+  measurementLength,
+  resolveAnnotation,
+  resolveMeasurement,
+  SNAP_COLORS,
+  snapToPart,
+} from '../measurement';
+
+const CLICK_SLOP_PX = 4;
+// Snap radius and marker size grow with camera distance so they stay roughly constant on screen.
+const SNAP_RADIUS_PER_DISTANCE = 0.02;
+const MARKER_SIZE_PER_DISTANCE = 0.005;
+
+type MeasureTarget = {
+  snap: MeasureSnap;
+  markerSize: number;
+};
+
+const MeasurementLabel: React.FC<{
+  measurement: Omit<Measurement, 'id'>;
+  tone: 'live' | 'pinned';
+  children?: React.ReactNode;
+}> = ({ measurement, tone, children }) => {
+  const lengthUnit = useStore((state) => state.lengthUnit);
+  const fractionPrecision = useStore((state) => state.fractionPrecision);
+  const midpoint = new THREE.Vector3(...measurement.start).lerp(new THREE.Vector3(...measurement.end), 0.5);
+  const angle = measurementAngle(measurement);
+
+  return (
+    <Html position={midpoint} center zIndexRange={[20, 0]}>
+      <div
+        className={`flex items-center gap-1.5 whitespace-nowrap rounded-md border px-1.5 py-0.5 text-[11px] font-mono shadow-sm ${
+          tone === 'live' ? 'border-blue-300 bg-white text-blue-800' : 'border-slate-300 bg-white/90 text-slate-700'
+        }`}
+      >
+        <span>
+          {measurement.kind === 'face' ? 'Gap ' : ''}
+          {formatLength(measurementLength(measurement), lengthUnit, fractionPrecision)}
+        </span>
+        {measurement.kind === 'point' && angle >= 0.05 && (
+          <span className="text-slate-400">{angle.toFixed(1)}°</span>
+        )}
+        {children}
+      </div>
+    </Html>
+  );
+};
+
+const MeasurementLine: React.FC<{ measurement: Omit<Measurement, 'id'>; color: string; dashed?: boolean }> = ({
+  measurement,
+  color,
+  dashed = false,
+}) => (
+  <Line
+    points={[measurement.start, measurement.end]}
+    color={color}
+    lineWidth={2}
+    dashed={dashed}
+    dashSize={0.5}
+    gapSize={0.3}
+    depthTest={false}
+    renderOrder={10}
+  />
+);
+
+const DIMENSION_COLOR = '#7c3aed';
+const TICK_LENGTH = 0.6;
+
+// CAD-style dimension: the line plus a short tick across each end.
+const DimensionLine: React.FC<{ measurement: Omit<Measurement, 'id'> }> = ({ measurement }) => {
+  const ticks = useMemo(() => {
+    const start = new THREE.Vector3(...measurement.start);
+    const end = new THREE.Vector3(...measurement.end);
+    const direction = end.clone().sub(start).normalize();
+    const reference = Math.abs(direction.y) > 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+    const across = direction.clone().cross(reference).normalize().multiplyScalar(TICK_LENGTH / 2);
+    return [start, end].map((point) => [
+      point.clone().add(across).toArray(),
+      point.clone().sub(across).toArray(),
+    ] as [number, number, number][]);
+  }, [measurement]);
+
+  return (
+    <>
+      <MeasurementLine measurement={measurement} color={DIMENSION_COLOR} />
+      {ticks.map((points, index) => (
+        <Line key={index} points={points} color={DIMENSION_COLOR} lineWidth={2} depthTest={false} renderOrder={10} />
+      ))}
+    </>
+  );
+};
+
+const SnapMarker: React.FC<{ target: MeasureTarget }> = ({ target }) => (
+  <mesh position={target.snap.point} renderOrder={11}>
+    <sphereGeometry args={[target.markerSize, 12, 12]} />
+    <meshBasicMaterial color={SNAP_COLORS[target.snap.kind]} depthTest={false} transparent />
+  </mesh>
+);
+
+// Click two snap points on parts to measure between them; the result can be pinned where it is
+// or attached to the two parts as a dimension annotation.
+const MeasureTool: React.FC = () => {
+  const camera = useThree((state) => state.camera);
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const addMeasurement = useStore((state) => state.addMeasurement);
+  const addAnnotation = useStore((state) => state.addAnnotation);
+  const [start, setStart] = useState<MeasureTarget | null>(null);
+  const [hover, setHover] = useState<MeasureTarget | null>(null);
+  const [resultSnaps, setResultSnaps] = useState<[MeasureSnap, MeasureSnap] | null>(null);
+  const result = useMemo(
+    () => (resultSnaps ? resolveMeasurement(resultSnaps[0], resultSnaps[1]) : null),
+    [resultSnaps]
+  );
+  const startRef = useRef<MeasureTarget | null>(null);
+
+  useEffect(() => {
+    const domElement = gl.domElement;
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    let downAt: [number, number] | null = null;
+
+    const pick = (event: PointerEvent): MeasureTarget | null => {
+      const rect = domElement.getBoundingClientRect();
+      pointer.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+      const targets: THREE.Object3D[] = [];
+      scene.traverse((object) => {
+        if (object.userData.partId && (object as THREE.Mesh).isMesh) {
+          targets.push(object);
+        }
+      });
+      const hit = raycaster.intersectObjects(targets, false)[0];
+      if (!hit?.face) return null;
+
+      const mesh = hit.object as THREE.Mesh;
+      if (!mesh.geometry.boundingBox) {
+        mesh.geometry.computeBoundingBox();
+      }
+      const distance = camera.position.distanceTo(hit.point);
+      const normal = hit.face.normal.clone().transformDirection(mesh.matrixWorld);
+      return {
+        snap: snapToPart(
+          mesh.userData.partId as string,
+          mesh.geometry.boundingBox as THREE.Box3,
+          mesh.matrixWorld,
+          hit.point,
+          normal,
+          distance * SNAP_RADIUS_PER_DISTANCE
+        ),
+        markerSize: distance * MARKER_SIZE_PER_DISTANCE,
+      };
+    };
+
+    const updateStart = (target: MeasureTarget | null) => {
+      startRef.current = target;
+      setStart(target);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      setHover(pick(event));
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      downAt = event.button === 0 && !event.shiftKey ? [event.clientX, event.clientY] : null;
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!downAt) return;
+      const moved = Math.hypot(event.clientX - downAt[0], event.clientY - downAt[1]);
+      downAt = null;
+      if (moved > CLICK_SLOP_PX) return;
+
+      const target = pick(event);
+      if (!target) return;
+      if (!startRef.current) {
+        updateStart(target);
+        setResultSnaps(null);
+        return;
+      }
+      setResultSnaps([startRef.current.snap, target.snap]);
+      updateStart(null);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      updateStart(null);
+      setResultSnaps(null);
+    };
+
+    domElement.addEventListener('pointermove', handlePointerMove);
+    domElement.addEventListener('pointerdown', handlePointerDown);
+    domElement.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      domElement.removeEventListener('pointermove', handlePointerMove);
+      domElement.removeEventListener('pointerdown', handlePointerDown);
+      domElement.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [camera, gl, scene]);
+
+  const preview = start && hover ? resolveMeasurement(start.snap, hover.snap) : null;
+
+  return (
+    <>
+      {hover && <SnapMarker target={hover} />}
+      {start && <SnapMarker target={start} />}
+      {preview && (
+        <>
+          <MeasurementLine measurement={preview} color="#2563eb" dashed />
+          <MeasurementLabel measurement={preview} tone="live" />
+        </>
+      )}
+      {resultSnaps && result && (
+        <>
+          <MeasurementLine measurement={result} color="#2563eb" />
+          <MeasurementLabel measurement={result} tone="live">
+            <button
+              onClick={() => {
+                addMeasurement(result);
+                setResultSnaps(null);
+              }}
+              className="p-0.5 rounded text-blue-600 hover:bg-blue-50"
+              title="Pin measurement at this spot"
+            >
+              <Pin size={11} />
+            </button>
+            <button
+              onClick={() => {
+                addAnnotation(annotationFromSnaps(resultSnaps[0], resultSnaps[1]));
+                setResultSnaps(null);
+              }}
+              className="p-0.5 rounded text-blue-600 hover:bg-blue-50"
+              title="Add a dimension that follows these parts"
+            >
+              <Link2 size={11} />
+            </button>
+            <button
+              onClick={() => setResultSnaps(null)}
+              className="p-0.5 rounded text-slate-400 hover:bg-slate-100"
+              title="Dismiss"
+            >
+              <X size={11} />
+            </button>
+          </MeasurementLabel>
+        </>
+      )}
+    </>
+  );
+};
+
+const DimensionAnnotations: React.FC = () => {
+  const parts = useStore((state) => state.parts);
+  const annotations = useStore((state) => state.annotations);
+  const removeAnnotation = useStore((state) => state.removeAnnotation);
+  const resolved = useMemo(
+    () => annotations.flatMap((annotation) => {
+      const placement = resolveAnnotation(annotation, parts);
+      return placement ? [{ annotation, ...placement }] : [];
+    }),
+    [annotations, parts]
+  );
+
+  return (
+    <>
+      {resolved.map(({ annotation, measurement, startPart, endPart }) => (
+        <React.Fragment key={annotation.id}>
+          <DimensionLine measurement={measurement} />
+          <MeasurementLabel measurement={measurement} tone="pinned">
+            <button
+              onClick={() => removeAnnotation(annotation.id)}
+              className="p-0.5 rounded text-slate-400 hover:bg-slate-100 hover:text-red-500"
+              title={`Remove dimension (${startPart.name} to ${endPart.name})`}
+            >
+              <X size={11} />
+            </button>
+          </MeasurementLabel>
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+export const MeasureLayer: React.FC = () => {
+  const tool = useStore((state) => state.tool);
+  const measurements = useStore((state) => state.measurements);
+  const removeMeasurement = useStore((state) => state.removeMeasurement);
+
+  return (
+    <>
+      <DimensionAnnotations />
+      {measurements.map((measurement) => (
+        <React.Fragment key={measurement.id}>
+          <MeasurementLine measurement={measurement} color="#475569" />
+          <MeasurementLabel measurement={measurement} tone="pinned">
+            <button
+              onClick={() => removeMeasurement(measurement.id)}
+              className="p-0.5 rounded text-slate-400 hover:bg-slate-100 hover:text-red-500"
+              title="Remove measurement"
+            >
+              <X size={11} />
+            </button>
+          </MeasurementLabel>
+        </React.Fragment>
+      ))}
+      {tool === 'measure' && <MeasureTool />}
+    </>
+  );
+};
+
+// Sits over the canvas while the measure tool is active.
+export const MeasureHint: React.FC = () => {
+  const tool = useStore((state) => state.tool);
+  const measurementCount = useStore((state) => state.measurements.length);
+  const clearMeasurements = useStore((state) => state.clearMeasurements);
+  if (tool !== 'measure') return null;
+
+  return (
+    <div className="absolute bottom-3 left-3 z-10 max-w-xs rounded-md border border-slate-200 bg-white/95 px-3 py-2 text-[11px] text-slate-600 shadow space-y-1">
+      <p>
+        Click a <span style={{ color: SNAP_COLORS.corner }}>corner</span>,{' '}
+        <span style={{ color: SNAP_COLORS.edge }}>edge</span> or{' '}
+        <span style={{ color: SNAP_COLORS.face }}>face</span>, then a second one. Two parallel faces measure the gap
+        between them. Pin the result where it is, or link it to the parts as a dimension that follows them. Esc cancels.
+      </p>
+      {measurementCount > 0 && (
+        <div className="flex items-center justify-between gap-2">
+          <span>{measurementCount} pinned</span>
+          <button
+            onClick={clearMeasurements}
+            className="px-2 py-0.5 rounded border border-slate-300 hover:bg-slate-100"
+          >
+            Clear pinned
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -8,17 +8,23 @@ import { getStructuralHeatColor, StructuralPartField } from '../structuralAnalys
 
 interface PartObjectProps {
   data: PartData;
-  partIndex: number;
-  totalParts: number;
-  assemblyCenter: [number, number, number];
+  explodeOffset: [number, number, number];
   structuralOverlayEnabled: boolean;
   structuralScore: number | null;
   structuralField: StructuralPartField | null;
 }
 
 const SELECTION_SUPPRESS_MS = 180;
+const NO_GROUP_SELECTION: string[] = [];
 let suppressSelectionUntil = 0;
 
+// Lets scene-level gestures (box select) swallow the click that ends them.
+export const suppressPartSelection = (durationMs = SELECTION_SUPPRESS_MS) => {
+  suppressSelectionUntil = Date.now() + durationMs;
+};
+
+export const isPartSelectionSuppressed = () => Date.now() < suppressSelectionUntil;
+
 const getLCutPoints = (
   width: number,
   depth: number,
@@ -308,26 +314,19 @@ const createHandleGeometry = (width: number, depth: number) => {
   return torus;
 };
 
-const hashString = (value: string) => {
-  let hash = 0;
-  for (let i = 0; i < value.length; i += 1) {
-    hash = (hash << 5) - hash + value.charCodeAt(i);
-    hash |= 0;
-  }
-  return Math.abs(hash);
-};
-
 export const PartObject: React.FC<PartObjectProps> = React.memo(({
   data,
-  partIndex,
-  totalParts,
-  assemblyCenter,
+  explodeOffset,
   structuralOverlayEnabled,
   structuralScore,
   structuralField,
 }) => {
   const controls = useThree((state) => state.controls as { enabled?: boolean } | undefined);
-  const isSelected = useStore((state) => state.selectedId === data.id);
+  const isSelected = useStore((state) => state.selectedIds.includes(data.id));
+  const isPrimarySelection = useStore((state) => state.selectedId === data.id);
+  const groupSelectionIds = useStore((state) => (
+    state.selectedId === data.id && state.selectedIds.length > 1 ? state.selectedIds : NO_GROUP_SELECTION
+  ));
   const isHoveredInSceneList = useStore((state) => state.hoveredId === data.id);
   const parts = useStore((state) => state.parts);
   const tool = useStore((state) => state.tool);
@@ -338,11 +337,17 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
   const selectPart = useStore((state) => state.selectPart);
   const setHoveredId = useStore((state) => state.setHoveredId);
   const updatePart = useStore((state) => state.updatePart);
+  const transformParts = useStore((state) => state.transformParts);
+  const beginPartsTransform = useStore((state) => state.beginPartsTransform);
+  const endPartsTransform = useStore((state) => state.endPartsTransform);
+  const isGroupTransform = groupSelectionIds.length > 1;
 
   const explodeGroupRef = useRef<THREE.Group>(null);
   const meshRef = useRef<THREE.Mesh>(null);
   const materialRef = useRef<THREE.MeshStandardMaterial>(null);
   const transformStartRef = useRef<{ position: THREE.Vector3; rotation: THREE.Euler } | null>(null);
+  const pivotRef = useRef<THREE.Group>(null);
+  const pivotStartRef = useRef<{ position: THREE.Vector3; quaternion: THREE.Quaternion } | null>(null);
   const isTransformingRef = useRef(false);
   const transformSyncRafRef = useRef<number | null>(null);
 
@@ -355,10 +360,10 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
 
   const handleClick = (e: ThreeEvent<MouseEvent>) => {
     e.stopPropagation();
-    if (shouldIgnoreSelection(e.button)) {
+    if (tool === 'measure' || tool === 'load' || shouldIgnoreSelection(e.button)) {
       return;
     }
-    selectPart(data.id);
+    selectPart(data.id, { additive: e.nativeEvent.shiftKey && tool !== 'auto-screw' });
   };
 
   const handleHardwarePointerDown = (e: ThreeEvent<PointerEvent>) => {
@@ -368,10 +373,10 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
 
   const handleHardwareClick = (e: ThreeEvent<MouseEvent>) => {
     e.stopPropagation();
-    if (shouldIgnoreSelection(e.button)) {
+    if (tool === 'measure' || tool === 'load' || shouldIgnoreSelection(e.button)) {
       return;
     }
-    selectPart(data.id);
+    selectPart(data.id, { additive: e.nativeEvent.shiftKey && tool !== 'auto-screw' });
   };
 
   const handlePointerEnter = (e: ThreeEvent<PointerEvent>) => {
@@ -397,43 +402,6 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
     return getStructuralHeatColor(structuralScore);
   }, [data.type, structuralOverlayEnabled, structuralScore]);
 
-  const explodeMotion = useMemo(() => {
-    const idHash = hashString(data.id);
-    const direction = new THREE.Vector3(
-      data.position[0] - assemblyCenter[0],
-      0,
-      data.position[2] - assemblyCenter[2]
-    );
-
-    if (direction.lengthSq() < 0.0001) {
-      const theta = ((idHash % 360) * Math.PI) / 180;
-      direction.set(Math.cos(theta), 0, Math.sin(theta));
-    }
-    direction.normalize();
-
-    const radialDistance = Math.hypot(
-      data.position[0] - assemblyCenter[0],
-      data.position[2] - assemblyCenter[2]
-    );
-
-    const axis = new THREE.Vector3(
-      ((idHash % 17) - 8) / 8,
-      (((idHash >> 3) % 19) - 9) / 9,
-      (((idHash >> 6) % 23) - 11) / 11
-    );
-    if (axis.lengthSq() < 0.01) {
-      axis.set(0.3, 1, 0.2);
-    }
-    axis.normalize();
-
-    const spread = 18 + radialDistance * 0.42 + ((partIndex + totalParts) % 6) * 1.6;
-    const lift = 8 + (idHash % 7) * 0.85;
-    const spin = (1.15 + ((idHash % 9) * 0.17)) * Math.PI;
-    const phase = (idHash % 300) / 50;
-
-    return { direction, axis, spread, lift, spin, phase };
-  }, [assemblyCenter, data.id, data.position, partIndex, totalParts]);
-
   const geometry = useMemo<THREE.BufferGeometry>(() => {
     if (data.type === 'hardware') {
       if (data.hardwareKind === 'hinge') {
@@ -652,21 +620,9 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
   useFrame(({ clock }, delta) => {
     const explodeGroup = explodeGroupRef.current;
     if (explodeGroup) {
-      const pulse = Math.sin(clock.elapsedTime * 3.2 + explodeMotion.phase) * explodeFactor * 0.35;
-      const targetX = explodeMotion.direction.x * explodeMotion.spread * explodeFactor;
-      const targetY = (explodeMotion.lift + pulse) * explodeFactor;
-      const targetZ = explodeMotion.direction.z * explodeMotion.spread * explodeFactor;
-
-      explodeGroup.position.x = THREE.MathUtils.damp(explodeGroup.position.x, targetX, 8, delta);
-      explodeGroup.position.y = THREE.MathUtils.damp(explodeGroup.position.y, targetY, 8, delta);
-      explodeGroup.position.z = THREE.MathUtils.damp(explodeGroup.position.z, targetZ, 8, delta);
-
-      const targetRotX = explodeMotion.axis.x * explodeMotion.spin * explodeFactor;
-      const targetRotY = explodeMotion.axis.y * explodeMotion.spin * explodeFactor;
-      const targetRotZ = explodeMotion.axis.z * explodeMotion.spin * explodeFactor;
-      explodeGroup.rotation.x = THREE.MathUtils.damp(explodeGroup.rotation.x, targetRotX, 6.5, delta);
-      explodeGroup.rotation.y = THREE.MathUtils.damp(explodeGroup.rotation.y, targetRotY, 6.5, delta);
-      explodeGroup.rotation.z = THREE.MathUtils.damp(explodeGroup.rotation.z, targetRotZ, 6.5, delta);
+      explodeGroup.position.x = THREE.MathUtils.damp(explodeGroup.position.x, explodeOffset[0] * explodeFactor, 8, delta);
+      explodeGroup.position.y = THREE.MathUtils.damp(explodeGroup.position.y, explodeOffset[1] * explodeFactor, 8, delta);
+      explodeGroup.position.z = THREE.MathUtils.damp(explodeGroup.position.z, explodeOffset[2] * explodeFactor, 8, delta);
     }
 
     const material = materialRef.current;
@@ -696,34 +652,81 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
     updatePart(data.id, {
       position: [newPos.x, newPos.y, newPos.z],
       rotation: [newRot.x, newRot.y, newRot.z],
-    }, { trackHistory });
-  }, [data.id, updatePart]);
+    }, {
+      trackHistory,
+      label: `${tool === 'rotate' ? 'Rotate' : 'Move'} ${data.name}`,
+    });
+  }, [data.id, data.name, tool, updatePart]);
+
+  const syncGroupTransformToStore = useCallback((trackHistory = true) => {
+    const pivot = pivotRef.current;
+    const start = pivotStartRef.current;
+    if (!pivot || !start) return;
+    const translation = pivot.position.clone().sub(start.position);
+    const rotation = pivot.quaternion.clone().multiply(start.quaternion.clone().invert());
+    transformParts(groupSelectionIds, {
+      pivot: [start.position.x, start.position.y, start.position.z],
+      translation: [translation.x, translation.y, translation.z],
+      rotation: [rotation.x, rotation.y, rotation.z, rotation.w],
+    }, {
+      trackHistory,
+      label: `${tool === 'rotate' ? 'Rotate' : 'Move'} ${groupSelectionIds.length} parts`,
+    });
+  }, [groupSelectionIds, tool, transformParts]);
 
   const scheduleTransformSync = useCallback(() => {
     if (transformSyncRafRef.current !== null) return;
     transformSyncRafRef.current = window.requestAnimationFrame(() => {
       transformSyncRafRef.current = null;
-      syncTransformToStore(false);
+      if (isGroupTransform) {
+        syncGroupTransformToStore(false);
+      } else {
+        syncTransformToStore(false);
+      }
     });
-  }, [syncTransformToStore]);
+  }, [isGroupTransform, syncGroupTransformToStore, syncTransformToStore]);
+
+  // Park the group gizmo on the selection's center whenever it is idle.
+  useEffect(() => {
+    const pivot = pivotRef.current;
+    if (!pivot || !isGroupTransform || isTransformingRef.current) return;
+    const selected = parts.filter((part) => groupSelectionIds.includes(part.id));
+    if (selected.length === 0) return;
+    const center = selected.reduce(
+      (sum, part) => sum.add(new THREE.Vector3(...part.position)),
+      new THREE.Vector3()
+    ).divideScalar(selected.length);
+    pivot.position.copy(center);
+    pivot.quaternion.identity();
+  });
 
   const onTransformStart = () => {
-    if (!meshRef.current) return;
+    const target = isGroupTransform ? pivotRef.current : meshRef.current;
+    if (!target) return;
 
     isTransformingRef.current = true;
     if (controls) {
       controls.enabled = false;
     }
-    transformStartRef.current = {
-      position: meshRef.current.position.clone(),
-      rotation: meshRef.current.rotation.clone(),
-    };
+    if (isGroupTransform) {
+      pivotStartRef.current = {
+        position: target.position.clone(),
+        quaternion: target.quaternion.clone(),
+      };
+    } else {
+      transformStartRef.current = {
+        position: target.position.clone(),
+        rotation: target.rotation.clone(),
+      };
+    }
+    beginPartsTransform();
   };
 
   const onTransformObjectChange = () => {
     if (!isTransformingRef.current) return;
     if (
-      tool === 'move'
+      !isGroupTransform
+      && tool === 'move'
       && edgeSnapEnabled
       && data.type !== 'hardware'
       && meshRef.current
@@ -743,6 +746,28 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
     if (controls) {
       controls.enabled = true;
     }
+    if (pivotStartRef.current) {
+      const pivot = pivotRef.current;
+      const start = pivotStartRef.current;
+      if (transformSyncRafRef.current !== null) {
+        window.cancelAnimationFrame(transformSyncRafRef.current);
+        transformSyncRafRef.current = null;
+      }
+      if (!pivot) {
+        pivotStartRef.current = null;
+        endPartsTransform();
+        return;
+      }
+      const changed = pivot.position.distanceTo(start.position) > 0.0001
+        || pivot.quaternion.angleTo(start.quaternion) > 0.0001;
+      if (changed) {
+        suppressPartSelection();
+        syncGroupTransformToStore(true);
+      }
+      pivotStartRef.current = null;
+      endPartsTransform();
+      return;
+    }
     if (!meshRef.current) {
       transformStartRef.current = null;
       return;
@@ -762,7 +787,7 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
       changed = moved || rotated;
 
       if (changed) {
-        suppressSelectionUntil = Date.now() + SELECTION_SUPPRESS_MS;
+        suppressPartSelection();
       }
     }
     transformStartRef.current = null;
@@ -773,9 +798,10 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
     if (changed) {
       syncTransformToStore(true);
     }
-  }, [controls, syncTransformToStore]);
+    endPartsTransform();
+  }, [controls, endPartsTransform, syncGroupTransformToStore, syncTransformToStore]);
 
-  const showTransform = explodeFactor < 0.001 && isSelected && (tool === 'move' || tool === 'rotate');
+  const showTransform = explodeFactor < 0.001 && isPrimarySelection && (tool === 'move' || tool === 'rotate');
   const mode = tool === 'rotate' ? 'rotate' : 'translate';
   const hingePinOffset = data.hinge?.pinOffset ?? Math.max(width * 0.35, 0.2);
   const hingeDirection = Math.sign(hingePinOffset || 1);
@@ -840,9 +866,11 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
 
   return (
     <>
+      {showTransform && isGroupTransform && <group ref={pivotRef} />}
       {showTransform && (
         <TransformControls
-          object={meshRef as unknown as React.MutableRefObject<THREE.Object3D>}
+          key={isGroupTransform ? 'group' : 'part'}
+          object={(isGroupTransform ? pivotRef : meshRef) as unknown as React.MutableRefObject<THREE.Object3D>}
           mode={mode}
           onMouseDown={onTransformStart}
           onMouseUp={onTransformEnd}
@@ -856,6 +884,7 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
           ref={meshRef}
           position={position}
           rotation={rotation}
+          userData={{ partId: data.id }}
           onClick={data.type === 'hardware' ? undefined : handleClick}
           onPointerEnter={handlePointerEnter}
           onPointerLeave={handlePointerLeave}
@@ -946,13 +975,11 @@ export const PartObject: React.FC<PartObjectProps> = React.memo(({
 }, (prevProps, nextProps) => {
   return (
     prevProps.data === nextProps.data
-    && prevProps.partIndex === nextProps.partIndex
-    && prevProps.totalParts === nextProps.totalParts
     && prevProps.structuralOverlayEnabled === nextProps.structuralOverlayEnabled
     && prevProps.structuralScore === nextProps.structuralScore
     && prevProps.structuralField === nextProps.structuralField
-    && prevProps.assemblyCenter[0] === nextProps.assemblyCenter[0]
-    && prevProps.assemblyCenter[1] === nextProps.assemblyCenter[1]
-    && prevProps.assemblyCenter[2] === nextProps.assemblyCenter[2]
+    && prevProps.explodeOffset[0] === nextProps.explodeOffset[0]
+    && prevProps.explodeOffset[1] === nextProps.explodeOffset[1]
+    && prevProps.explodeOffset[2] === nextProps.explodeOffset[2]
   );
 });
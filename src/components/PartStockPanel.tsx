@@ -0,0 +1,105 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useStore } from '../store';
+import { StockDefinition, WoodSpecies } from '../types';
+import { getStockDefinitions, getStockIssue, partStockName } from '../stockCatalog';
+import { formatLength, formatSize } from '../units';
+import { getSpecies, partSpecies, speciesOptions } from '../species';
+
+export const PartStockPanel: React.FC<{ partId: string }> = ({ partId }) => {
+  const { parts, customStock, updatePart, lengthUnit, fractionPrecision } = useStore();
+  const part = parts.find((entry) => entry.id === partId);
+  if (!part || part.type === 'hardware') return null;
+
+  const stockName = partStockName(part);
+  const options = getStockDefinitions(customStock).filter((stock) => stock.type === part.type);
+  const current = options.find((stock) => stock.name === stockName);
+  const issue = getStockIssue(part, customStock);
+  const suggestion = issue?.suggestion ?? null;
+  const formatActualSize = (stock: StockDefinition) => formatSize([stock.thickness, stock.width], lengthUnit, fractionPrecision);
+
+  // Parts still named after their stock follow it; renamed parts keep their own name.
+  const switchStock = (name: string) => {
+    if (name === stockName) return;
+    updatePart(
+      part.id,
+      { stock: name, name: part.name === stockName ? name : part.name },
+      { label: `Switch ${part.name} to ${name}` }
+    );
+  };
+
+  // An untouched colour (the stock's or the previous species') follows the species; painted parts keep theirs.
+  const species = partSpecies(part);
+  const switchSpecies = (id: WoodSpecies) => {
+    if (id === species.id) return;
+    const next = getSpecies(id);
+    const previousDefault = part.species ? species.color : current?.color;
+    const followsDefault = !part.color || part.color === previousDefault;
+    updatePart(
+      part.id,
+      { species: id, ...(followsDefault ? { color: next.color } : {}) },
+      { label: `Set ${part.name} to ${next.label}` }
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+      <label className="text-xs font-semibold text-slate-600">Stock</label>
+      <select
+        value={current ? stockName : ''}
+        onChange={(e) => switchStock(e.target.value)}
+        className="w-full px-2 py-1.5 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+      >
+        {!current && <option value="">{stockName} (unknown size)</option>}
+        {options.map((stock) => (
+          <option key={stock.id} value={stock.name}>
+            {stock.name}{stock.nominal ? ` - ${stock.nominal}` : ''}
+          </option>
+        ))}
+      </select>
+      {current && (
+        <p className="text-[10px] text-slate-500">
+          {current.nominal ? `${current.nominal} nominal is ` : ''}
+          {formatActualSize(current)} actual{part.type === 'sheet' ? ' thickness x panel width' : ''}.
+        </p>
+      )}
+      <label className="block text-xs font-semibold text-slate-600">Species</label>
+      <select
+        value={species.id}
+        onChange={(e) => switchSpecies(e.target.value as WoodSpecies)}
+        className="w-full px-2 py-1.5 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+      >
+        {speciesOptions(part.type).map((option) => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+      <p className="text-[10px] text-slate-500">
+        {species.densityLbPerCuFt} lb/ft³, {(species.modulusPsi / 1_000_000).toFixed(2)}M psi stiffness, {(species.bendingStrengthPsi / 1000).toFixed(1)}k psi bending strength.
+      </p>
+      {issue && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-2 py-1.5 text-[11px] text-amber-800 space-y-1.5">
+          <div className="flex items-start gap-1.5">
+            <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+            <span>
+              {issue.kind === 'unknown'
+                ? `No stock size is known for "${stockName}", so the BOM can't plan boards for it.`
+                : part.type === 'sheet'
+                  ? `This part is ${formatLength(part.dimensions[1], lengthUnit, fractionPrecision)} thick, but ${stockName} is ${formatLength(issue.stock.thickness, lengthUnit, fractionPrecision)}.`
+                  : `This part can't be cut from ${stockName} (${formatActualSize(issue.stock)} actual).`}
+            </span>
+          </div>
+          {suggestion ? (
+            <button
+              onClick={() => switchStock(suggestion.name)}
+              className="w-full px-2 py-1 rounded border border-amber-300 bg-white text-amber-900 hover:bg-amber-100"
+            >
+              Switch to {suggestion.name}
+            </button>
+          ) : (
+            <p>No stock in the library is large enough. Add a size under My Stock.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, FolderOpen, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useStore } from '../store';
+import { formatImportReport } from '../projectSchema';
+import {
+  deleteLibraryProject,
+  duplicateLibraryProject,
+  LibraryProjectSummary,
+  listLibraryProjects,
+  readLibraryProject,
+  renameLibraryProject,
+  setLastOpenedProjectId,
+} from '../projectLibrary';
+
+type ProjectLibraryModalProps = {
+  onClose: () => void;
+};
+
+const AUTOSAVE_LABELS = {
+  idle: 'Autosave on',
+  saving: 'Saving…',
+  saved: 'All changes saved',
+  error: 'Autosave failed',
+} as const;
+
+const formatUpdatedAt = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+export const ProjectLibraryModal: React.FC<ProjectLibraryModalProps> = ({ onClose }) => {
+  const {
+    activeProjectId,
+    autosaveStatus,
+    loadProject,
+    startNewProject,
+    setProjectName,
+    requestCameraFocus,
+  } = useStore();
+  const [projects, setProjects] = useState<LibraryProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listLibraryProjects());
+      setErrorMessage(null);
+    } catch (error) {
+      console.error('Failed to list projects', error);
+      setErrorMessage('The project library is unavailable in this browser.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh, autosaveStatus]);
+
+  const handleOpen = async (id: string) => {
+    try {
+      const stored = await readLibraryProject(id);
+      if (!stored) {
+        alert('That project no longer exists.');
+        void refresh();
+        return;
+      }
+      if (!stored.result.ok) {
+        alert(`Could not open project.\n\n${stored.result.message}`);
+        return;
+      }
+      loadProject(stored.result.project, { projectId: id, resetHistory: true });
+      setLastOpenedProjectId(id);
+      requestCameraFocus();
+      onClose();
+      const report = formatImportReport(stored.result);
+      if (report) {
+        alert(`Project opened with issues.\n\n${report}`);
+      }
+    } catch (error) {
+      console.error('Failed to open project', error);
+      alert('Could not open project.');
+    }
+  };
+
+  const handleStartRename = (project: LibraryProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const handleConfirmRename = async () => {
+    if (!renamingId) return;
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name) return;
+    try {
+      await renameLibraryProject(renamingId, name);
+      if (renamingId === activeProjectId) {
+        setProjectName(name);
+      }
+      await refresh();
+    } catch (error) {
+      console.error('Failed to rename project', error);
+      alert('Could not rename project.');
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateLibraryProject(id);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to duplicate project', error);
+      alert('Could not duplicate project.');
+    }
+  };
+
+  const handleDelete = async (project: LibraryProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}" from this browser? This cannot be undone.`)) return;
+    try {
+      await deleteLibraryProject(project.id);
+      if (project.id === activeProjectId) {
+        startNewProject();
+        setLastOpenedProjectId(null);
+      }
+      await refresh();
+    } catch (error) {
+      console.error('Failed to delete project', error);
+      alert('Could not delete project.');
+    }
+  };
+
+  const handleNewProject = () => {
+    startNewProject();
+    setLastOpenedProjectId(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-[1px] flex items-center justify-center p-4">
+      <div className="w-full max-w-lg bg-white rounded-xl border border-slate-200 shadow-2xl flex flex-col max-h-[80vh]">
+        <div className="px-5 py-4 border-b border-slate-200 flex items-start justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Projects</h3>
+            <p className="text-sm text-slate-500 mt-1">
+              Saved in this browser. <span className={autosaveStatus === 'error' ? 'text-rose-600' : ''}>{AUTOSAVE_LABELS[autosaveStatus]}</span>
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-slate-500 hover:bg-slate-100"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 overflow-y-auto flex-1 space-y-2">
+          {isLoading && <div className="text-sm text-slate-500">Loading projects…</div>}
+          {errorMessage && <div className="text-sm text-rose-600">{errorMessage}</div>}
+          {!isLoading && !errorMessage && projects.length === 0 && (
+            <div className="text-sm text-slate-500">No saved projects yet. Add a part and it will be saved automatically.</div>
+          )}
+          {projects.map((project) => {
+            const isActive = project.id === activeProjectId;
+            return (
+              <div
+                key={project.id}
+                className={`rounded-lg border px-3 py-2 flex items-center gap-2 ${isActive ? 'border-blue-300 bg-blue-50' : 'border-slate-200'}`}
+              >
+                <div className="min-w-0 flex-1">
+                  {renamingId === project.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => void handleConfirmRename()}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          void handleConfirmRename();
+                        } else if (e.key === 'Escape') {
+                          setRenamingId(null);
+                        }
+                      }}
+                      className="w-full px-2 py-1 text-sm border rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                  ) : (
+                    <div className="text-sm font-medium text-slate-800 truncate">
+                      {project.name}
+                      {isActive && <span className="ml-2 text-[10px] uppercase tracking-wide text-blue-600">Open</span>}
+                    </div>
+                  )}
+                  <div className="text-xs text-slate-500">
+                    {project.partCount} part{project.partCount === 1 ? '' : 's'} · Updated {formatUpdatedAt(project.updatedAt)}
+                  </div>
+                </div>
+                <button
+                  onClick={() => void handleOpen(project.id)}
+                  className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100"
+                  title="Open"
+                >
+                  <FolderOpen size={16} />
+                </button>
+                <button
+                  onClick={() => handleStartRename(project)}
+                  className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100"
+                  title="Rename"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => void handleDuplicate(project.id)}
+                  className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100"
+                  title="Duplicate"
+                >
+                  <Copy size={16} />
+                </button>
+                <button
+                  onClick={() => void handleDelete(project)}
+                  className="p-1.5 rounded-md text-red-600 hover:bg-red-50"
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-200 flex justify-between gap-2">
+          <button
+            onClick={handleNewProject}
+            className="px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 flex items-center gap-1.5"
+          >
+            <Plus size={14} />
+            New Project
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
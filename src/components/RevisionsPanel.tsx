@@ -0,0 +1,300 @@
+import React, { useMemo, useState } from 'react';
+import { Camera, GitCompare, Pencil, RotateCcw, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useStore } from '../store';
+import {
+  diffParts,
+  formatCutListDelta,
+  formatPartChange,
+  PART_CHANGE_COLORS,
+  PartChangeKind,
+  resolveCompareParts,
+} from '../snapshotDiff';
+import { HistoryPanel } from './HistoryPanel';
+
+const CHANGE_LABELS: Record<PartChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  moved: 'Moved',
+  resized: 'Resized',
+};
+
+const CURRENT_DESIGN = 'current';
+
+export const RevisionsPanel: React.FC = () => {
+  const {
+    parts,
+    snapshots,
+    createSnapshot,
+    renameSnapshot,
+    deleteSnapshot,
+    restoreSnapshot,
+    snapshotCompare,
+    setSnapshotCompare,
+    lengthUnit,
+    fractionPrecision,
+  } = useStore();
+  const [snapshotName, setSnapshotName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [baseId, setBaseId] = useState<string>('');
+  const [targetId, setTargetId] = useState<string>(CURRENT_DESIGN);
+
+  const compareParts = useMemo(
+    () => resolveCompareParts(snapshots, snapshotCompare, parts),
+    [parts, snapshotCompare, snapshots]
+  );
+  const diff = useMemo(
+    () => (compareParts ? diffParts(compareParts.baseParts, compareParts.targetParts) : null),
+    [compareParts]
+  );
+  const cutListLines = useMemo(
+    () => (diff ? formatCutListDelta(diff.cutListDelta, lengthUnit, fractionPrecision) : []),
+    [diff, fractionPrecision, lengthUnit]
+  );
+
+  const selectedBaseId = snapshots.some((snapshot) => snapshot.id === baseId) ? baseId : snapshots[0]?.id ?? '';
+  const selectedTargetId = targetId === CURRENT_DESIGN || snapshots.some((snapshot) => snapshot.id === targetId)
+    ? targetId
+    : CURRENT_DESIGN;
+
+  const handleCreateSnapshot = () => {
+    createSnapshot(snapshotName);
+    setSnapshotName('');
+  };
+
+  const handleConfirmRename = () => {
+    if (renamingId) {
+      renameSnapshot(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleRestore = (id: string, name: string) => {
+    if (window.confirm(`Replace the current design with "${name}"? You can undo this.`)) {
+      restoreSnapshot(id);
+    }
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (window.confirm(`Delete snapshot "${name}"?`)) {
+      deleteSnapshot(id);
+    }
+  };
+
+  const handleCompare = (nextBaseId: string, nextTargetId: string) => {
+    setBaseId(nextBaseId);
+    setTargetId(nextTargetId);
+    setSnapshotCompare({
+      baseId: nextBaseId,
+      targetId: nextTargetId === CURRENT_DESIGN ? null : nextTargetId,
+    });
+  };
+
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-4">
+      <HistoryPanel />
+
+      <div className="border-t border-slate-200 pt-4">
+        <h2 className="font-semibold text-slate-800">Snapshots</h2>
+        <p className="text-xs text-slate-500">Save named revisions with the project and compare them.</p>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleCreateSnapshot();
+            }
+          }}
+          placeholder="e.g. before adding shelves"
+          className="flex-1 min-w-0 px-2.5 py-1.5 text-sm border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleCreateSnapshot}
+          className="px-2.5 py-1.5 text-xs rounded-md bg-blue-600 text-white hover:bg-blue-700 flex items-center gap-1.5 shrink-0"
+          title="Save the current design as a snapshot"
+        >
+          <Camera size={14} />
+          Save
+        </button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <div className="text-center py-6 text-slate-400 text-sm">No snapshots yet</div>
+      ) : (
+        <div className="space-y-1.5">
+          {[...snapshots].reverse().map((snapshot) => (
+            <div
+              key={snapshot.id}
+              className={clsx(
+                'rounded-md border px-2.5 py-2 flex items-center gap-1.5',
+                snapshotCompare?.baseId === snapshot.id || snapshotCompare?.targetId === snapshot.id
+                  ? 'border-blue-300 bg-blue-50'
+                  : 'border-slate-200'
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                {renamingId === snapshot.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={handleConfirmRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        handleConfirmRename();
+                      } else if (e.key === 'Escape') {
+                        setRenamingId(null);
+                      }
+                    }}
+                    className="w-full px-1.5 py-0.5 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                ) : (
+                  <div className="text-sm font-medium text-slate-800 truncate">{snapshot.name}</div>
+                )}
+                <div className="text-[10px] text-slate-500 truncate">
+                  {snapshot.parts.length} part{snapshot.parts.length === 1 ? '' : 's'} · {new Date(snapshot.createdAt).toLocaleString()}
+                </div>
+              </div>
+              <button
+                onClick={() => handleCompare(snapshot.id, CURRENT_DESIGN)}
+                className="p-1 rounded text-slate-500 hover:bg-slate-100"
+                title="Compare with current design"
+              >
+                <GitCompare size={14} />
+              </button>
+              <button
+                onClick={() => {
+                  setRenamingId(snapshot.id);
+                  setRenameValue(snapshot.name);
+                }}
+                className="p-1 rounded text-slate-500 hover:bg-slate-100"
+                title="Rename"
+              >
+                <Pencil size={14} />
+              </button>
+              <button
+                onClick={() => handleRestore(snapshot.id, snapshot.name)}
+                className="p-1 rounded text-slate-500 hover:bg-slate-100"
+                title="Restore this snapshot"
+              >
+                <RotateCcw size={14} />
+              </button>
+              <button
+                onClick={() => handleDelete(snapshot.id, snapshot.name)}
+                className="p-1 rounded text-red-500 hover:bg-red-50"
+                title="Delete"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {snapshots.length > 0 && (
+        <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+          <h3 className="text-xs font-semibold text-slate-700">Compare</h3>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-[10px] text-slate-500">
+              From
+              <select
+                value={selectedBaseId}
+                onChange={(e) => setBaseId(e.target.value)}
+                className="mt-0.5 w-full px-1.5 py-1 text-xs border border-slate-200 rounded bg-white"
+              >
+                {snapshots.map((snapshot) => (
+                  <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-[10px] text-slate-500">
+              To
+              <select
+                value={selectedTargetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="mt-0.5 w-full px-1.5 py-1 text-xs border border-slate-200 rounded bg-white"
+              >
+                <option value={CURRENT_DESIGN}>Current design</option>
+                {snapshots.map((snapshot) => (
+                  <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleCompare(selectedBaseId, selectedTargetId)}
+              disabled={!selectedBaseId}
+              className="flex-1 py-1.5 text-xs rounded border border-blue-300 bg-white text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+            >
+              Show Changes
+            </button>
+            {snapshotCompare && (
+              <button
+                onClick={() => setSnapshotCompare(null)}
+                className="flex-1 py-1.5 text-xs rounded border border-slate-300 bg-white text-slate-700 hover:bg-slate-100"
+              >
+                Exit Compare
+              </button>
+            )}
+          </div>
+
+          {compareParts && diff && (
+            <div className="space-y-2 pt-1">
+              <div className="text-[11px] text-slate-600">
+                {compareParts.baseLabel} → {compareParts.targetLabel}
+              </div>
+              <div className="grid grid-cols-2 gap-1">
+                {(Object.keys(CHANGE_LABELS) as PartChangeKind[]).map((kind) => (
+                  <div key={kind} className="flex items-center gap-1.5 text-[11px] text-slate-700">
+                    <span
+                      className="inline-block h-2.5 w-2.5 rounded-sm"
+                      style={{ backgroundColor: PART_CHANGE_COLORS[kind] }}
+                    />
+                    {CHANGE_LABELS[kind]}: {diff.counts[kind]}
+                  </div>
+                ))}
+              </div>
+              {diff.changes.length === 0 ? (
+                <div className="text-[11px] text-slate-500">No part changes.</div>
+              ) : (
+                <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+                  {diff.changes.map((change) => (
+                    <li key={`${change.kind}-${change.part.id}`} className="text-[11px] text-slate-700 flex items-start gap-1.5">
+                      <span
+                        className="mt-1 inline-block h-1.5 w-1.5 rounded-full shrink-0"
+                        style={{ backgroundColor: PART_CHANGE_COLORS[change.kind] }}
+                      />
+                      {formatPartChange(change, lengthUnit, fractionPrecision)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div>
+                <h4 className="text-[11px] font-semibold text-slate-700">Cut list delta</h4>
+                {cutListLines.length === 0 ? (
+                  <div className="text-[11px] text-slate-500">Cut list is unchanged.</div>
+                ) : (
+                  <ul className="space-y-0.5 font-mono">
+                    {cutListLines.map((line, index) => (
+                      <li
+                        key={diff.cutListDelta[index].key}
+                        className={clsx('text-[10px]', line.startsWith('+') ? 'text-emerald-700' : 'text-rose-700')}
+                      >
+                        {line}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,21 @@
-import React, { useEffect, useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Canvas, useThree } from '@react-three/fiber';
 import { OrbitControls, Environment } from '@react-three/drei';
 import * as THREE from 'three';
 import { useStore } from '../store';
 import { PartData } from '../types';
-import { PartObject } from './PartObject';
+import { isPartSelectionSuppressed, PartObject, suppressPartSelection } from './PartObject';
 import { analyzeStructuralIntegrity } from '../structuralAnalysis';
+import { diffParts, resolveCompareParts } from '../snapshotDiff';
+import { SnapshotCompareLayer } from './SnapshotCompareLayer';
+import { pointInPolygon } from '../cutOptimizer';
+import { hiddenGroupIds } from '../partGroups';
+import { MeasureHint, MeasureLayer } from './MeasureLayer';
+import { LoadHint, LoadMarkerLayer } from './LoadMarkerLayer';
+import { ExplodeCallouts } from './ExplodeCallouts';
+import { computeExplodeOffsets } from '../explodedView';
+
+const NO_EXPLODE_OFFSET: [number, number, number] = [0, 0, 0];
 
 const ControlsRecovery: React.FC = () => {
   const controls = useThree((state) => state.controls as { enabled?: boolean } | undefined);
@@ -62,6 +72,98 @@ const ControlsRecovery: React.FC = () => {
   return null;
 };
 
+type MarqueeShape = {
+  mode: 'box' | 'lasso';
+  points: [number, number][];
+};
+
+const MARQUEE_START_PX = 4;
+
+const marqueePolygon = (shape: MarqueeShape): [number, number][] => {
+  if (shape.mode === 'lasso') return shape.points;
+  const [[x0, y0], [x1, y1]] = [shape.points[0], shape.points[shape.points.length - 1]];
+  return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+};
+
+// Shift-drag draws a selection box; Shift+Alt-drag draws a freehand lasso. Parts are picked by their center.
+const SelectionMarquee: React.FC<{ onShapeChange: (shape: MarqueeShape | null) => void }> = ({ onShapeChange }) => {
+  const controls = useThree((state) => state.controls as { enabled?: boolean } | undefined);
+  const camera = useThree((state) => state.camera);
+  const gl = useThree((state) => state.gl);
+
+  useEffect(() => {
+    const domElement = gl.domElement;
+    let shape: MarqueeShape | null = null;
+    let active = false;
+
+    const toLocal = (event: PointerEvent): [number, number] => {
+      const rect = domElement.getBoundingClientRect();
+      return [event.clientX - rect.left, event.clientY - rect.top];
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!event.shiftKey || event.button !== 0 || useStore.getState().tool === 'auto-screw') return;
+      shape = { mode: event.altKey ? 'lasso' : 'box', points: [toLocal(event)] };
+      active = false;
+      if (controls) {
+        controls.enabled = false;
+      }
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!shape) return;
+      const point = toLocal(event);
+      const [originX, originY] = shape.points[0];
+      if (!active && Math.hypot(point[0] - originX, point[1] - originY) < MARQUEE_START_PX) return;
+      active = true;
+      shape = {
+        ...shape,
+        points: shape.mode === 'box' ? [shape.points[0], point] : [...shape.points, point],
+      };
+      onShapeChange(shape);
+    };
+
+    const handlePointerUp = () => {
+      if (!shape) return;
+      if (active) {
+        const rect = domElement.getBoundingClientRect();
+        const polygon = marqueePolygon(shape);
+        const { parts, groups } = useStore.getState();
+        const hiddenGroups = hiddenGroupIds(groups);
+        const ids = parts
+          .filter((part) => {
+            if (part.groupId && hiddenGroups.has(part.groupId)) return false;
+            const projected = new THREE.Vector3(...part.position).project(camera);
+            if (projected.z > 1) return false;
+            const x = ((projected.x + 1) / 2) * rect.width;
+            const y = ((1 - projected.y) / 2) * rect.height;
+            return pointInPolygon(x, y, polygon);
+          })
+          .map((part) => part.id);
+        useStore.getState().selectParts(ids, { additive: true });
+        suppressPartSelection();
+      }
+      shape = null;
+      active = false;
+      onShapeChange(null);
+      if (controls) {
+        controls.enabled = true;
+      }
+    };
+
+    domElement.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      domElement.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [camera, controls, gl, onShapeChange]);
+
+  return null;
+};
+
 const AutoCenterCamera: React.FC<{ parts: PartData[]; focusToken: number }> = ({ parts, focusToken }) => {
   const controls = useThree((state) => state.controls as { target?: THREE.Vector3; update?: () => void } | undefined);
   const camera = useThree((state) => state.camera as THREE.PerspectiveCamera);
@@ -134,6 +236,7 @@ const AutoCenterCamera: React.FC<{ parts: PartData[]; focusToken: number }> = ({
 export const Scene: React.FC = () => {
   const {
     parts,
+    groups,
     selectPart,
     setHoveredId,
     floorEnabled,
@@ -141,7 +244,12 @@ export const Scene: React.FC = () => {
     structuralOverlayEnabled,
     stressScenario,
     stressIntensity,
+    structuralSolver,
+    loadMarkers,
     cameraFocusRequest,
+    snapshots,
+    snapshotCompare,
+    setSnapshotCompare,
   } = useStore();
   const blurActiveInput = () => {
     const activeElement = document.activeElement as HTMLElement | null;
@@ -152,28 +260,42 @@ export const Scene: React.FC = () => {
     }
   };
 
-  const assemblyCenter = useMemo<[number, number, number]>(() => {
-    if (parts.length === 0) return [0, 0, 0];
-
-    const sum = parts.reduce(
-      (acc, part) => {
-        acc[0] += part.position[0];
-        acc[1] += part.position[1];
-        acc[2] += part.position[2];
-        return acc;
-      },
-      [0, 0, 0] as [number, number, number]
-    );
+  const hiddenGroups = useMemo(() => hiddenGroupIds(groups), [groups]);
 
-    return [sum[0] / parts.length, sum[1] / parts.length, sum[2] / parts.length];
-  }, [parts]);
+  const explodeOffsets = useMemo(() => computeExplodeOffsets(parts), [parts]);
+  const visibleParts = useMemo(
+    () => parts.filter((part) => !part.groupId || !hiddenGroups.has(part.groupId)),
+    [hiddenGroups, parts]
+  );
 
+  // Only the heat map reads the report here; the frame solve waits until a drag ends.
+  const transforming = useStore((state) => state.transformBaseParts !== null);
   const structuralReport = useMemo(
-    () => analyzeStructuralIntegrity(parts, { stressScenario, stressIntensity }),
-    [parts, structuralOverlayEnabled, stressIntensity, stressScenario]
+    () => (structuralOverlayEnabled
+      ? analyzeStructuralIntegrity(parts, {
+        stressScenario,
+        stressIntensity,
+        solver: transforming ? 'heuristic' : structuralSolver,
+        loadMarkers,
+      })
+      : null),
+    [loadMarkers, parts, stressIntensity, stressScenario, structuralOverlayEnabled, structuralSolver, transforming]
   );
 
-  const handleMissed = () => {
+  const compareParts = useMemo(
+    () => resolveCompareParts(snapshots, snapshotCompare, parts),
+    [parts, snapshotCompare, snapshots]
+  );
+  const compareDiff = useMemo(
+    () => (compareParts ? diffParts(compareParts.baseParts, compareParts.targetParts) : null),
+    [compareParts]
+  );
+
+  const [marquee, setMarquee] = useState<MarqueeShape | null>(null);
+
+  const handleMissed = (event: MouseEvent) => {
+    const { tool } = useStore.getState();
+    if (event.shiftKey || isPartSelectionSuppressed() || tool === 'measure' || tool === 'load') return;
     selectPart(null);
     setHoveredId(null);
   };
@@ -183,10 +305,36 @@ export const Scene: React.FC = () => {
 
   return (
     <div
-      className="w-full h-full bg-slate-100 touch-none select-none"
+      className="relative w-full h-full bg-slate-100 touch-none select-none"
       onPointerDownCapture={blurActiveInput}
       onContextMenu={(event) => event.preventDefault()}
     >
+      {marquee && (
+        <svg className="absolute inset-0 z-10 w-full h-full pointer-events-none">
+          <polygon
+            points={marqueePolygon(marquee).map(([x, y]) => `${x},${y}`).join(' ')}
+            fill="rgba(59, 130, 246, 0.12)"
+            stroke="#3b82f6"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+      <MeasureHint />
+      <LoadHint />
+      {compareParts && (
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 rounded-md border border-blue-200 bg-white/95 px-3 py-1.5 text-xs text-slate-700 shadow">
+          <span>
+            Comparing <strong>{compareParts.baseLabel}</strong> → <strong>{compareParts.targetLabel}</strong>
+          </span>
+          <button
+            onClick={() => setSnapshotCompare(null)}
+            className="px-2 py-0.5 rounded border border-slate-300 hover:bg-slate-100"
+          >
+            Exit
+          </button>
+        </div>
+      )}
       <Canvas
         shadows={shadowsEnabled}
         camera={{ position: [50, 50, 50], fov: 45 }}
@@ -194,6 +342,7 @@ export const Scene: React.FC = () => {
         style={{ touchAction: 'none', WebkitTouchCallout: 'none', WebkitUserSelect: 'none', userSelect: 'none' }}
       >
         <ControlsRecovery />
+        <SelectionMarquee onShapeChange={setMarquee} />
         <AutoCenterCamera parts={parts} focusToken={cameraFocusRequest} />
         <ambientLight intensity={ambientIntensity} />
         <directionalLight
@@ -233,18 +382,22 @@ export const Scene: React.FC = () => {
           </mesh>
         )}
 
-        {parts.map((part, index) => (
+        {compareParts && compareDiff ? (
+          <SnapshotCompareLayer targetParts={compareParts.targetParts} diff={compareDiff} />
+        ) : visibleParts.map((part) => (
           <PartObject
             key={part.id}
             data={part}
-            partIndex={index}
-            totalParts={parts.length}
-            assemblyCenter={assemblyCenter}
+            explodeOffset={explodeOffsets[part.id] ?? NO_EXPLODE_OFFSET}
             structuralOverlayEnabled={structuralOverlayEnabled}
-            structuralScore={structuralReport.partScores[part.id] ?? null}
-            structuralField={structuralReport.partFields[part.id] ?? null}
+            structuralScore={structuralReport?.partScores[part.id] ?? null}
+            structuralField={structuralReport?.partFields[part.id] ?? null}
           />
         ))}
+        {!compareParts && <ExplodeCallouts parts={visibleParts} offsets={explodeOffsets} />}
+
+        <MeasureLayer />
+        <LoadMarkerLayer />
 
         <OrbitControls makeDefault />
       </Canvas>
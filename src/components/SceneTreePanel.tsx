@@ -0,0 +1,306 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Eye,
+  EyeOff,
+  Folder,
+  Group,
+  MousePointer2,
+  PackagePlus,
+  Pencil,
+  Search,
+  Ungroup,
+} from 'lucide-react';
+import { clsx } from 'clsx';
+import { useStore } from '../store';
+import { PartData } from '../types';
+import { buildGroupTree, GroupTreeNode, hiddenGroupIds } from '../partGroups';
+import { captureComponent, saveLibraryComponent } from '../componentLibrary';
+
+const INDENT_PX = 14;
+
+type PartRowProps = {
+  part: PartData;
+  depth: number;
+  hidden: boolean;
+};
+
+const PartRow: React.FC<PartRowProps> = ({ part, depth, hidden }) => {
+  const { selectedId, selectedIds, selectPart, setHoveredId } = useStore();
+
+  return (
+    <button
+      onClick={(event) => selectPart(part.id, { additive: event.shiftKey })}
+      onMouseEnter={() => setHoveredId(part.id)}
+      onFocus={() => setHoveredId(part.id)}
+      onBlur={() => setHoveredId(null)}
+      disabled={hidden}
+      style={{ marginLeft: depth * INDENT_PX }}
+      className={clsx(
+        'flex items-center gap-3 p-2 rounded-md text-left text-sm transition-colors',
+        selectedIds.includes(part.id)
+          ? 'bg-blue-100 text-blue-800 border border-blue-200'
+          : 'hover:bg-slate-100 text-slate-700 border border-transparent',
+        hidden && 'opacity-40'
+      )}
+    >
+      <div className={clsx(
+        'w-8 h-8 rounded flex items-center justify-center shrink-0',
+        part.type === 'hardware' ? 'bg-slate-200 text-slate-500' : 'bg-orange-100 text-orange-600'
+      )}>
+        {part.type === 'hardware' ? (
+          <div className="w-2 h-2 rounded-full bg-current" />
+        ) : (
+          <Box size={14} />
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="font-medium truncate">{part.name}</div>
+        <div className="text-[10px] text-slate-500 truncate">
+          {part.position.map((n) => Math.round(n)).join(', ')}
+        </div>
+      </div>
+      {part.id === selectedId && <MousePointer2 size={14} className="opacity-50" />}
+    </button>
+  );
+};
+
+type GroupRowProps = {
+  node: GroupTreeNode;
+  hiddenGroups: Set<string>;
+  collapsed: Set<string>;
+  onToggleCollapsed: (groupId: string) => void;
+};
+
+const GroupRow: React.FC<GroupRowProps> = ({ node, hiddenGroups, collapsed, onToggleCollapsed }) => {
+  const {
+    parts,
+    groups,
+    selectedIds,
+    selectGroup,
+    renameGroup,
+    ungroupGroup,
+    setGroupHidden,
+    duplicateGroup,
+  } = useStore();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState('');
+  const { group, depth } = node;
+  const isCollapsed = collapsed.has(group.id);
+  const isHidden = hiddenGroups.has(group.id);
+  const isSelected = node.allParts.length > 0 && node.allParts.every((part) => selectedIds.includes(part.id));
+
+  const handleConfirmRename = () => {
+    renameGroup(group.id, renameValue);
+    setIsRenaming(false);
+  };
+
+  const handleSaveToLibrary = async () => {
+    const component = captureComponent(group.name, parts, groups, node.allParts.map((part) => part.id));
+    if (!component) return;
+    try {
+      await saveLibraryComponent(component);
+      alert(`Saved "${component.name}" to the component library.`);
+    } catch (error) {
+      console.error('Failed to save component', error);
+      alert('Could not save component.');
+    }
+  };
+
+  return (
+    <>
+      <div
+        style={{ marginLeft: depth * INDENT_PX }}
+        className={clsx(
+          'flex items-center gap-1 px-1 py-1.5 rounded-md text-sm border',
+          isSelected ? 'bg-blue-50 border-blue-200 text-blue-800' : 'border-transparent text-slate-700 hover:bg-slate-100',
+          isHidden && 'opacity-60'
+        )}
+      >
+        <button
+          onClick={() => onToggleCollapsed(group.id)}
+          className="p-0.5 rounded text-slate-500 hover:bg-slate-200"
+          title={isCollapsed ? 'Expand' : 'Collapse'}
+        >
+          {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+        </button>
+        {isRenaming ? (
+          <input
+            autoFocus
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onBlur={handleConfirmRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleConfirmRename();
+              } else if (e.key === 'Escape') {
+                setIsRenaming(false);
+              }
+            }}
+            className="flex-1 min-w-0 px-1.5 py-0.5 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        ) : (
+          <button
+            onClick={(event) => selectGroup(group.id, { additive: event.shiftKey })}
+            disabled={isHidden}
+            className="flex-1 min-w-0 flex items-center gap-1.5 text-left"
+            title="Select every part in this assembly"
+          >
+            <Folder size={14} className="shrink-0 text-amber-600" />
+            <span className="font-medium truncate">{group.name}</span>
+            <span className="text-[10px] text-slate-400 shrink-0">{node.allParts.length}</span>
+          </button>
+        )}
+        <button
+          onClick={() => {
+            setRenameValue(group.name);
+            setIsRenaming(true);
+          }}
+          className="p-1 rounded text-slate-500 hover:bg-slate-200"
+          title="Rename"
+        >
+          <Pencil size={12} />
+        </button>
+        <button
+          onClick={() => setGroupHidden(group.id, !group.hidden)}
+          className="p-1 rounded text-slate-500 hover:bg-slate-200"
+          title={group.hidden ? 'Show' : 'Hide'}
+        >
+          {group.hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+        </button>
+        <button
+          onClick={() => duplicateGroup(group.id)}
+          className="p-1 rounded text-slate-500 hover:bg-slate-200"
+          title="Duplicate assembly"
+        >
+          <Copy size={12} />
+        </button>
+        <button
+          onClick={() => void handleSaveToLibrary()}
+          className="p-1 rounded text-slate-500 hover:bg-slate-200"
+          title="Save to component library"
+        >
+          <PackagePlus size={12} />
+        </button>
+        <button
+          onClick={() => ungroupGroup(group.id)}
+          className="p-1 rounded text-slate-500 hover:bg-slate-200"
+          title="Ungroup"
+        >
+          <Ungroup size={12} />
+        </button>
+      </div>
+      {!isCollapsed && (
+        <>
+          {node.children.map((child) => (
+            <GroupRow
+              key={child.group.id}
+              node={child}
+              hiddenGroups={hiddenGroups}
+              collapsed={collapsed}
+              onToggleCollapsed={onToggleCollapsed}
+            />
+          ))}
+          {node.parts.map((part) => (
+            <PartRow key={part.id} part={part} depth={depth + 1} hidden={isHidden} />
+          ))}
+        </>
+      )}
+    </>
+  );
+};
+
+export const SceneTreePanel: React.FC = () => {
+  const { parts, groups, selectedIds, groupParts, setHoveredId } = useStore();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+
+  const tree = useMemo(() => buildGroupTree(groups, parts), [groups, parts]);
+  const hiddenGroups = useMemo(() => hiddenGroupIds(groups), [groups]);
+  const filteredParts = parts.filter((part) =>
+    part.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const toggleCollapsed = (groupId: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(groupId)) {
+        next.delete(groupId);
+      } else {
+        next.add(groupId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col" onMouseLeave={() => setHoveredId(null)}>
+      <div className="p-4 border-b border-slate-200 bg-slate-50 shrink-0">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2.5 top-2.5 text-slate-400" size={16} />
+            <input
+              type="text"
+              placeholder="Find part..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 text-sm border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={() => groupParts(selectedIds)}
+            disabled={selectedIds.length === 0}
+            className="px-2.5 text-xs rounded-md border border-slate-200 bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50 flex items-center gap-1.5 shrink-0"
+            title="Group the selected parts into an assembly"
+          >
+            <Group size={14} />
+            Group
+          </button>
+        </div>
+        <p className="text-[11px] text-slate-500 mt-2">
+          Hover an item to flash it green in the model. Click an assembly to select all of its parts.
+        </p>
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto p-2 space-y-1 flex flex-col">
+        {searchTerm ? (
+          filteredParts.length === 0 ? (
+            <div className="text-center py-8 text-slate-400 text-sm">
+              No parts found
+            </div>
+          ) : (
+            filteredParts.map((part) => (
+              <PartRow
+                key={part.id}
+                part={part}
+                depth={0}
+                hidden={Boolean(part.groupId && hiddenGroups.has(part.groupId))}
+              />
+            ))
+          )
+        ) : parts.length === 0 ? (
+          <div className="text-center py-8 text-slate-400 text-sm">
+            No parts found
+          </div>
+        ) : (
+          <>
+            {tree.roots.map((node) => (
+              <GroupRow
+                key={node.group.id}
+                node={node}
+                hiddenGroups={hiddenGroups}
+                collapsed={collapsed}
+                onToggleCollapsed={toggleCollapsed}
+              />
+            ))}
+            {tree.ungrouped.map((part) => (
+              <PartRow key={part.id} part={part} depth={0} hidden={false} />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useStore } from '../store';
+import { analyzeShelfSag, isHorizontalPart, SagLoadType } from '../shelfSag';
+import { formatDeflection, formatLength } from '../units';
+
+export const ShelfSagPanel: React.FC<{ partId: string }> = ({ partId }) => {
+  const { parts, updatePart, lengthUnit, fractionPrecision } = useStore();
+  const [loadType, setLoadType] = useState<SagLoadType>('uniform');
+  const part = parts.find((entry) => entry.id === partId);
+  const loadLb = part?.payloadLb ?? 0;
+  const [draft, setDraft] = useState(String(loadLb));
+
+  useEffect(() => {
+    setDraft(String(loadLb));
+  }, [loadLb, partId]);
+
+  const result = useMemo(
+    () => (part ? analyzeShelfSag(part, parts, loadLb, loadType) : null),
+    [loadLb, loadType, part, parts]
+  );
+
+  if (!part || !isHorizontalPart(part)) return null;
+
+  // The payload is saved with the part, so the tip-over check counts it too.
+  const commitPayload = () => {
+    const value = Math.max(0, Number(draft) || 0);
+    setDraft(String(value));
+    if (value === loadLb) return;
+    updatePart(part.id, { payloadLb: value > 0 ? value : undefined }, { label: `Set ${part.name} payload to ${value} lb` });
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+      <label className="text-xs font-semibold text-slate-600">Payload &amp; Shelf Sag</label>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commitPayload}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitPayload();
+            }}
+            className="w-full px-2 py-1.5 pr-8 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+            title="Payload stored on this part"
+          />
+          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[11px] text-slate-400">lb</span>
+        </div>
+        <select
+          value={loadType}
+          onChange={(e) => setLoadType(e.target.value as SagLoadType)}
+          className="px-2 py-1.5 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+        >
+          <option value="uniform">Spread evenly</option>
+          <option value="point">At one spot</option>
+        </select>
+      </div>
+      {!result ? (
+        <p className="text-[11px] text-slate-500">Nothing supports this part from below or at its ends.</p>
+      ) : result.spanIn <= 0 ? (
+        <p className="text-[11px] text-slate-500">Supported along its full length, so it won't sag.</p>
+      ) : (
+        <div
+          className={clsx(
+            'rounded-md border px-2 py-1.5 text-[11px] space-y-1',
+            result.exceedsLimit ? 'border-amber-200 bg-amber-50 text-amber-800' : 'border-emerald-200 bg-emerald-50 text-emerald-800'
+          )}
+        >
+          <div className="flex items-start gap-1.5 font-semibold">
+            {result.exceedsLimit
+              ? <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+              : <CheckCircle2 size={12} className="mt-0.5 shrink-0" />}
+            <span>
+              Sags {formatDeflection(result.deflectionIn, lengthUnit)}
+              {' '}({result.exceedsLimit ? 'over' : 'within'} the {formatDeflection(result.limitIn, lengthUnit)} limit)
+            </span>
+          </div>
+          <p>
+            {result.support === 'cantilever' ? 'Overhang' : 'Clear span'} of {formatLength(result.spanIn, lengthUnit, fractionPrecision)} in
+            {' '}{result.species.label}, plus {result.selfWeightLb.toFixed(1)} lb of its own weight.
+          </p>
+          {result.exceedsLimit && (
+            <p>Over 1/32" per foot of span shows by eye. Add a support, use thicker or stiffer stock, or add a stiffening edge strip.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
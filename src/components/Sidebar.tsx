@@ -2,11 +2,21 @@ import React, { useState, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { Vector3, Euler, Color } from 'three';
 import { useStore } from '../store';
-import { CutCorner, HardwareKind, PartData } from '../types';
-import { Plus, Ruler, Box, Move3d, RotateCw, ArrowDownToLine, Layers, Search, Settings2, Hammer, MousePointer2, Palette } from 'lucide-react';
+import { CutCorner, HardwareKind, PartData, StockDefinition } from '../types';
+import { Plus, Ruler, Box, Move3d, RotateCw, ArrowDownToLine, Layers, Settings2, Hammer, Palette, History } from 'lucide-react';
 import { clsx } from 'clsx';
-
-type LibraryCategory = 'lumber' | 'sheet' | 'hardware' | 'staining';
+import { RevisionsPanel } from './RevisionsPanel';
+import { SceneTreePanel } from './SceneTreePanel';
+import { ComponentLibraryPanel } from './ComponentLibraryPanel';
+import { FurnitureTemplatePanel, TemplateAssemblyEditor } from './FurnitureTemplatePanel';
+import { CustomStockEditor } from './CustomStockEditor';
+import { PartStockPanel } from './PartStockPanel';
+import { ShelfSagPanel } from './ShelfSagPanel';
+import { LengthInput } from './LengthInput';
+import { formatSize, lengthUnitName } from '../units';
+import { getSpecies } from '../species';
+
+type LibraryCategory = 'lumber' | 'sheet' | 'hardware' | 'staining' | 'assemblies' | 'templates' | 'custom';
 type PartTemplate = {
   name: string;
   dimensions: [number, number, number];
@@ -41,6 +51,17 @@ const COMMON_PARTS: PartTemplate[] = [
   { name: '#12 x 3" Wood Screw', dimensions: [0.216, 3, 0.216], type: 'hardware', category: 'hardware', hardwareKind: 'fastener', color: '#94a3b8' },
 ];
 
+// New parts start at the shortest stock length, lying the same way as the built-in stock.
+const customStockToPartTemplate = (stock: StockDefinition): PartTemplate => ({
+  name: stock.name,
+  dimensions: stock.type === 'sheet'
+    ? [stock.width, stock.thickness, stock.stockLengths[0]]
+    : [stock.thickness, stock.width, stock.stockLengths[0]],
+  type: stock.type,
+  category: stock.type,
+  color: stock.color,
+});
+
 const L_CUT_CORNERS: { value: CutCorner; label: string }[] = [
   { value: 'front-left', label: 'Front Left' },
   { value: 'front-right', label: 'Front Right' },
@@ -54,6 +75,9 @@ const LIBRARY_CATEGORY_META: { id: LibraryCategory | 'all'; label: string }[] =
   { id: 'sheet', label: 'Sheet Goods' },
   { id: 'hardware', label: 'Hardware' },
   { id: 'staining', label: 'Staining' },
+  { id: 'assemblies', label: 'Assemblies' },
+  { id: 'templates', label: 'Templates' },
+  { id: 'custom', label: 'My Stock' },
 ];
 
 const STAIN_PRESET_STORAGE_KEY = 'woodworker_active_stain_preset';
@@ -85,6 +109,7 @@ const getInitialStainPresetId = (): StainPreset['id'] => {
 };
 
 const getDefaultWoodColor = (part: PartData) => {
+  if (part.species) return getSpecies(part.species).color;
   const catalogColor = DEFAULT_PART_COLORS.get(part.name);
   if (catalogColor) return catalogColor;
   if (part.hardwareKind === 'dowel') return '#d4a373';
@@ -125,6 +150,8 @@ const getStainedPartColor = (part: PartData, preset: StainPreset) => {
   const nextLightness = clamp01(hsl.l + variation * 0.07 + shapeBias * 0.5 + (isSheet ? 0.02 : 0));
 
   color.setHSL(hsl.h, nextSaturation, nextLightness);
+  // Stain takes differently on each species, so a chosen species keeps some of its own tone.
+  if (part.species) color.lerp(new Color(getSpecies(part.species).color), 0.25);
   return `#${color.getHexString()}`;
 };
 
@@ -682,6 +709,7 @@ export const Sidebar: React.FC = () => {
     addPart,
     parts,
     selectedId,
+    selectedIds,
     updatePart,
     setTool,
     selectPart,
@@ -690,12 +718,15 @@ export const Sidebar: React.FC = () => {
     attachPartToHinge,
     detachPartFromHinge,
     setHingeAngle,
+    groupParts,
+    customStock,
+    lengthUnit,
+    fractionPrecision,
   } = useStore();
   const selectedPart = parts.find((p) => p.id === selectedId);
   const hingeParts = parts.filter((part) => part.hardwareKind === 'hinge');
-  const [activeTab, setActiveTab] = useState<'library' | 'scene' | 'properties'>('library');
+  const [activeTab, setActiveTab] = useState<'library' | 'scene' | 'revisions' | 'properties'>('library');
   const [libraryCategory, setLibraryCategory] = useState<LibraryCategory | 'all'>('all');
-  const [searchTerm, setSearchTerm] = useState('');
   const [combineMessage, setCombineMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
   const [activeStainPresetId, setActiveStainPresetId] = useState<StainPreset['id']>(getInitialStainPresetId);
 
@@ -715,17 +746,21 @@ export const Sidebar: React.FC = () => {
     window.localStorage.setItem(STAIN_PRESET_STORAGE_KEY, activeStainPresetId);
   }, [activeStainPresetId]);
 
-  const applyGlobalStainPreset = (presetId: StainPreset['id']) => {
+  const applyStainPreset = (presetId: StainPreset['id']) => {
     const preset = STAIN_PRESETS.find((item) => item.id === presetId);
     if (!preset) return;
 
+    const onlySelection = selectedIds.length > 0;
     setActiveStainPresetId(presetId);
     setParts(parts.map((part) => {
       if (!isWoodStainable(part)) return part;
+      if (onlySelection && !selectedIds.includes(part.id)) return part;
       const nextColor = getStainedPartColor(part, preset);
       if (nextColor === part.color) return part;
       return { ...part, color: nextColor };
-    }));
+    }), onlySelection
+      ? `Stain ${selectedIds.length} selected: ${preset.label}`
+      : `Stain all wood: ${preset.label}`);
   };
 
   const handleAddPart = (partTemplate: PartTemplate) => {
@@ -734,6 +769,7 @@ export const Sidebar: React.FC = () => {
     const newPart: PartData = {
       id: uuidv4(),
       name: partTemplate.name,
+      stock: partTemplate.type === 'hardware' ? undefined : partTemplate.name,
       type: partTemplate.type as PartData['type'],
       hardwareKind: partTemplate.hardwareKind as HardwareKind | undefined,
       dimensions: [...partTemplate.dimensions] as [number, number, number],
@@ -763,10 +799,8 @@ export const Sidebar: React.FC = () => {
     addPart(newPart);
   };
 
-  const updateDimension = (index: number, value: string) => {
-    if (!selectedPart) return;
-    const val = parseFloat(value);
-    if (Number.isNaN(val) || val <= 0) return;
+  const updateDimension = (index: number, val: number) => {
+    if (!selectedPart || val <= 0) return;
 
     const newDimensions = [...selectedPart.dimensions] as [number, number, number];
     newDimensions[index] = val;
@@ -802,10 +836,8 @@ export const Sidebar: React.FC = () => {
     updatePart(selectedPart.id, { dimensions: newDimensions });
   };
 
-  const updatePosition = (index: number, value: string) => {
+  const updatePosition = (index: number, val: number) => {
     if (!selectedPart) return;
-    const val = parseFloat(value);
-    if (Number.isNaN(val)) return;
 
     const newPosition = [...selectedPart.position] as [number, number, number];
     newPosition[index] = val;
@@ -916,10 +948,8 @@ export const Sidebar: React.FC = () => {
     });
   };
 
-  const updateLCutMeasure = (field: 'cutWidth' | 'cutDepth', value: string) => {
+  const updateLCutMeasure = (field: 'cutWidth' | 'cutDepth', numericValue: number) => {
     if (!selectedPart || selectedPart.type === 'hardware') return;
-    const numericValue = parseFloat(value);
-    if (Number.isNaN(numericValue)) return;
 
     const max = field === 'cutWidth' ? selectedPart.dimensions[0] : selectedPart.dimensions[2];
     const clamped = clampLCutValue(numericValue, max);
@@ -1016,7 +1046,7 @@ export const Sidebar: React.FC = () => {
     };
 
     const remainingParts = parts.filter((part) => !mergeIds.has(part.id));
-    setParts([...remainingParts, mergedPart]);
+    setParts([...remainingParts, mergedPart], `Combine ${mergeParts.length} ${selectedPart.name} pieces`);
     selectPart(mergedId);
     const profileLabel =
       combined.profile.type === 'l-cut'
@@ -1063,12 +1093,15 @@ export const Sidebar: React.FC = () => {
     });
   };
 
-  const filteredParts = parts.filter((p) =>
-    p.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
-
-  const visibleLibraryParts = COMMON_PARTS.filter((part) => {
-    if (libraryCategory === 'staining') return false;
+  const visibleLibraryParts = [...COMMON_PARTS, ...customStock.map(customStockToPartTemplate)].filter((part) => {
+    if (
+      libraryCategory === 'staining'
+      || libraryCategory === 'assemblies'
+      || libraryCategory === 'templates'
+      || libraryCategory === 'custom'
+    ) {
+      return false;
+    }
     if (libraryCategory === 'all') return true;
     return part.category === libraryCategory;
   });
@@ -1139,6 +1172,18 @@ export const Sidebar: React.FC = () => {
           <Layers size={16} />
           Scene
         </button>
+        <button
+          onClick={() => setActiveTab('revisions')}
+          className={clsx(
+            'flex-1 py-3 text-sm font-medium flex items-center justify-center gap-2 border-b-2 transition-colors',
+            activeTab === 'revisions'
+              ? 'border-blue-500 text-blue-600 bg-blue-50/50'
+              : 'border-transparent text-slate-500 hover:text-slate-700 hover:bg-slate-50'
+          )}
+        >
+          <History size={16} />
+          Revisions
+        </button>
         {selectedPart && (
           <button
             onClick={() => setActiveTab('properties')}
@@ -1183,7 +1228,9 @@ export const Sidebar: React.FC = () => {
               <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
                 <div className="flex items-center gap-2">
                   <Palette size={14} className="text-amber-700" />
-                  <h3 className="text-xs font-semibold text-slate-700">Staining (Apply to All Wood)</h3>
+                  <h3 className="text-xs font-semibold text-slate-700">
+                    Staining (Apply to {selectedIds.length > 0 ? `${selectedIds.length} Selected` : 'All Wood'})
+                  </h3>
                 </div>
                 <p className="text-[11px] text-slate-500">
                   Preview common stain tones across lumber/sheet pieces while keeping subtle color variation so surfaces do not look flat.
@@ -1192,14 +1239,14 @@ export const Sidebar: React.FC = () => {
                   {STAIN_PRESETS.map((preset) => (
                     <button
                       key={preset.id}
-                      onClick={() => applyGlobalStainPreset(preset.id)}
+                      onClick={() => applyStainPreset(preset.id)}
                       className={clsx(
                         'flex items-center gap-2 rounded-md border px-2 py-1.5 text-xs transition-colors',
                         activeStainPresetId === preset.id
                           ? 'border-blue-500 bg-blue-50 text-blue-700'
                           : 'border-slate-300 bg-white text-slate-700 hover:border-slate-400'
                       )}
-                      title={`Apply ${preset.label} stain to all wood`}
+                      title={`Apply ${preset.label} stain to ${selectedIds.length > 0 ? 'the selected wood' : 'all wood'}`}
                     >
                       <span
                         className="inline-block h-3.5 w-3.5 rounded-full border border-black/10"
@@ -1210,9 +1257,16 @@ export const Sidebar: React.FC = () => {
                   ))}
                 </div>
               </div>
+            ) : libraryCategory === 'assemblies' ? (
+              <ComponentLibraryPanel />
+            ) : libraryCategory === 'templates' ? (
+              <FurnitureTemplatePanel />
             ) : (
               <>
-                {visibleLibraryParts.length === 0 ? (
+                {libraryCategory === 'custom' && (
+                  <CustomStockEditor onAddStock={(stock) => handleAddPart(customStockToPartTemplate(stock))} />
+                )}
+                {visibleLibraryParts.length === 0 && libraryCategory !== 'custom' ? (
                   <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-500">
                     No parts in this category.
                   </div>
@@ -1226,7 +1280,7 @@ export const Sidebar: React.FC = () => {
                       <div>
                         <div className="font-medium text-slate-700">{part.name}</div>
                         <div className="text-xs text-slate-500">
-                          {part.dimensions[0]}" x {part.dimensions[1]}" x {part.dimensions[2]}"
+                          {formatSize(part.dimensions, lengthUnit, fractionPrecision)}
                         </div>
                       </div>
                       <div className="opacity-0 group-hover:opacity-100 text-blue-500">
@@ -1240,64 +1294,9 @@ export const Sidebar: React.FC = () => {
           </div>
         )}
 
-        {activeTab === 'scene' && (
-          <div className="flex-1 min-h-0 flex flex-col" onMouseLeave={() => setHoveredId(null)}>
-            <div className="p-4 border-b border-slate-200 bg-slate-50 shrink-0">
-              <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 text-slate-400" size={16} />
-                <input
-                  type="text"
-                  placeholder="Find part..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full pl-9 pr-3 py-2 text-sm border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-              <p className="text-[11px] text-slate-500 mt-2">Hover an item to flash it green in the model.</p>
-            </div>
-            <div className="flex-1 min-h-0 overflow-y-auto p-2 space-y-1">
-              {filteredParts.length === 0 ? (
-                <div className="text-center py-8 text-slate-400 text-sm">
-                  No parts found
-                </div>
-              ) : (
-                filteredParts.map((part) => (
-                  <button
-                    key={part.id}
-                    onClick={() => selectPart(part.id)}
-                    onMouseEnter={() => setHoveredId(part.id)}
-                    onFocus={() => setHoveredId(part.id)}
-                    onBlur={() => setHoveredId(null)}
-                    className={clsx(
-                      'w-full flex items-center gap-3 p-2 rounded-md text-left text-sm transition-colors',
-                      part.id === selectedId
-                        ? 'bg-blue-100 text-blue-800 border border-blue-200'
-                        : 'hover:bg-slate-100 text-slate-700 border border-transparent'
-                    )}
-                  >
-                    <div className={clsx(
-                      'w-8 h-8 rounded flex items-center justify-center shrink-0',
-                      part.type === 'hardware' ? 'bg-slate-200 text-slate-500' : 'bg-orange-100 text-orange-600'
-                    )}>
-                      {part.type === 'hardware' ? (
-                        <div className="w-2 h-2 rounded-full bg-current" />
-                      ) : (
-                        <Box size={14} />
-                      )}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="font-medium truncate">{part.name}</div>
-                      <div className="text-[10px] text-slate-500 truncate">
-                        {part.position.map((n) => Math.round(n)).join(', ')}
-                      </div>
-                    </div>
-                    {part.id === selectedId && <MousePointer2 size={14} className="opacity-50" />}
-                  </button>
-                ))
-              )}
-            </div>
-          </div>
-        )}
+        {activeTab === 'scene' && <SceneTreePanel />}
+
+        {activeTab === 'revisions' && <RevisionsPanel />}
 
         {activeTab === 'properties' && selectedPart && (
           <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-4">
@@ -1306,42 +1305,53 @@ export const Sidebar: React.FC = () => {
                 <Box size={20} />
                 Properties
               </h2>
+              {selectedIds.length > 1 && (
+                <div className="mt-1 flex items-start gap-2">
+                  <p className="flex-1 text-[11px] text-slate-500">
+                    {selectedIds.length} parts selected. Fields below edit {selectedPart.name}; move, rotate, duplicate, delete and stain apply to all.
+                  </p>
+                  <button
+                    onClick={() => groupParts(selectedIds)}
+                    className="px-2 py-1 text-[11px] rounded border border-slate-200 text-slate-700 hover:bg-slate-100 shrink-0"
+                    title="Group the selected parts into an assembly"
+                  >
+                    Group
+                  </button>
+                </div>
+              )}
             </div>
 
+            <TemplateAssemblyEditor partId={selectedPart.id} />
+
+            <PartStockPanel partId={selectedPart.id} />
+
+            <ShelfSagPanel partId={selectedPart.id} />
+
             <div>
               <label className="text-xs font-semibold text-slate-500 flex items-center gap-1 mb-1">
                 <Ruler size={14} />
-                Dimensions (inches)
+                Dimensions ({lengthUnitName(lengthUnit)})
               </label>
               <div className="grid grid-cols-3 gap-2">
                 <div>
                   <span className="text-[10px] text-slate-400">Width</span>
-                  <input
-                    type="number"
-                    step="0.1"
+                  <LengthInput
                     value={selectedPart.dimensions[0]}
-                    onChange={(e) => updateDimension(0, e.target.value)}
-                    className="w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                    onChange={(inches) => updateDimension(0, inches)}
                   />
                 </div>
                 <div>
                   <span className="text-[10px] text-slate-400">Height</span>
-                  <input
-                    type="number"
-                    step="0.1"
+                  <LengthInput
                     value={selectedPart.dimensions[1]}
-                    onChange={(e) => updateDimension(1, e.target.value)}
-                    className="w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                    onChange={(inches) => updateDimension(1, inches)}
                   />
                 </div>
                 <div>
                   <span className="text-[10px] text-slate-400">Length</span>
-                  <input
-                    type="number"
-                    step="0.1"
+                  <LengthInput
                     value={selectedPart.dimensions[2]}
-                    onChange={(e) => updateDimension(2, e.target.value)}
-                    className="w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                    onChange={(inches) => updateDimension(2, inches)}
                   />
                 </div>
               </div>
@@ -1373,22 +1383,18 @@ export const Sidebar: React.FC = () => {
                     <div className="grid grid-cols-2 gap-2">
                       <div>
                         <span className="text-[10px] text-slate-500">Cut Width</span>
-                        <input
-                          type="number"
-                          step="0.125"
-                          value={(currentProfile.cutWidth ?? selectedPart.dimensions[0] / 2).toFixed(3)}
-                          onChange={(e) => updateLCutMeasure('cutWidth', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                        <LengthInput
+                          value={currentProfile.cutWidth ?? selectedPart.dimensions[0] / 2}
+                          onChange={(inches) => updateLCutMeasure('cutWidth', inches)}
+                          className="bg-white"
                         />
                       </div>
                       <div>
                         <span className="text-[10px] text-slate-500">Cut Depth</span>
-                        <input
-                          type="number"
-                          step="0.125"
-                          value={(currentProfile.cutDepth ?? selectedPart.dimensions[2] / 2).toFixed(3)}
-                          onChange={(e) => updateLCutMeasure('cutDepth', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                        <LengthInput
+                          value={currentProfile.cutDepth ?? selectedPart.dimensions[2] / 2}
+                          onChange={(inches) => updateLCutMeasure('cutDepth', inches)}
+                          className="bg-white"
                         />
                       </div>
                     </div>
@@ -1589,37 +1595,28 @@ export const Sidebar: React.FC = () => {
             <div>
               <label className="text-xs font-semibold text-slate-500 flex items-center gap-1 mb-1">
                 <Move3d size={14} />
-                Position (inches)
+                Position ({lengthUnitName(lengthUnit)})
               </label>
               <div className="grid grid-cols-3 gap-2">
                 <div>
                   <span className="text-[10px] text-slate-400">X</span>
-                  <input
-                    type="number"
-                    step="0.5"
-                    value={selectedPart.position[0].toFixed(2)}
-                    onChange={(e) => updatePosition(0, e.target.value)}
-                    className="w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                  <LengthInput
+                    value={selectedPart.position[0]}
+                    onChange={(inches) => updatePosition(0, inches)}
                   />
                 </div>
                 <div>
                   <span className="text-[10px] text-slate-400">Y</span>
-                  <input
-                    type="number"
-                    step="0.5"
-                    value={selectedPart.position[1].toFixed(2)}
-                    onChange={(e) => updatePosition(1, e.target.value)}
-                    className="w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                  <LengthInput
+                    value={selectedPart.position[1]}
+                    onChange={(inches) => updatePosition(1, inches)}
                   />
                 </div>
                 <div>
                   <span className="text-[10px] text-slate-400">Z</span>
-                  <input
-                    type="number"
-                    step="0.5"
-                    value={selectedPart.position[2].toFixed(2)}
-                    onChange={(e) => updatePosition(2, e.target.value)}
-                    className="w-full px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                  <LengthInput
+                    value={selectedPart.position[2]}
+                    onChange={(inches) => updatePosition(2, inches)}
                   />
                 </div>
               </div>
@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { PartData } from '../types';
+import { footprintPoints } from '../cutOptimizer';
+import { PART_CHANGE_COLORS, PartChangeKind, SnapshotDiff } from '../snapshotDiff';
+
+const UNCHANGED_COLOR = '#cbd5e1';
+
+const buildGhostGeometry = (part: PartData) => {
+  const [width, height, depth] = part.dimensions;
+  if (part.type === 'hardware' || !part.profile || part.profile.type === 'rect' || part.profile.type === 'angled') {
+    return new THREE.BoxGeometry(width, height, depth);
+  }
+
+  const shape = new THREE.Shape(footprintPoints(part).map(([x, z]) => new THREE.Vector2(x, z)));
+  const extruded = new THREE.ExtrudeGeometry(shape, {
+    depth: height,
+    bevelEnabled: false,
+    steps: 1,
+    curveSegments: 1,
+  });
+  extruded.rotateX(-Math.PI / 2);
+  extruded.computeBoundingBox();
+  const center = new THREE.Vector3();
+  extruded.boundingBox?.getCenter(center);
+  extruded.translate(-center.x, -center.y, -center.z);
+  return extruded;
+};
+
+const GhostPart: React.FC<{ part: PartData; color: string; opacity: number; wireframe?: boolean }> = ({
+  part,
+  color,
+  opacity,
+  wireframe = false,
+}) => {
+  const geometry = useMemo(() => buildGhostGeometry(part), [part]);
+  const edges = useMemo(() => new THREE.EdgesGeometry(geometry), [geometry]);
+
+  useEffect(() => () => {
+    geometry.dispose();
+    edges.dispose();
+  }, [edges, geometry]);
+
+  return (
+    <group position={part.position} rotation={part.rotation}>
+      {!wireframe && (
+        <mesh raycast={() => null}>
+          <primitive object={geometry} attach="geometry" />
+          <meshStandardMaterial color={color} transparent opacity={opacity} depthWrite={opacity >= 1} roughness={0.7} />
+        </mesh>
+      )}
+      <lineSegments raycast={() => null}>
+        <primitive object={edges} attach="geometry" />
+        <lineBasicMaterial color={color} transparent opacity={Math.min(1, opacity + 0.3)} />
+      </lineSegments>
+    </group>
+  );
+};
+
+type SnapshotCompareLayerProps = {
+  targetParts: PartData[];
+  diff: SnapshotDiff;
+};
+
+// Renders the target revision colored by change, plus outlines where removed and moved parts used to be.
+export const SnapshotCompareLayer: React.FC<SnapshotCompareLayerProps> = ({ targetParts, diff }) => {
+  const colorFor = (kind: PartChangeKind | undefined) => (kind ? PART_CHANGE_COLORS[kind] : UNCHANGED_COLOR);
+
+  return (
+    <group>
+      {targetParts.map((part) => {
+        const kind = diff.changeById[part.id];
+        return (
+          <GhostPart
+            key={part.id}
+            part={part}
+            color={colorFor(kind)}
+            opacity={kind ? 0.9 : 0.35}
+          />
+        );
+      })}
+      {diff.changes.map((change) => {
+        if (change.kind === 'removed') {
+          return (
+            <GhostPart
+              key={`removed-${change.part.id}`}
+              part={change.part}
+              color={PART_CHANGE_COLORS.removed}
+              opacity={0.3}
+            />
+          );
+        }
+        if (change.previous && (change.kind === 'moved' || change.kind === 'resized')) {
+          return (
+            <GhostPart
+              key={`previous-${change.part.id}`}
+              part={change.previous}
+              color={PART_CHANGE_COLORS[change.kind]}
+              opacity={0.5}
+              wireframe
+            />
+          );
+        }
+        return null;
+      })}
+    </group>
+  );
+};
@@ -1,10 +1,26 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useStore } from '../store';
-import { MousePointer2, Move, RotateCw, Trash2, RotateCcw, Copy, Magnet, Download, Upload, Grid, ChevronDown, ChevronUp, LocateFixed, Wrench, Check, Hammer, X, Scissors, Undo2, Redo2, Sun, Cpu, Shield, ActivitySquare, Gauge, Layers, Maximize2, ArrowDown, MoveHorizontal, Zap } from 'lucide-react';
-import { CutCorner, PartData } from '../types';
+import { MousePointer2, Move, RotateCw, Trash2, RotateCcw, Copy, Magnet, Download, Upload, FolderOpen, Grid, ChevronDown, ChevronUp, LocateFixed, Wrench, Check, Hammer, X, Scissors, Undo2, Redo2, Sun, Cpu, Shield, ActivitySquare, Gauge, Layers, Maximize2, ArrowDown, MoveHorizontal, Zap, Ruler, RulerDimensionLine, Anchor, Weight } from 'lucide-react';
+import { CutCorner, LengthUnit, PartData } from '../types';
 import * as THREE from 'three';
 import { analyzeStructuralIntegrity, STRESS_SCENARIO_OPTIONS } from '../structuralAnalysis';
 import type { StressScenario } from '../structuralAnalysis';
+import { buildProjectPayload, formatImportReport, parseProjectFile } from '../projectSchema';
+import { ProjectLibraryModal } from './ProjectLibraryModal';
+import { computeExplodeOffsets } from '../explodedView';
+import { buildExplodedViewPdf, downloadExplodedViewPng } from '../shopDrawings';
+import { cutListNumbers } from '../cutList';
+import { hiddenGroupIds } from '../partGroups';
+import {
+  formatArea,
+  formatDeflection,
+  formatLength,
+  formatVolume,
+  formatWeight,
+  FRACTION_PRECISIONS,
+  LENGTH_UNITS,
+  normalizeFractionPrecision,
+} from '../units';
 
 const sanitizeFilename = (value: string) => {
   const trimmed = value.trim();
@@ -589,14 +605,55 @@ const analyzeTrimmedFootprint = (selectedPart: PartData, cutterParts: PartData[]
   };
 };
 
+const trimPartAgainst = (
+  target: PartData,
+  cutterParts: PartData[]
+): { ok: true; part: PartData } | { ok: false; message: string } => {
+  const trimmed = analyzeTrimmedFootprint(target, cutterParts);
+  if (!trimmed.ok) {
+    return { ok: false, message: trimmed.message };
+  }
+
+  const newWidth = trimmed.bounds.xmax - trimmed.bounds.xmin;
+  const newDepth = trimmed.bounds.zmax - trimmed.bounds.zmin;
+  if (newWidth <= OVERLAP_EPS || newDepth <= OVERLAP_EPS) {
+    return { ok: false, message: 'Trim result is too small to keep. No changes were applied.' };
+  }
+
+  const targetFrame = buildOrientedFrame(target);
+  const localCenter = new THREE.Vector3(
+    (trimmed.bounds.xmin + trimmed.bounds.xmax) / 2,
+    0,
+    (trimmed.bounds.zmin + trimmed.bounds.zmax) / 2
+  );
+  const worldCenter = targetFrame.center.clone()
+    .add(targetFrame.axes[0].clone().multiplyScalar(localCenter.x))
+    .add(targetFrame.axes[2].clone().multiplyScalar(localCenter.z));
+
+  return {
+    ok: true,
+    part: {
+      ...target,
+      dimensions: [newWidth, target.dimensions[1], newDepth],
+      position: [
+        worldCenter.x,
+        worldCenter.y,
+        worldCenter.z,
+      ],
+      profile: trimmed.profile,
+    },
+  };
+};
+
 export const Toolbar: React.FC = () => {
   const {
     tool,
     setTool,
-    removePart,
+    removeParts,
     selectedId,
+    selectedIds,
     resetScene,
-    duplicatePart,
+    duplicateParts,
     setHingeAngle,
     snapEnabled,
     toggleSnap,
@@ -608,6 +665,7 @@ export const Toolbar: React.FC = () => {
     pastParts,
     futureParts,
     setParts,
+    loadProject,
     undo,
     redo,
     floorEnabled,
@@ -620,18 +678,34 @@ export const Toolbar: React.FC = () => {
     setStressScenario,
     stressIntensity,
     setStressIntensity,
+    structuralSolver,
+    setStructuralSolver,
     requestCameraFocus,
     explodeFactor,
     setExplodeFactor,
     autoScrewParts,
     selectPart,
     setHoveredId,
+    cutAllowances,
+    lengthUnit,
+    setLengthUnit,
+    fractionPrecision,
+    setFractionPrecision,
+    priceBook,
+    projectName,
+    setProjectName,
+    snapshots,
+    measurements,
+    annotations,
+    loadMarkers,
+    groups,
   } = useStore();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const specialMenuRef = useRef<HTMLDivElement>(null);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [exportName, setExportName] = useState('wood-project');
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [isControlPanelOpen, setIsControlPanelOpen] = useState(false);
   const [isControlPanelMinimized, setIsControlPanelMinimized] = useState(false);
   const [isSpecialMenuOpen, setIsSpecialMenuOpen] = useState(false);
@@ -642,9 +716,17 @@ export const Toolbar: React.FC = () => {
   const autoScrewFirstPart = autoScrewFirstId ? parts.find((part) => part.id === autoScrewFirstId) : null;
   const canUndo = pastParts.length > 0;
   const canRedo = futureParts.length > 0;
+  // The report only shows in the control panel; a closed panel analyzes nothing, and the frame
+  // solve waits until a drag ends.
+  const transforming = useStore((state) => state.transformBaseParts !== null);
   const structuralReport = useMemo(
-    () => analyzeStructuralIntegrity(parts, { stressScenario, stressIntensity }),
-    [parts, stressIntensity, stressScenario, structuralOverlayEnabled]
+    () => analyzeStructuralIntegrity(isControlPanelOpen ? parts : [], {
+      stressScenario,
+      stressIntensity,
+      solver: transforming ? 'heuristic' : structuralSolver,
+      loadMarkers,
+    }),
+    [isControlPanelOpen, loadMarkers, parts, stressIntensity, stressScenario, structuralSolver, transforming]
   );
   const structuralPercent = Math.round(structuralReport.overallScore * 100);
   const stressPercent = Math.round(structuralReport.stress.score * 100);
@@ -653,6 +735,13 @@ export const Toolbar: React.FC = () => {
     : structuralReport.stress.score >= 0.65
       ? 'text-amber-300'
       : 'text-rose-300';
+  const frameSolution = structuralReport.frame;
+  const frameSkipped = structuralReport.frameSkipped?.skipped ?? null;
+  const stability = structuralReport.stability;
+  const frameCriticalPart = frameSolution?.criticalPartId
+    ? parts.find((part) => part.id === frameSolution.criticalPartId)
+    : undefined;
+  const droppedLoadParts = parts.filter((part) => frameSolution?.droppedLoadPartIds.includes(part.id));
   const activeStressRecommendation = stressScenario === 'baseline'
     ? structuralReport.recommendation
     : structuralReport.stress.recommendation;
@@ -683,26 +772,26 @@ export const Toolbar: React.FC = () => {
   const hingeAngleDeg = selectedHinge ? ((selectedHinge.hinge?.angle ?? 0) * 180) / Math.PI : 0;
 
   const handleDelete = () => {
-    if (selectedId) {
-      removePart(selectedId);
+    if (selectedIds.length > 0) {
+      removeParts(selectedIds);
     }
   };
 
   const handleDuplicate = () => {
-    if (!selectedId) return;
-    const sourceId = selectedId;
+    if (selectedIds.length === 0) return;
+    const sourceIds = selectedIds;
     if (tool === 'move' || tool === 'rotate') {
       const restoreTool = tool;
       setTool('select');
       window.requestAnimationFrame(() => {
-        duplicatePart(sourceId);
+        duplicateParts(sourceIds);
         window.requestAnimationFrame(() => {
           setTool(restoreTool);
         });
       });
       return;
     }
-    duplicatePart(sourceId);
+    duplicateParts(sourceIds);
   };
 
   const handleReset = () => {
@@ -788,7 +877,20 @@ export const Toolbar: React.FC = () => {
     selectPart(null);
   }, [autoScrewFirstId, autoScrewParts, parts, selectPart, selectedId, tool]);
 
+  const handleExportExplodedView = (format: 'png' | 'pdf') => {
+    const hiddenGroups = hiddenGroupIds(groups);
+    const visibleParts = parts.filter((part) => !part.groupId || !hiddenGroups.has(part.groupId));
+    const offsets = computeExplodeOffsets(parts);
+    const numbers = cutListNumbers(parts);
+    if (format === 'png') {
+      downloadExplodedViewPng(visibleParts, numbers, offsets, explodeFactor, projectName);
+      return;
+    }
+    buildExplodedViewPdf(visibleParts, numbers, offsets, explodeFactor, projectName);
+  };
+
   const handleOpenExport = () => {
+    setExportName(projectName);
     setIsExportModalOpen(true);
   };
 
@@ -812,66 +914,57 @@ export const Toolbar: React.FC = () => {
   };
 
   const handleTrimOverlaps = () => {
-    if (!selectedPart) {
+    const targets = parts.filter((part) => selectedIds.includes(part.id));
+    if (targets.length === 0) {
       alert('Select a wood or sheet piece first.');
       return;
     }
 
-    if (selectedPart.type === 'hardware') {
+    const woodTargets = targets.filter((part) => part.type !== 'hardware');
+    if (woodTargets.length === 0) {
       alert('Trim Overlaps only works on wood or sheet pieces.');
       return;
     }
 
-    const cutterParts = parts.filter((part) => {
-      if (part.id === selectedPart.id) return false;
-      if (part.type === 'hardware') return false;
-      return true;
+    const trimmedById = new Map<string, PartData>();
+    const failures: string[] = [];
+    woodTargets.forEach((target) => {
+      const cutterParts = parts.filter((part) => part.id !== target.id && part.type !== 'hardware');
+      const result = trimPartAgainst(target, cutterParts);
+      if (result.ok) {
+        trimmedById.set(target.id, result.part);
+      } else {
+        failures.push(woodTargets.length === 1 ? result.message : `${target.name}: ${result.message}`);
+      }
     });
 
-    const trimmed = analyzeTrimmedFootprint(selectedPart, cutterParts);
-    if (!trimmed.ok) {
-      alert(trimmed.message);
-      return;
+    if (trimmedById.size > 0) {
+      const label = trimmedById.size === 1
+        ? `Trim overlaps: ${woodTargets.find((part) => trimmedById.has(part.id))?.name}`
+        : `Trim overlaps: ${trimmedById.size} parts`;
+      setParts(parts.map((part) => trimmedById.get(part.id) ?? part), label);
+      setIsSpecialMenuOpen(false);
     }
-
-    const newWidth = trimmed.bounds.xmax - trimmed.bounds.xmin;
-    const newDepth = trimmed.bounds.zmax - trimmed.bounds.zmin;
-    if (newWidth <= OVERLAP_EPS || newDepth <= OVERLAP_EPS) {
-      alert('Trim result is too small to keep. No changes were applied.');
-      return;
+    if (failures.length > 0) {
+      alert(failures.join('\n'));
     }
-
-    const selectedFrame = buildOrientedFrame(selectedPart);
-    const localCenter = new THREE.Vector3(
-      (trimmed.bounds.xmin + trimmed.bounds.xmax) / 2,
-      0,
-      (trimmed.bounds.zmin + trimmed.bounds.zmax) / 2
-    );
-    const worldCenter = selectedFrame.center.clone()
-      .add(selectedFrame.axes[0].clone().multiplyScalar(localCenter.x))
-      .add(selectedFrame.axes[2].clone().multiplyScalar(localCenter.z));
-
-    const updatedPart: PartData = {
-      ...selectedPart,
-      dimensions: [newWidth, selectedPart.dimensions[1], newDepth],
-      position: [
-        worldCenter.x,
-        worldCenter.y,
-        worldCenter.z,
-      ],
-      profile: trimmed.profile,
-    };
-
-    setParts(parts.map((part) => (part.id === selectedPart.id ? updatedPart : part)));
-    setIsSpecialMenuOpen(false);
   };
 
   const handleConfirmExport = () => {
-    const payload = {
+    setProjectName(exportName);
+    const payload = buildProjectPayload({
       projectName: exportName.trim() || 'wood-design',
-      exportedAt: new Date().toISOString(),
       parts,
-    };
+      groups,
+      cutAllowances,
+      lengthUnit,
+      fractionPrecision,
+      priceBook,
+      snapshots,
+      measurements,
+      annotations,
+      loadMarkers,
+    });
 
     const data = JSON.stringify(payload, null, 2);
     const blob = new Blob([data], { type: 'application/json' });
@@ -891,17 +984,17 @@ export const Toolbar: React.FC = () => {
       reader.onload = (e) => {
         try {
           const content = e.target?.result as string;
-          const parsed = JSON.parse(content);
-          const importedParts = Array.isArray(parsed) ? parsed : parsed?.parts;
+          const result = parseProjectFile(JSON.parse(content));
 
-          if (Array.isArray(importedParts)) {
-            setParts(importedParts);
+          if (result.ok) {
+            loadProject(result.project);
             requestCameraFocus();
-            if (typeof parsed?.projectName === 'string' && parsed.projectName.trim()) {
-              setExportName(parsed.projectName.trim());
+            const report = formatImportReport(result);
+            if (report) {
+              alert(`Project loaded with issues.\n\n${report}`);
             }
           } else {
-            alert('Invalid file format: expected parts array');
+            alert(`Could not load project.\n\n${result.message}`);
           }
         } catch (error) {
           console.error('Failed to parse file', error);
@@ -917,6 +1010,8 @@ export const Toolbar: React.FC = () => {
     { id: 'select', icon: MousePointer2, label: 'Select' },
     { id: 'move', icon: Move, label: 'Move' },
     { id: 'rotate', icon: RotateCw, label: 'Rotate' },
+    { id: 'measure', icon: RulerDimensionLine, label: 'Measure' },
+    { id: 'load', icon: Weight, label: 'Load' },
   ] as const;
 
   return (
@@ -948,7 +1043,7 @@ export const Toolbar: React.FC = () => {
               ? 'text-slate-300 cursor-not-allowed'
               : 'text-red-600 hover:bg-red-50'
           }`}
-          title="Delete Selected"
+          title={selectedIds.length > 1 ? `Delete ${selectedIds.length} Selected` : 'Delete Selected'}
         >
           <Trash2 size={18} />
         </button>
@@ -961,7 +1056,7 @@ export const Toolbar: React.FC = () => {
               ? 'text-slate-300 cursor-not-allowed'
               : 'text-blue-600 hover:bg-blue-50'
           }`}
-          title="Duplicate Selected"
+          title={selectedIds.length > 1 ? `Duplicate ${selectedIds.length} Selected` : 'Duplicate Selected'}
         >
           <Copy size={18} />
         </button>
@@ -975,7 +1070,7 @@ export const Toolbar: React.FC = () => {
                 ? 'text-slate-600 hover:bg-slate-100'
                 : 'text-slate-300 cursor-not-allowed'
             }`}
-            title="Undo"
+            title={canUndo ? `Undo ${pastParts[pastParts.length - 1].label}` : 'Undo'}
           >
             <Undo2 size={18} />
           </button>
@@ -988,7 +1083,7 @@ export const Toolbar: React.FC = () => {
                 ? 'text-slate-600 hover:bg-slate-100'
                 : 'text-slate-300 cursor-not-allowed'
             }`}
-            title="Redo"
+            title={canRedo ? `Redo ${futureParts[0].label}` : 'Redo'}
           >
             <Redo2 size={18} />
           </button>
@@ -1131,6 +1226,20 @@ export const Toolbar: React.FC = () => {
                         <span>0.00 NORMAL</span>
                         <span>1.00 FULL EXPLODE</span>
                       </div>
+                      <div className="mt-1.5 flex items-center gap-1">
+                        <span className="flex-1 text-[10px] text-cyan-100/70">Export with callouts</span>
+                        {(['png', 'pdf'] as const).map((format) => (
+                          <button
+                            key={format}
+                            onClick={() => handleExportExplodedView(format)}
+                            disabled={explodeFactor < 0.05 || parts.every((part) => part.type === 'hardware')}
+                            title={explodeFactor < 0.05 ? 'Move the slider to explode the assembly first' : `Download the exploded view as ${format.toUpperCase()}`}
+                            className="rounded px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.12em] bg-slate-800 text-slate-300 border border-slate-700 hover:text-cyan-200 disabled:opacity-40 disabled:hover:text-slate-300"
+                          >
+                            {format}
+                          </button>
+                        ))}
+                      </div>
                     </div>
                   </div>
 
@@ -1210,11 +1319,56 @@ export const Toolbar: React.FC = () => {
                         step={0.01}
                         value={stressIntensity}
                         onChange={(e) => setStressIntensity(parseFloat(e.target.value))}
-                        className="mt-1 w-full h-2 rounded-lg appearance-none cursor-pointer bg-slate-800 accent-cyan-400"
+                        disabled={structuralReport.stress.placedLoadCount > 0}
+                        className="mt-1 w-full h-2 rounded-lg appearance-none cursor-pointer bg-slate-800 accent-cyan-400 disabled:cursor-not-allowed disabled:opacity-40"
                         aria-label="Stress force intensity"
+                        title={structuralReport.stress.placedLoadCount > 0 ? 'Placed loads are set in pounds on each marker' : undefined}
                       />
                     </div>
 
+                    <div className="mt-2 grid grid-cols-2 gap-1.5">
+                      {([
+                        { id: 'heuristic', label: 'Quick Estimate', title: 'Score parts from support, contact and fastener heuristics' },
+                        { id: 'frame', label: 'Frame Solver', title: 'Solve lumber as a 3D frame and score members by stress utilization' },
+                      ] as const).map((option) => (
+                        <button
+                          key={option.id}
+                          onClick={() => setStructuralSolver(option.id)}
+                          className={`rounded border px-2 py-1 text-[10px] transition-colors ${
+                            structuralSolver === option.id
+                              ? 'border-cyan-300/70 bg-cyan-500/20 text-cyan-100'
+                              : 'border-slate-700 bg-slate-900/80 text-slate-300 hover:border-cyan-400/40 hover:text-cyan-100'
+                          }`}
+                          title={option.title}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    {structuralSolver === 'frame' && (
+                      <div className="mt-1 text-[10px] text-cyan-100/80">
+                        {frameSolution
+                          ? `${frameSolution.memberCount} members, ${frameSolution.jointCount} joints. Peak ${Math.round(frameSolution.maxUtilization * 100)}% of allowable stress${frameCriticalPart ? ` in ${frameCriticalPart.name}` : ''}, max deflection ${formatDeflection(frameSolution.maxDeflectionIn, lengthUnit)}.${frameSolution.unstablePartIds.length > 0 ? ` ${frameSolution.unstablePartIds.length} member${frameSolution.unstablePartIds.length === 1 ? ' is' : 's are'} free to move and needs bracing or fasteners.` : ''}`
+                          : frameSkipped === 'no-lumber'
+                            ? 'No lumber frame to solve, so scores are quick estimates.'
+                            : frameSkipped === 'unsolvable'
+                              ? 'The frame would not solve, so scores are quick estimates.'
+                              : frameSkipped
+                                ? null
+                                : 'The frame solve pauses while a part is moving, so scores are quick estimates.'}
+                      </div>
+                    )}
+                    {structuralSolver === 'frame' && frameSkipped === 'too-large' && (
+                      <div className="mt-1 text-[10px] text-amber-300">
+                        This frame is too large for the solver ({structuralReport.frameSkipped?.nodeCount} joints and member ends), so scores are quick estimates.
+                      </div>
+                    )}
+                    {structuralSolver === 'frame' && droppedLoadParts.length > 0 && (
+                      <div className="mt-1 text-[10px] text-amber-300">
+                        No lumber carries the placed load on {droppedLoadParts.map((part) => part.name).join(', ')}, so the frame solve leaves it out and {droppedLoadParts.length === 1 ? 'that part keeps its' : 'those parts keep their'} quick-estimate score.
+                      </div>
+                    )}
+
                     <div className="mt-2 h-1.5 w-full rounded-full bg-slate-800 overflow-hidden">
                       <div
                         className="h-full bg-gradient-to-r from-rose-500 via-amber-400 to-cyan-400 transition-[width] duration-200"
@@ -1262,11 +1416,11 @@ export const Toolbar: React.FC = () => {
                       </div>
                       <div className="rounded border border-slate-700 bg-slate-900/80 px-2 py-1.5">
                         <div className="text-[10px] text-slate-400">Est. Weight</div>
-                        <div className="text-sm font-semibold text-cyan-100">{structuralReport.stats.estimatedWeightLb.toFixed(1)} lb</div>
+                        <div className="text-sm font-semibold text-cyan-100">{formatWeight(structuralReport.stats.estimatedWeightLb, lengthUnit)}</div>
                       </div>
                       <div className="rounded border border-slate-700 bg-slate-900/80 px-2 py-1.5">
                         <div className="text-[10px] text-slate-400">Footprint</div>
-                        <div className="text-sm font-semibold text-cyan-100">{structuralReport.stats.footprintSqFt.toFixed(2)} ft^2</div>
+                        <div className="text-sm font-semibold text-cyan-100">{formatArea(structuralReport.stats.footprintSqFt, lengthUnit)}</div>
                       </div>
                       <div className="rounded border border-slate-700 bg-slate-900/80 px-2 py-1.5">
                         <div className="inline-flex items-center gap-1 text-[10px] text-slate-400"><Layers size={10} />Groups</div>
@@ -1274,13 +1428,51 @@ export const Toolbar: React.FC = () => {
                       </div>
                       <div className="rounded border border-slate-700 bg-slate-900/80 px-2 py-1.5">
                         <div className="inline-flex items-center gap-1 text-[10px] text-slate-400"><Gauge size={10} />Max Span</div>
-                        <div className="text-sm font-semibold text-cyan-100">{structuralReport.stats.maxSpanIn.toFixed(1)} in</div>
+                        <div className="text-sm font-semibold text-cyan-100">{formatLength(structuralReport.stats.maxSpanIn, lengthUnit, fractionPrecision)}</div>
                       </div>
                     </div>
                     <div className="mt-2 grid grid-cols-2 gap-2 text-[10px] text-cyan-100/80">
                       <div>Support Coverage: {(structuralReport.stats.supportCoverage * 100).toFixed(0)}%</div>
                       <div>Symmetry Index: {(structuralReport.stats.symmetryScore * 100).toFixed(0)}%</div>
                       <div>Fastener Engagement: {(structuralReport.stats.fastenerEngagement * 100).toFixed(0)}%</div>
+                      <div>Wood Volume: {formatVolume(structuralReport.stats.totalVolumeCuIn, lengthUnit)}</div>
+                    </div>
+                  </div>
+
+                  <div className="rounded-lg border border-cyan-300/25 bg-slate-900/75 p-1.5">
+                    <div className="flex items-center justify-between">
+                      <div className="inline-flex items-center gap-1.5 text-[10px] uppercase tracking-[0.2em] text-cyan-300/90">
+                        <Anchor size={12} />
+                        Tip-Over Check
+                      </div>
+                      <span
+                        className={`rounded px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.12em] border ${
+                          stability.stable
+                            ? 'bg-emerald-500/20 text-emerald-200 border-emerald-300/40'
+                            : 'bg-rose-500/20 text-rose-200 border-rose-300/40'
+                        }`}
+                      >
+                        {stability.stable ? 'Pass' : 'Fail'}
+                      </span>
+                    </div>
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                      <div className="rounded border border-slate-700 bg-slate-900/80 px-2 py-1.5">
+                        <div className="text-[10px] text-slate-400">Tipping Force</div>
+                        <div className="text-sm font-semibold text-cyan-100">
+                          {stability.supportPolygon.length >= 3 ? formatWeight(stability.tipForceLb, lengthUnit) : '-'}
+                        </div>
+                      </div>
+                      <div className="rounded border border-slate-700 bg-slate-900/80 px-2 py-1.5">
+                        <div className="text-[10px] text-slate-400">Center of Mass</div>
+                        <div className="text-sm font-semibold text-cyan-100">{formatLength(stability.centerOfMassHeightIn, lengthUnit, fractionPrecision)} up</div>
+                      </div>
+                    </div>
+                    <div className="mt-2 grid grid-cols-2 gap-2 text-[10px] text-cyan-100/80">
+                      <div>Lean Before Tipping: {stability.tipAngleDeg.toFixed(0)}°</div>
+                      <div>Payload: {formatWeight(stability.payloadLb, lengthUnit)}</div>
+                    </div>
+                    <div className={`mt-2 text-[11px] ${stability.anchorRecommended ? 'text-amber-300' : 'text-cyan-100/80'}`}>
+                      {stability.message}
                     </div>
                   </div>
                 </div>
@@ -1413,6 +1605,43 @@ export const Toolbar: React.FC = () => {
                 {shadowsEnabled && <Check size={14} className="text-blue-600" />}
               </button>
 
+              <label
+                className="w-full flex items-center justify-between gap-2 px-2.5 py-2 text-sm rounded-md text-slate-700 hover:bg-slate-100 transition-colors"
+                title="Units for every dimension input, cut list and export. Saved with the project."
+              >
+                <span className="flex items-center gap-2">
+                  <Ruler size={16} />
+                  Units
+                </span>
+                <select
+                  value={lengthUnit}
+                  onChange={(e) => setLengthUnit(e.target.value as LengthUnit)}
+                  className="px-1.5 py-1 text-xs border rounded bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  {LENGTH_UNITS.map((unit) => (
+                    <option key={unit.id} value={unit.id}>{unit.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              {lengthUnit === 'frac-in' && (
+                <label
+                  className="w-full flex items-center justify-between gap-2 px-2.5 py-2 text-sm rounded-md text-slate-700 hover:bg-slate-100 transition-colors"
+                  title="Smallest fraction shown. Lengths between tick marks are rounded and flagged."
+                >
+                  <span className="pl-6">Precision</span>
+                  <select
+                    value={fractionPrecision}
+                    onChange={(e) => setFractionPrecision(normalizeFractionPrecision(Number(e.target.value)))}
+                    className="px-1.5 py-1 text-xs border rounded bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    {FRACTION_PRECISIONS.map((precision) => (
+                      <option key={precision.id} value={precision.id}>{precision.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
               <button
                 onClick={handleReset}
                 className="w-full flex items-center justify-between px-2.5 py-2 text-left text-sm rounded-md text-red-600 hover:bg-red-50 transition-colors"
@@ -1429,6 +1658,14 @@ export const Toolbar: React.FC = () => {
         </div>
 
         <div className="inline-flex items-center gap-0.5 sm:gap-1 shrink-0 whitespace-nowrap">
+          <button
+            onClick={() => setIsLibraryOpen(true)}
+            className="p-1.5 sm:p-2 rounded-md text-slate-600 hover:bg-slate-100 transition-colors"
+            title="Projects"
+          >
+            <FolderOpen size={18} />
+          </button>
+
           <button
             onClick={handleOpenExport}
             className="p-1.5 sm:p-2 rounded-md text-slate-600 hover:bg-slate-100 transition-colors"
@@ -1578,6 +1815,8 @@ export const Toolbar: React.FC = () => {
           </div>
         </div>
       )}
+
+      {isLibraryOpen && <ProjectLibraryModal onClose={() => setIsLibraryOpen(false)} />}
     </>
   );
 };
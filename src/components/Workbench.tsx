@@ -1,18 +1,60 @@
 import { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
 import { PanelLeft, PanelRight, X } from 'lucide-react';
 import { Scene } from './Scene';
 import { Sidebar } from './Sidebar';
 import { Toolbar } from './Toolbar';
 import { BOM } from './BOM';
 import { useStore } from '../store';
+import { buildProjectPayload, formatImportReport, parseProjectFile } from '../projectSchema';
+import {
+  getLastOpenedProjectId,
+  readLibraryProject,
+  saveLibraryProject,
+  setLastOpenedProjectId,
+} from '../projectLibrary';
 
 const PENDING_PROJECT_IMPORT_KEY = 'woodworker_pending_project_import_asset';
 const PENDING_PROJECT_IMPORT_PAYLOAD_KEY = 'woodworker_pending_project_import_payload';
+const AUTOSAVE_DELAY_MS = 800;
+
+const autosaveProject = async () => {
+  const state = useStore.getState();
+  if (!state.activeProjectId && state.parts.length === 0) return;
+
+  const projectId = state.activeProjectId ?? uuidv4();
+  if (!state.activeProjectId) {
+    state.setActiveProjectId(projectId);
+  }
+
+  state.setAutosaveStatus('saving');
+  try {
+    await saveLibraryProject(projectId, buildProjectPayload({
+      projectName: state.projectName,
+      parts: state.parts,
+      groups: state.groups,
+      cutAllowances: state.cutAllowances,
+      lengthUnit: state.lengthUnit,
+      fractionPrecision: state.fractionPrecision,
+      priceBook: state.priceBook,
+      snapshots: state.snapshots,
+      measurements: state.measurements,
+      annotations: state.annotations,
+      loadMarkers: state.loadMarkers,
+      history: { past: state.pastParts, future: state.futureParts },
+    }));
+    setLastOpenedProjectId(projectId);
+    useStore.getState().setAutosaveStatus('saved');
+  } catch (error) {
+    console.error('Failed to autosave project', error);
+    useStore.getState().setAutosaveStatus('error');
+  }
+};
 
 export function Workbench() {
   const [leftPanelOpen, setLeftPanelOpen] = useState(false);
   const [rightPanelOpen, setRightPanelOpen] = useState(false);
-  const setParts = useStore((state) => state.setParts);
+  const loadProject = useStore((state) => state.loadProject);
   const requestCameraFocus = useStore((state) => state.requestCameraFocus);
 
   useEffect(() => {
@@ -20,7 +62,35 @@ export function Workbench() {
 
     const queuedPayload = window.localStorage.getItem(PENDING_PROJECT_IMPORT_PAYLOAD_KEY);
     const queuedAsset = window.localStorage.getItem(PENDING_PROJECT_IMPORT_KEY);
-    if (!queuedAsset && !queuedPayload) return;
+    if (!queuedAsset && !queuedPayload) {
+      let isRestoreCancelled = false;
+      const lastProjectId = getLastOpenedProjectId();
+
+      const restoreLastProject = async () => {
+        if (!lastProjectId) return;
+        try {
+          const stored = await readLibraryProject(lastProjectId);
+          if (isRestoreCancelled) return;
+          if (!stored) {
+            setLastOpenedProjectId(null);
+            return;
+          }
+          if (!stored.result.ok) {
+            console.error('Stored project could not be restored', stored.result.message);
+            return;
+          }
+          loadProject(stored.result.project, { projectId: lastProjectId, resetHistory: true });
+          window.requestAnimationFrame(() => requestCameraFocus());
+        } catch (error) {
+          console.error('Failed to restore last project', error);
+        }
+      };
+
+      void restoreLastProject();
+      return () => {
+        isRestoreCancelled = true;
+      };
+    }
 
     window.localStorage.removeItem(PENDING_PROJECT_IMPORT_PAYLOAD_KEY);
     window.localStorage.removeItem(PENDING_PROJECT_IMPORT_KEY);
@@ -58,15 +128,20 @@ export function Workbench() {
           throw new Error('Failed to fetch import asset from all candidate paths');
         }
 
-        const importedParts = Array.isArray(parsed) ? parsed : parsed?.parts;
+        const result = parseProjectFile(parsed);
 
-        if (!Array.isArray(importedParts)) {
-          throw new Error('Invalid file format: expected parts array');
+        if (isCancelled) return;
+        if (!result.ok) {
+          alert(`Could not auto-load the queued project file.\n\n${result.message}`);
+          return;
         }
 
-        if (isCancelled) return;
-        setParts(importedParts);
+        loadProject(result.project);
         window.requestAnimationFrame(() => requestCameraFocus());
+        const report = formatImportReport(result);
+        if (report) {
+          alert(`Queued project loaded with issues.\n\n${report}`);
+        }
       } catch (error) {
         console.error('Failed to load queued project import', error);
         alert('Could not auto-load the queued project file.');
@@ -77,7 +152,46 @@ export function Workbench() {
     return () => {
       isCancelled = true;
     };
-  }, [requestCameraFocus, setParts]);
+  }, [loadProject, requestCameraFocus]);
+
+  useEffect(() => {
+    let timer: number | null = null;
+
+    const unsubscribe = useStore.subscribe((state, previous) => {
+      // Switching to a stored project is not an edit; a fresh import (no id yet) still needs saving.
+      if (state.activeProjectId !== previous.activeProjectId && state.activeProjectId !== null) return;
+      if (
+        state.parts === previous.parts
+        && state.cutAllowances === previous.cutAllowances
+        && state.lengthUnit === previous.lengthUnit
+        && state.fractionPrecision === previous.fractionPrecision
+        && state.priceBook === previous.priceBook
+        && state.projectName === previous.projectName
+        && state.snapshots === previous.snapshots
+        && state.measurements === previous.measurements
+        && state.annotations === previous.annotations
+        && state.loadMarkers === previous.loadMarkers
+        && state.groups === previous.groups
+      ) {
+        return;
+      }
+
+      if (timer !== null) {
+        window.clearTimeout(timer);
+      }
+      timer = window.setTimeout(() => {
+        timer = null;
+        void autosaveProject();
+      }, AUTOSAVE_DELAY_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer !== null) {
+        window.clearTimeout(timer);
+      }
+    };
+  }, []);
 
   return (
     <div className="h-dvh w-screen bg-slate-100 overflow-hidden overscroll-none">
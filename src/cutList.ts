@@ -0,0 +1,77 @@
+import { PartData } from './types';
+import { partPurchaseName } from './species';
+
+export type CutListEntry = {
+  key: string;
+  part: PartData;
+  count: number;
+};
+
+const roundTo = (value: number) => value.toFixed(3);
+
+const profileSignature = (part: PartData) => {
+  if (part.type === 'hardware') {
+    return 'hardware';
+  }
+
+  if (!part.profile || part.profile.type === 'rect') {
+    return 'rect';
+  }
+
+  if (part.profile.type === 'polygon' && part.profile.points) {
+    const serializedPoints = part.profile.points
+      .map(([x, z]) => `${roundTo(x)},${roundTo(z)}`)
+      .join(';');
+    return ['polygon', serializedPoints].join('|');
+  }
+
+  if (part.profile.type === 'angled') {
+    return [
+      'angled',
+      roundTo(part.profile.startAngle ?? 0),
+      roundTo(part.profile.endAngle ?? 0),
+    ].join('|');
+  }
+
+  return [
+    'l-cut',
+    roundTo(part.profile.cutWidth ?? part.dimensions[0] / 2),
+    roundTo(part.profile.cutDepth ?? part.dimensions[2] / 2),
+    part.profile.corner ?? 'front-left',
+  ].join('|');
+};
+
+export const cutKey = (part: PartData) => {
+  return [
+    part.name,
+    part.type === 'hardware' ? '' : partPurchaseName(part),
+    part.type,
+    ...part.dimensions.map((dimension) => roundTo(dimension)),
+    profileSignature(part),
+  ].join('|');
+};
+
+export const groupCutList = (parts: PartData[]): CutListEntry[] => {
+  const grouped = new Map<string, CutListEntry>();
+
+  parts.forEach((part) => {
+    const key = cutKey(part);
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.count += 1;
+      return;
+    }
+    grouped.set(key, { key, part, count: 1 });
+  });
+
+  return Array.from(grouped.values());
+};
+
+// Row numbers as printed in the cut report, keyed by part id.
+export const cutListNumbers = (parts: PartData[]) => {
+  const rowByKey = new Map(groupCutList(parts).map((entry, index) => [entry.key, index + 1]));
+  return parts.reduce<Record<string, number>>((numbers, part) => {
+    numbers[part.id] = rowByKey.get(cutKey(part)) ?? 0;
+    return numbers;
+  }, {});
+};
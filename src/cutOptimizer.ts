@@ -0,0 +1,611 @@
+import { CutAllowances, CutCorner, PartData, StockDefinition } from './types';
+import { getSheetStockSize, partStockName, SheetStockSize, StockLengthOption } from './stockCatalog';
+import { partPurchaseName } from './species';
+
+export type Point2 = [number, number];
+
+export type NotchRect = {
+  x0: number;
+  x1: number;
+  z0: number;
+  z1: number;
+};
+
+export type SheetPlacement = {
+  partId: string;
+  x: number;
+  y: number;
+  width: number;
+  length: number;
+  rotated: boolean;
+  points: Point2[];
+};
+
+export type SheetPanelLayout = {
+  material: string;
+  index: number;
+  stock: SheetStockSize;
+  placements: SheetPlacement[];
+  usedArea: number;
+  utilization: number;
+};
+
+export type OversizedSheetPart = {
+  part: PartData;
+  panelsNeeded: number;
+};
+
+export type SheetNestingResult = {
+  panels: SheetPanelLayout[];
+  oversized: OversizedSheetPart[];
+  panelCountByMaterial: Record<string, number>;
+};
+
+type FreeRect = {
+  x: number;
+  y: number;
+  width: number;
+  length: number;
+};
+
+type SheetPiece = {
+  part: PartData;
+  points: Point2[];
+  notches: NotchRect[];
+  spanX: number;
+  spanZ: number;
+  cutX: number;
+  cutZ: number;
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+};
+
+type WorkingPanel = {
+  layout: SheetPanelLayout;
+  freeRects: FreeRect[];
+};
+
+export const CUT_PLAN_EPS = 0.0001;
+
+export const DEFAULT_CUT_ALLOWANCES: CutAllowances = {
+  kerf: 0.125,
+  endTrim: 0.25,
+  ripAllowance: 0,
+};
+
+const MAX_ALLOWANCE = 6;
+
+export const normalizeCutAllowances = (value: unknown): CutAllowances => {
+  const source = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof CutAllowances, unknown>>;
+  const read = (key: keyof CutAllowances) => {
+    const raw = source[key];
+    return typeof raw === 'number' && Number.isFinite(raw)
+      ? Math.max(0, Math.min(MAX_ALLOWANCE, raw))
+      : DEFAULT_CUT_ALLOWANCES[key];
+  };
+
+  return {
+    kerf: read('kerf'),
+    endTrim: read('endTrim'),
+    ripAllowance: read('ripAllowance'),
+  };
+};
+
+export const getUsableStockLength = (stockLength: number, allowances: CutAllowances) =>
+  Math.max(0, stockLength - allowances.endTrim * 2);
+
+export type LinearBoard = {
+  stockLength: number;
+  price: number | null;
+  pieces: number[];
+  spliced: boolean;
+};
+
+export type LinearStockPlan = {
+  boards: LinearBoard[];
+  totalCost: number | null;
+};
+
+const stockCost = (option: StockLengthOption) => option.price ?? option.length;
+
+// Fills one board first-fit from the longest remaining piece; returns the indices it used.
+const fillBoard = (remaining: number[], usable: number, kerf: number) => {
+  let space = usable;
+  const used: number[] = [];
+
+  remaining.forEach((len, index) => {
+    if (space + CUT_PLAN_EPS >= len) {
+      used.push(index);
+      // The last piece on a board can run to the trimmed end without another kerf.
+      space = Math.max(0, space - len - kerf);
+    }
+  });
+
+  return used;
+};
+
+export const planLinearStock = (
+  lengths: number[],
+  options: StockLengthOption[],
+  allowances: CutAllowances
+): LinearStockPlan => {
+  const stock = [...options].sort((a, b) => a.length - b.length);
+  const longest = stock[stock.length - 1];
+  const longestUsable = getUsableStockLength(longest.length, allowances);
+  const boards: LinearBoard[] = [];
+  let remaining = [...lengths].sort((a, b) => b - a);
+
+  remaining = remaining.filter((len) => {
+    if (len <= longestUsable + CUT_PLAN_EPS) return true;
+    const count = longestUsable > 0 ? Math.ceil(len / longestUsable) : 1;
+    for (let k = 0; k < count; k += 1) {
+      boards.push({ stockLength: longest.length, price: longest.price, pieces: k === 0 ? [len] : [], spliced: true });
+    }
+    return false;
+  });
+
+  while (remaining.length > 0) {
+    let best: { option: StockLengthOption; used: number[]; ratio: number } | null = null;
+
+    for (const option of stock) {
+      const used = fillBoard(remaining, getUsableStockLength(option.length, allowances), allowances.kerf);
+      if (used.length === 0) continue;
+      const packed = used.reduce((sum, index) => sum + remaining[index], 0);
+      const ratio = stockCost(option) / packed;
+      if (!best || ratio < best.ratio - CUT_PLAN_EPS) {
+        best = { option, used, ratio };
+      }
+    }
+
+    if (!best) break;
+
+    const usedSet = new Set(best.used);
+    const pieces = best.used.map((index) => remaining[index]);
+    remaining = remaining.filter((_, index) => !usedSet.has(index));
+
+    // A cheaper board may still hold everything that landed on the chosen one.
+    const cheapest = stock
+      .filter((option) => fillBoard(pieces, getUsableStockLength(option.length, allowances), allowances.kerf).length === pieces.length)
+      .sort((a, b) => stockCost(a) - stockCost(b))[0] ?? best.option;
+
+    boards.push({ stockLength: cheapest.length, price: cheapest.price, pieces, spliced: false });
+  }
+
+  const totalCost = boards.every((board) => board.price !== null)
+    ? boards.reduce((sum, board) => sum + (board.price ?? 0), 0)
+    : null;
+
+  return { boards, totalCost };
+};
+
+const uniqueSorted = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const unique: number[] = [];
+
+  sorted.forEach((value) => {
+    if (unique.length === 0 || Math.abs(unique[unique.length - 1] - value) > CUT_PLAN_EPS) {
+      unique.push(value);
+    }
+  });
+
+  return unique;
+};
+
+export const getLCutPoints = (
+  width: number,
+  depth: number,
+  cutWidth: number,
+  cutDepth: number,
+  corner: CutCorner
+): Point2[] => {
+  const minX = -width / 2;
+  const maxX = width / 2;
+  const minZ = -depth / 2;
+  const maxZ = depth / 2;
+
+  if (corner === 'front-left') {
+    return [
+      [minX, minZ],
+      [maxX, minZ],
+      [maxX, maxZ],
+      [minX + cutWidth, maxZ],
+      [minX + cutWidth, maxZ - cutDepth],
+      [minX, maxZ - cutDepth],
+    ];
+  }
+  if (corner === 'front-right') {
+    return [
+      [minX, minZ],
+      [maxX, minZ],
+      [maxX, maxZ - cutDepth],
+      [maxX - cutWidth, maxZ - cutDepth],
+      [maxX - cutWidth, maxZ],
+      [minX, maxZ],
+    ];
+  }
+  if (corner === 'back-left') {
+    return [
+      [minX, minZ + cutDepth],
+      [minX + cutWidth, minZ + cutDepth],
+      [minX + cutWidth, minZ],
+      [maxX, minZ],
+      [maxX, maxZ],
+      [minX, maxZ],
+    ];
+  }
+  return [
+    [minX, minZ],
+    [maxX - cutWidth, minZ],
+    [maxX - cutWidth, minZ + cutDepth],
+    [maxX, minZ + cutDepth],
+    [maxX, maxZ],
+    [minX, maxZ],
+  ];
+};
+
+export const pointInPolygon = (x: number, z: number, points: [number, number][]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i, i += 1) {
+    const xi = points[i][0];
+    const zi = points[i][1];
+    const xj = points[j][0];
+    const zj = points[j][1];
+
+    const intersects = ((zi > z) !== (zj > z))
+      && (x < ((xj - xi) * (z - zi)) / ((zj - zi) || Number.EPSILON) + xi);
+
+    if (intersects) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const lCutNotchRect = (part: PartData): NotchRect | null => {
+  if (!part.profile || part.profile.type !== 'l-cut') return null;
+
+  const width = part.dimensions[0];
+  const depth = part.dimensions[2];
+  const minX = -width / 2;
+  const maxX = width / 2;
+  const minZ = -depth / 2;
+  const maxZ = depth / 2;
+  const cutWidth = part.profile.cutWidth ?? width / 2;
+  const cutDepth = part.profile.cutDepth ?? depth / 2;
+  const corner = part.profile.corner ?? 'front-left';
+
+  if (corner === 'front-left') {
+    return { x0: minX, x1: minX + cutWidth, z0: maxZ - cutDepth, z1: maxZ };
+  }
+  if (corner === 'front-right') {
+    return { x0: maxX - cutWidth, x1: maxX, z0: maxZ - cutDepth, z1: maxZ };
+  }
+  if (corner === 'back-left') {
+    return { x0: minX, x1: minX + cutWidth, z0: minZ, z1: minZ + cutDepth };
+  }
+  return { x0: maxX - cutWidth, x1: maxX, z0: minZ, z1: minZ + cutDepth };
+};
+
+export const polygonNotches = (part: PartData): NotchRect[] => {
+  if (!part.profile || part.profile.type !== 'polygon' || !part.profile.points || part.profile.points.length < 3) {
+    return [];
+  }
+
+  const width = part.dimensions[0];
+  const depth = part.dimensions[2];
+  const minX = -width / 2;
+  const maxX = width / 2;
+  const minZ = -depth / 2;
+  const maxZ = depth / 2;
+  const points = part.profile.points;
+
+  const xs = uniqueSorted([minX, maxX, ...points.map((p) => p[0])]);
+  const zs = uniqueSorted([minZ, maxZ, ...points.map((p) => p[1])]);
+  const nx = xs.length - 1;
+  const nz = zs.length - 1;
+
+  const missing = Array.from({ length: nx }, () => Array.from({ length: nz }, () => false));
+
+  for (let xi = 0; xi < nx; xi += 1) {
+    for (let zi = 0; zi < nz; zi += 1) {
+      const x0 = xs[xi];
+      const x1 = xs[xi + 1];
+      const z0 = zs[zi];
+      const z1 = zs[zi + 1];
+      const area = (x1 - x0) * (z1 - z0);
+      if (area <= CUT_PLAN_EPS * CUT_PLAN_EPS) continue;
+
+      const cx = (x0 + x1) / 2;
+      const cz = (z0 + z1) / 2;
+      const inside = pointInPolygon(cx, cz, points);
+      missing[xi][zi] = !inside;
+    }
+  }
+
+  const visited = Array.from({ length: nx }, () => Array.from({ length: nz }, () => false));
+  const notches: NotchRect[] = [];
+
+  for (let zi = 0; zi < nz; zi += 1) {
+    for (let xi = 0; xi < nx; xi += 1) {
+      if (!missing[xi][zi] || visited[xi][zi]) continue;
+
+      let xEnd = xi + 1;
+      while (xEnd < nx && missing[xEnd][zi] && !visited[xEnd][zi]) {
+        xEnd += 1;
+      }
+
+      let zEnd = zi + 1;
+      let canGrow = true;
+      while (canGrow && zEnd < nz) {
+        for (let x = xi; x < xEnd; x += 1) {
+          if (!missing[x][zEnd] || visited[x][zEnd]) {
+            canGrow = false;
+            break;
+          }
+        }
+        if (canGrow) {
+          zEnd += 1;
+        }
+      }
+
+      for (let z = zi; z < zEnd; z += 1) {
+        for (let x = xi; x < xEnd; x += 1) {
+          visited[x][z] = true;
+        }
+      }
+
+      notches.push({
+        x0: xs[xi],
+        x1: xs[xEnd],
+        z0: zs[zi],
+        z1: zs[zEnd],
+      });
+    }
+  }
+
+  return notches.sort((a, b) => ((b.x1 - b.x0) * (b.z1 - b.z0)) - ((a.x1 - a.x0) * (a.z1 - a.z0)));
+};
+
+export const footprintPoints = (part: PartData): Point2[] => {
+  const width = part.dimensions[0];
+  const depth = part.dimensions[2];
+  const minX = -width / 2;
+  const maxX = width / 2;
+  const minZ = -depth / 2;
+  const maxZ = depth / 2;
+
+  if (part.profile?.type === 'polygon' && part.profile.points && part.profile.points.length >= 3) {
+    return part.profile.points;
+  }
+
+  if (part.profile?.type === 'l-cut') {
+    const cutWidth = part.profile.cutWidth ?? width / 2;
+    const cutDepth = part.profile.cutDepth ?? depth / 2;
+    return getLCutPoints(width, depth, cutWidth, cutDepth, part.profile.corner ?? 'front-left');
+  }
+
+  return [
+    [minX, minZ],
+    [maxX, minZ],
+    [maxX, maxZ],
+    [minX, maxZ],
+  ];
+};
+
+const polygonArea = (points: Point2[]) => {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i, i += 1) {
+    area += (points[j][0] * points[i][1]) - (points[i][0] * points[j][1]);
+  }
+  return Math.abs(area) / 2;
+};
+
+const toSheetPiece = (part: PartData, allowances: CutAllowances): SheetPiece => {
+  const points = footprintPoints(part);
+  const xs = points.map((p) => p[0]);
+  const zs = points.map((p) => p[1]);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minZ = Math.min(...zs);
+  const maxZ = Math.max(...zs);
+  const notchCandidates = part.profile?.type === 'l-cut'
+    ? [lCutNotchRect(part)].filter((notch): notch is NotchRect => Boolean(notch))
+    : polygonNotches(part);
+
+  // Only notches that open onto the bounding box can be reached by a saw after the part is cut free.
+  const notches = notchCandidates.filter((notch) => (
+    Math.abs(notch.x0 - minX) < CUT_PLAN_EPS
+    || Math.abs(notch.x1 - maxX) < CUT_PLAN_EPS
+    || Math.abs(notch.z0 - minZ) < CUT_PLAN_EPS
+    || Math.abs(notch.z1 - maxZ) < CUT_PLAN_EPS
+  ));
+
+  const cutMargin = allowances.ripAllowance + allowances.kerf;
+
+  return {
+    part,
+    points,
+    notches,
+    spanX: maxX - minX,
+    spanZ: maxZ - minZ,
+    cutX: maxX - minX + cutMargin,
+    cutZ: maxZ - minZ + cutMargin,
+    minX,
+    maxX,
+    minZ,
+    maxZ,
+  };
+};
+
+const placePoint = (piece: SheetPiece, [px, pz]: Point2, x: number, y: number, rotated: boolean): Point2 => (
+  rotated
+    ? [x + (pz - piece.minZ), y + (piece.maxX - px)]
+    : [x + (px - piece.minX), y + (pz - piece.minZ)]
+);
+
+const splitFreeRect = (free: FreeRect, width: number, length: number): FreeRect[] => {
+  const leftoverX = free.width - width;
+  const leftoverY = free.length - length;
+  const pieces: FreeRect[] = [];
+
+  // Shorter-leftover-axis split keeps the larger offcut as one usable rectangle.
+  if (leftoverX < leftoverY) {
+    pieces.push({ x: free.x + width, y: free.y, width: leftoverX, length });
+    pieces.push({ x: free.x, y: free.y + length, width: free.width, length: leftoverY });
+  } else {
+    pieces.push({ x: free.x + width, y: free.y, width: leftoverX, length: free.length });
+    pieces.push({ x: free.x, y: free.y + length, width, length: leftoverY });
+  }
+
+  return pieces.filter((rect) => rect.width > CUT_PLAN_EPS && rect.length > CUT_PLAN_EPS);
+};
+
+const findBestFit = (panel: WorkingPanel, piece: SheetPiece) => {
+  let best: { rectIndex: number; rotated: boolean; waste: number } | null = null;
+
+  for (let rectIndex = 0; rectIndex < panel.freeRects.length; rectIndex += 1) {
+    const free = panel.freeRects[rectIndex];
+    for (const rotated of [false, true]) {
+      const width = rotated ? piece.cutZ : piece.cutX;
+      const length = rotated ? piece.cutX : piece.cutZ;
+      if (width > free.width + CUT_PLAN_EPS || length > free.length + CUT_PLAN_EPS) continue;
+
+      const waste = free.width * free.length - width * length;
+      if (!best || waste < best.waste) {
+        best = { rectIndex, rotated, waste };
+      }
+    }
+  }
+
+  return best;
+};
+
+const placePiece = (
+  panel: WorkingPanel,
+  piece: SheetPiece,
+  rectIndex: number,
+  rotated: boolean,
+  cutMargin: number
+) => {
+  const free = panel.freeRects[rectIndex];
+  const width = rotated ? piece.spanZ : piece.spanX;
+  const length = rotated ? piece.spanX : piece.spanZ;
+
+  panel.freeRects.splice(
+    rectIndex,
+    1,
+    ...splitFreeRect(free, width + cutMargin, length + cutMargin)
+  );
+
+  piece.notches.forEach((notch) => {
+    const a = placePoint(piece, [notch.x0, notch.z0], free.x, free.y, rotated);
+    const b = placePoint(piece, [notch.x1, notch.z1], free.x, free.y, rotated);
+    const notchRect = {
+      x: Math.min(a[0], b[0]) + cutMargin,
+      y: Math.min(a[1], b[1]) + cutMargin,
+      width: Math.abs(b[0] - a[0]) - cutMargin * 2,
+      length: Math.abs(b[1] - a[1]) - cutMargin * 2,
+    };
+    if (notchRect.width > CUT_PLAN_EPS && notchRect.length > CUT_PLAN_EPS) {
+      panel.freeRects.push(notchRect);
+    }
+  });
+
+  panel.layout.placements.push({
+    partId: piece.part.id,
+    x: free.x,
+    y: free.y,
+    width,
+    length,
+    rotated,
+    points: piece.points.map((point) => placePoint(piece, point, free.x, free.y, rotated)),
+  });
+  panel.layout.usedArea += polygonArea(piece.points);
+};
+
+const countPanelsForOversizedPiece = (piece: SheetPiece, usable: SheetStockSize) => Math.min(
+  Math.ceil(piece.cutX / usable.width) * Math.ceil(piece.cutZ / usable.length),
+  Math.ceil(piece.cutZ / usable.width) * Math.ceil(piece.cutX / usable.length)
+);
+
+export const nestSheetParts = (
+  parts: PartData[],
+  allowances: CutAllowances = DEFAULT_CUT_ALLOWANCES,
+  customStock: StockDefinition[] = []
+): SheetNestingResult => {
+  const groups = new Map<string, SheetPiece[]>();
+  const cutMargin = allowances.ripAllowance + allowances.kerf;
+
+  parts.forEach((part) => {
+    if (part.type !== 'sheet') return;
+    const material = partPurchaseName(part);
+    const pieces = groups.get(material) ?? [];
+    pieces.push(toSheetPiece(part, allowances));
+    groups.set(material, pieces);
+  });
+
+  const panels: SheetPanelLayout[] = [];
+  const oversized: OversizedSheetPart[] = [];
+  const panelCountByMaterial: Record<string, number> = {};
+
+  groups.forEach((pieces, material) => {
+    const stock = getSheetStockSize(partStockName(pieces[0].part), customStock);
+    // Factory edges are trimmed on every side; the extra kerf lets the last piece run to the trimmed edge.
+    const usable: SheetStockSize = {
+      width: Math.max(0, stock.width - allowances.endTrim * 2) + allowances.kerf,
+      length: Math.max(0, stock.length - allowances.endTrim * 2) + allowances.kerf,
+    };
+    const workingPanels: WorkingPanel[] = [];
+    let oversizedPanels = 0;
+
+    pieces
+      .sort((a, b) => (b.spanX * b.spanZ) - (a.spanX * a.spanZ) || Math.max(b.spanX, b.spanZ) - Math.max(a.spanX, a.spanZ))
+      .forEach((piece) => {
+        const fitsStock = (piece.cutX <= usable.width + CUT_PLAN_EPS && piece.cutZ <= usable.length + CUT_PLAN_EPS)
+          || (piece.cutZ <= usable.width + CUT_PLAN_EPS && piece.cutX <= usable.length + CUT_PLAN_EPS);
+
+        if (!fitsStock) {
+          const panelsNeeded = countPanelsForOversizedPiece(piece, usable);
+          oversized.push({ part: piece.part, panelsNeeded });
+          oversizedPanels += panelsNeeded;
+          return;
+        }
+
+        for (const panel of workingPanels) {
+          const fit = findBestFit(panel, piece);
+          if (fit) {
+            placePiece(panel, piece, fit.rectIndex, fit.rotated, cutMargin);
+            return;
+          }
+        }
+
+        const panel: WorkingPanel = {
+          layout: {
+            material,
+            index: workingPanels.length + 1,
+            stock,
+            placements: [],
+            usedArea: 0,
+            utilization: 0,
+          },
+          freeRects: [{ x: allowances.endTrim, y: allowances.endTrim, width: usable.width, length: usable.length }],
+        };
+        workingPanels.push(panel);
+
+        const fit = findBestFit(panel, piece);
+        if (fit) {
+          placePiece(panel, piece, fit.rectIndex, fit.rotated, cutMargin);
+        }
+      });
+
+    workingPanels.forEach(({ layout }) => {
+      layout.utilization = layout.usedArea / (stock.width * stock.length);
+      panels.push(layout);
+    });
+    panelCountByMaterial[material] = workingPanels.length + oversizedPanels;
+  });
+
+  return { panels, oversized, panelCountByMaterial };
+};
@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+import { PartData } from './types';
+
+export type ExplodeOffsets = Record<string, [number, number, number]>;
+
+const CONTACT_TOLERANCE = 0.05;
+const MIN_EXPLODE_GAP = 6;
+const EXPLODE_GAP_RATIO = 0.15;
+const EXPLODE_SPREAD = 0.6;
+const AXES = [0, 1, 2] as const;
+
+const worldBounds = (part: PartData) => {
+  const [w, h, d] = part.dimensions;
+  const rotation = new THREE.Euler(part.rotation[0], part.rotation[1], part.rotation[2]);
+  const position = new THREE.Vector3(...part.position);
+  const box = new THREE.Box3();
+  [-1, 1].forEach((sx) => [-1, 1].forEach((sy) => [-1, 1].forEach((sz) => {
+    box.expandByPoint(new THREE.Vector3((sx * w) / 2, (sy * h) / 2, (sz * d) / 2).applyEuler(rotation).add(position));
+  })));
+  return box;
+};
+
+// Two boxes touch when no axis has a gap wider than the tolerance; the axis with the least
+// overlap is the one they meet across.
+const contactNormal = (part: THREE.Box3, other: THREE.Box3) => {
+  const gaps = AXES.map((axis) => Math.max(
+    other.min.getComponent(axis) - part.max.getComponent(axis),
+    part.min.getComponent(axis) - other.max.getComponent(axis)
+  ));
+  if (gaps.some((gap) => gap > CONTACT_TOLERANCE)) return null;
+
+  const axis = AXES.reduce((best, candidate) => (gaps[candidate] > gaps[best] ? candidate : best), AXES[0]);
+  const side = part.getCenter(new THREE.Vector3()).getComponent(axis) - other.getCenter(new THREE.Vector3()).getComponent(axis);
+  if (Math.abs(side) < 1e-6) return null;
+
+  const [first, second] = AXES.filter((candidate) => candidate !== axis).map((candidate) => -gaps[candidate]);
+  const area = Math.max(first, 0) * Math.max(second, 0);
+  return new THREE.Vector3().setComponent(axis, Math.sign(side) * Math.max(area, 1e-3));
+};
+
+const dominantAxis = (vector: THREE.Vector3) => {
+  const axis = AXES.reduce((best, candidate) => (
+    Math.abs(vector.getComponent(candidate)) > Math.abs(vector.getComponent(best)) + 1e-6 ? candidate : best
+  ), AXES[0]);
+  const value = vector.getComponent(axis);
+  return Math.abs(value) < 1e-6 ? null : new THREE.Vector3().setComponent(axis, Math.sign(value));
+};
+
+// Where every part sits at full explode, relative to its assembled position. Each part backs
+// away from what it touches (weighted by contact area) along a single world axis, and moves
+// further the further it already is from the middle so stacked parts stay in order.
+export const computeExplodeOffsets = (parts: PartData[]): ExplodeOffsets => {
+  if (parts.length === 0) return {};
+  const bounds = parts.map(worldBounds);
+  const assembly = bounds.reduce((box, entry) => box.union(entry), new THREE.Box3());
+  const center = assembly.getCenter(new THREE.Vector3());
+  const size = assembly.getSize(new THREE.Vector3());
+  const gap = Math.max(MIN_EXPLODE_GAP, Math.max(size.x, size.y, size.z) * EXPLODE_GAP_RATIO);
+
+  return parts.reduce<ExplodeOffsets>((offsets, part, index) => {
+    const push = new THREE.Vector3();
+    bounds.forEach((other, otherIndex) => {
+      if (otherIndex === index) return;
+      const normal = contactNormal(bounds[index], other);
+      if (normal) push.add(normal);
+    });
+
+    const partCenter = bounds[index].getCenter(new THREE.Vector3());
+    const direction = dominantAxis(push)
+      ?? dominantAxis(partCenter.clone().sub(center))
+      ?? new THREE.Vector3(0, 1, 0);
+    const distance = gap + Math.abs(partCenter.clone().sub(center).dot(direction)) * EXPLODE_SPREAD;
+    offsets[part.id] = direction.multiplyScalar(distance).toArray() as [number, number, number];
+    return offsets;
+  }, {});
+};
+
+export const explodedParts = (parts: PartData[], offsets: ExplodeOffsets, factor: number): PartData[] =>
+  parts.map((part) => {
+    const offset = offsets[part.id] ?? [0, 0, 0];
+    return {
+      ...part,
+      position: [
+        part.position[0] + offset[0] * factor,
+        part.position[1] + offset[1] * factor,
+        part.position[2] + offset[2] * factor,
+      ],
+    };
+  });
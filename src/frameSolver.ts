@@ -0,0 +1,632 @@
+import * as THREE from 'three';
+import { PartData } from './types';
+import { partSpecies, partWeightLb } from './species';
+
+// A force in pounds at a world point on a part, such as a load marker placed in the scene.
+export type FramePlacedLoad = {
+  partId: string;
+  point: THREE.Vector3;
+  force: THREE.Vector3;
+};
+
+// How much of each scenario force to apply, 0 (none) to 1 (full design load), plus any placed loads.
+export type FrameLoadCase = {
+  vertical: number;
+  lateral: number;
+  torsion: number;
+  impact: number;
+  placed?: FramePlacedLoad[];
+};
+
+export type FrameSolution = {
+  memberCount: number;
+  nodeCount: number;
+  jointCount: number;
+  utilization: Record<string, number>;
+  unstablePartIds: string[];
+  maxUtilization: number;
+  criticalPartId: string | null;
+  maxDeflectionIn: number;
+  // Parts whose placed loads reach no member (a shelf on sheet-good sides), so the solve leaves them out.
+  droppedLoadPartIds: string[];
+};
+
+// Why a frame was left to the quick estimates: no lumber to solve, a band too wide to factor
+// interactively, or a stiffness matrix that would not factor.
+export type FrameSkip = {
+  skipped: 'no-lumber' | 'too-large' | 'unsolvable';
+  nodeCount: number;
+};
+
+type Member = {
+  part: PartData;
+  start: THREE.Vector3;
+  direction: THREE.Vector3;
+  length: number;
+  sectionY: THREE.Vector3;
+  depthY: number;
+  depthZ: number;
+  params: number[];
+  nodes: number[];
+};
+
+type PointLoad = { member: Member; param: number; force: THREE.Vector3 };
+
+type Element = {
+  member: Member | null;
+  from: number;
+  to: number;
+  rotation: number[][];
+  stiffness: number[][];
+  equivalentLoad: number[];
+  uniformLoad: THREE.Vector3;
+  length: number;
+};
+
+const CONTACT_TOLERANCE = 0.22;
+const MIN_OVERLAP = 0.08;
+const GROUND_TOLERANCE = 0.22;
+const NODE_MERGE_TOLERANCE = 0.25;
+// Banded Cholesky costs about dofs x bandwidth^2; past this it no longer keeps up with editing.
+const MAX_BAND_WORK = 2e8;
+// Screwed joints carry moment; parts that only touch are modelled as nearly pinned.
+const FASTENED_FIXITY = 1;
+const CONTACT_FIXITY = 0.08;
+// Clear-wood bending strength is divided down for knots, load duration and variability.
+const SAFETY_FACTOR = 2.5;
+const SHEAR_MODULUS_RATIO = 1 / 16;
+const MECHANISM_DISPLACEMENT_IN = 1;
+const LINK_MODULUS = 1_400_000;
+const LINK_SECTION = 12;
+
+// Design loads at full scenario intensity.
+const LIVE_LOAD_PSF = 60;
+const LATERAL_LOAD_LB = 50;
+const TORSION_LOAD_LB = 40;
+const IMPACT_LOAD_LB = 250;
+
+const worldBounds = (part: PartData) => {
+  const [w, h, d] = part.dimensions;
+  const rotation = new THREE.Euler(part.rotation[0], part.rotation[1], part.rotation[2]);
+  const position = new THREE.Vector3(...part.position);
+  const box = new THREE.Box3();
+  [-1, 1].forEach((sx) => [-1, 1].forEach((sy) => [-1, 1].forEach((sz) => {
+    box.expandByPoint(new THREE.Vector3((sx * w) / 2, (sy * h) / 2, (sz * d) / 2).applyEuler(rotation).add(position));
+  })));
+  return box;
+};
+
+const axisOverlap = (a: THREE.Box3, b: THREE.Box3, axis: 'x' | 'y' | 'z') =>
+  Math.min(a.max[axis], b.max[axis]) - Math.max(a.min[axis], b.min[axis]);
+
+const touches = (a: THREE.Box3, b: THREE.Box3) => {
+  const overlaps = { x: axisOverlap(a, b, 'x'), y: axisOverlap(a, b, 'y'), z: axisOverlap(a, b, 'z') };
+  return (['x', 'y', 'z'] as const).some((axis) => (
+    overlaps[axis] >= -CONTACT_TOLERANCE
+    && (['x', 'y', 'z'] as const).every((other) => other === axis || overlaps[other] >= MIN_OVERLAP)
+  ));
+};
+
+const overlapCenter = (a: THREE.Box3, b: THREE.Box3) => new THREE.Vector3(
+  (Math.max(a.min.x, b.min.x) + Math.min(a.max.x, b.max.x)) / 2,
+  (Math.max(a.min.y, b.min.y) + Math.min(a.max.y, b.max.y)) / 2,
+  (Math.max(a.min.z, b.min.z) + Math.min(a.max.z, b.max.z)) / 2
+);
+
+const embeds = (fastener: THREE.Box3, wood: THREE.Box3) =>
+  axisOverlap(fastener, wood, 'x') >= 0.03 && axisOverlap(fastener, wood, 'y') >= 0.03 && axisOverlap(fastener, wood, 'z') >= 0.03;
+
+// Lumber is modelled as a line along its longest dimension, with the section taken from the other two.
+const toMember = (part: PartData): Member => {
+  const basis = new THREE.Matrix4().makeRotationFromEuler(
+    new THREE.Euler(part.rotation[0], part.rotation[1], part.rotation[2])
+  );
+  const order = [0, 1, 2].sort((a, b) => part.dimensions[b] - part.dimensions[a]);
+  const direction = new THREE.Vector3().setFromMatrixColumn(basis, order[0]).normalize();
+  const length = part.dimensions[order[0]];
+  return {
+    part,
+    start: new THREE.Vector3(...part.position).addScaledVector(direction, -length / 2),
+    direction,
+    length,
+    sectionY: new THREE.Vector3().setFromMatrixColumn(basis, order[1]).normalize(),
+    depthY: part.dimensions[order[1]],
+    depthZ: part.dimensions[order[2]],
+    params: [0, length],
+    nodes: [],
+  };
+};
+
+const projectParam = (member: Member, point: THREE.Vector3) =>
+  Math.max(0, Math.min(member.length, point.clone().sub(member.start).dot(member.direction)));
+
+const pointAt = (member: Member, param: number) => member.start.clone().addScaledVector(member.direction, param);
+
+const nodeFor = (member: Member, param: number) => {
+  const index = member.params.reduce(
+    (best, candidate, i) => (Math.abs(candidate - param) < Math.abs(member.params[best] - param) ? i : best),
+    0
+  );
+  return member.nodes[index];
+};
+
+// Rows are the element's local x (along it), y and z axes in world coordinates.
+const localRotation = (direction: THREE.Vector3, sectionY: THREE.Vector3) => {
+  const x = direction.clone().normalize();
+  const reference = Math.abs(sectionY.clone().normalize().dot(x)) < 0.99
+    ? sectionY.clone()
+    : new THREE.Vector3(Math.abs(x.y) < 0.9 ? 0 : 1, Math.abs(x.y) < 0.9 ? 1 : 0, 0);
+  const y = reference.addScaledVector(x, -reference.dot(x)).normalize();
+  const z = new THREE.Vector3().crossVectors(x, y).normalize();
+  return [x.toArray(), y.toArray(), z.toArray()];
+};
+
+// Standard 12x12 space-frame element stiffness in local coordinates.
+const frameStiffness = (e: number, g: number, area: number, iy: number, iz: number, j: number, l: number) => {
+  const k = Array.from({ length: 12 }, () => new Array<number>(12).fill(0));
+  const set = (r: number, c: number, value: number) => {
+    k[r][c] = value;
+    k[c][r] = value;
+  };
+  const axial = (e * area) / l;
+  set(0, 0, axial); set(0, 6, -axial); set(6, 6, axial);
+  const torsion = (g * j) / l;
+  set(3, 3, torsion); set(3, 9, -torsion); set(9, 9, torsion);
+
+  const z12 = (12 * e * iz) / l ** 3;
+  const z6 = (6 * e * iz) / l ** 2;
+  set(1, 1, z12); set(1, 5, z6); set(1, 7, -z12); set(1, 11, z6);
+  set(5, 5, (4 * e * iz) / l); set(5, 7, -z6); set(5, 11, (2 * e * iz) / l);
+  set(7, 7, z12); set(7, 11, -z6); set(11, 11, (4 * e * iz) / l);
+
+  const y12 = (12 * e * iy) / l ** 3;
+  const y6 = (6 * e * iy) / l ** 2;
+  set(2, 2, y12); set(2, 4, -y6); set(2, 8, -y12); set(2, 10, -y6);
+  set(4, 4, (4 * e * iy) / l); set(4, 8, y6); set(4, 10, (2 * e * iy) / l);
+  set(8, 8, y12); set(8, 10, y6); set(10, 10, (4 * e * iy) / l);
+  return k;
+};
+
+const rectangleTorsion = (a: number, b: number) => {
+  const long = Math.max(a, b);
+  const short = Math.min(a, b);
+  return long * short ** 3 * (1 / 3 - 0.21 * (short / long) * (1 - short ** 4 / (12 * long ** 4)));
+};
+
+// Fixed-end forces for a uniform load (force per inch, local axes) along an element.
+const uniformEquivalentLoad = (q: number[], l: number) => [
+  (q[0] * l) / 2, (q[1] * l) / 2, (q[2] * l) / 2, 0, (-q[2] * l * l) / 12, (q[1] * l * l) / 12,
+  (q[0] * l) / 2, (q[1] * l) / 2, (q[2] * l) / 2, 0, (q[2] * l * l) / 12, (-q[1] * l * l) / 12,
+];
+
+const toLocal = (rotation: number[][], vector: number[], offset: number) =>
+  rotation.map((row) => row[0] * vector[offset] + row[1] * vector[offset + 1] + row[2] * vector[offset + 2]);
+
+const toGlobal = (rotation: number[][], local: number[]) =>
+  [0, 1, 2].map((axis) => rotation[0][axis] * local[0] + rotation[1][axis] * local[1] + rotation[2][axis] * local[2]);
+
+// Orders nodes by reverse Cuthill-McKee so connected nodes sit close together and the stiffness
+// matrix stays narrow-banded.
+const bandOrder = (count: number, links: Array<[number, number]>) => {
+  const neighbours = Array.from({ length: count }, () => new Set<number>());
+  links.forEach(([a, b]) => {
+    if (a === b) return;
+    neighbours[a].add(b);
+    neighbours[b].add(a);
+  });
+  const degree = (node: number) => neighbours[node].size;
+  const order: number[] = [];
+  const visited = new Array<boolean>(count).fill(false);
+  const byDegree = Array.from({ length: count }, (_, node) => node).sort((a, b) => degree(a) - degree(b));
+  byDegree.forEach((start) => {
+    if (visited[start]) return;
+    visited[start] = true;
+    for (let head = order.push(start) - 1; head < order.length; head += 1) {
+      [...neighbours[order[head]]]
+        .filter((node) => !visited[node])
+        .sort((a, b) => degree(a) - degree(b))
+        .forEach((node) => {
+          visited[node] = true;
+          order.push(node);
+        });
+    }
+  });
+  return order.reverse();
+};
+
+// In-place Cholesky solve of a symmetric band matrix stored by rows as its lower band
+// (entry i, j at i * (bandwidth + 1) + j - i + bandwidth); returns null if it is not positive definite.
+const solveBanded = (band: Float64Array, rhs: Float64Array, n: number, bandwidth: number) => {
+  const width = bandwidth + 1;
+  const at = (i: number, j: number) => i * width + j - i + bandwidth;
+  for (let j = 0; j < n; j += 1) {
+    let diagonal = band[at(j, j)];
+    for (let k = Math.max(0, j - bandwidth); k < j; k += 1) diagonal -= band[at(j, k)] ** 2;
+    if (diagonal <= 0) return null;
+    const pivot = Math.sqrt(diagonal);
+    band[at(j, j)] = pivot;
+    for (let i = j + 1; i <= Math.min(n - 1, j + bandwidth); i += 1) {
+      let value = band[at(i, j)];
+      for (let k = Math.max(0, i - bandwidth); k < j; k += 1) value -= band[at(i, k)] * band[at(j, k)];
+      band[at(i, j)] = value / pivot;
+    }
+  }
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i += 1) {
+    let value = rhs[i];
+    for (let k = Math.max(0, i - bandwidth); k < i; k += 1) value -= band[at(i, k)] * y[k];
+    y[i] = value / band[at(i, i)];
+  }
+  const x = new Float64Array(n);
+  for (let i = n - 1; i >= 0; i -= 1) {
+    let value = y[i];
+    for (let k = i + 1; k <= Math.min(n - 1, i + bandwidth); k += 1) value -= band[at(k, i)] * x[k];
+    x[i] = value / band[at(i, i)];
+  }
+  return x;
+};
+
+// Builds a space frame from the lumber parts (members) and their joints, pins it where it meets
+// the floor or rests on sheet goods, applies self weight plus the scenario and placed loads, and solves it by
+// the direct stiffness method. Utilization is peak member stress over allowable stress, so 1 means
+// the member is at its design limit. Returns a FrameSkip when there is no lumber or the frame is too
+// big to solve interactively.
+export const solveFrame = (parts: PartData[], loadCase: FrameLoadCase): FrameSolution | FrameSkip => {
+  const woodParts = parts.filter((part) => part.type !== 'hardware');
+  const members = woodParts.filter((part) => part.type === 'lumber' && Math.max(...part.dimensions) > 0).map(toMember);
+  if (members.length === 0) return { skipped: 'no-lumber', nodeCount: 0 };
+
+  const boundsById = new Map(woodParts.map((part) => [part.id, worldBounds(part)]));
+  const memberBounds = (member: Member) => boundsById.get(member.part.id) as THREE.Box3;
+  const others = woodParts.filter((part) => part.type !== 'lumber');
+  const fasteners = parts
+    .filter((part) => part.type === 'hardware' && part.hardwareKind === 'fastener')
+    .map(worldBounds);
+  const modelMinY = Math.min(...woodParts.map((part) => (boundsById.get(part.id) as THREE.Box3).min.y));
+
+  const joints: Array<{ a: Member; b: Member; point: THREE.Vector3; fixity: number }> = [];
+  for (let i = 0; i < members.length; i += 1) {
+    for (let j = i + 1; j < members.length; j += 1) {
+      const a = memberBounds(members[i]);
+      const b = memberBounds(members[j]);
+      const fastener = fasteners.find((bounds) => embeds(bounds, a) && embeds(bounds, b));
+      if (!fastener && !touches(a, b)) continue;
+      joints.push({
+        a: members[i],
+        b: members[j],
+        point: fastener ? fastener.getCenter(new THREE.Vector3()) : overlapCenter(a, b),
+        fixity: fastener ? FASTENED_FIXITY : CONTACT_FIXITY,
+      });
+    }
+  }
+
+  const supports: Array<{ member: Member; param: number }> = [];
+  const pointLoads: PointLoad[] = [];
+  const liveLoadScale = loadCase.vertical * LIVE_LOAD_PSF / 144;
+  const exposedTop = (bounds: THREE.Box3, id: string) => !woodParts.some((other) => {
+    if (other.id === id) return false;
+    const above = boundsById.get(other.id) as THREE.Box3;
+    return Math.abs(above.min.y - bounds.max.y) <= CONTACT_TOLERANCE
+      && axisOverlap(above, bounds, 'x') >= MIN_OVERLAP
+      && axisOverlap(above, bounds, 'z') >= MIN_OVERLAP;
+  });
+  const horizontal = (bounds: THREE.Box3) => {
+    const size = bounds.getSize(new THREE.Vector3());
+    return size.y <= Math.min(size.x, size.z);
+  };
+
+  members.forEach((member) => {
+    const bounds = memberBounds(member);
+    if (bounds.min.y <= modelMinY + GROUND_TOLERANCE) {
+      const end = pointAt(member, member.length);
+      if (Math.abs(member.direction.y) > 0.5) {
+        supports.push({ member, param: end.y < member.start.y ? member.length : 0 });
+      } else {
+        supports.push({ member, param: 0 }, { member, param: member.length });
+      }
+    }
+    others.forEach((other) => {
+      const otherBounds = boundsById.get(other.id) as THREE.Box3;
+      const area = axisOverlap(bounds, otherBounds, 'x') * axisOverlap(bounds, otherBounds, 'z');
+      if (axisOverlap(bounds, otherBounds, 'x') < MIN_OVERLAP || axisOverlap(bounds, otherBounds, 'z') < MIN_OVERLAP || area <= 0) return;
+      if (Math.abs(bounds.min.y - otherBounds.max.y) <= CONTACT_TOLERANCE) {
+        supports.push({ member, param: projectParam(member, overlapCenter(bounds, otherBounds)) });
+      }
+    });
+  });
+
+  const carriersUnder = (bounds: THREE.Box3) => members
+    .map((member) => {
+      const below = memberBounds(member);
+      if (Math.abs(bounds.min.y - below.max.y) > CONTACT_TOLERANCE) return null;
+      const x = axisOverlap(bounds, below, 'x');
+      const z = axisOverlap(bounds, below, 'z');
+      return x >= MIN_OVERLAP && z >= MIN_OVERLAP ? { member, area: x * z, point: overlapCenter(bounds, below) } : null;
+    })
+    .filter((carrier): carrier is { member: Member; area: number; point: THREE.Vector3 } => carrier !== null);
+
+  // Panels and boards resting on the frame hand their weight (and any live load) to the members under them.
+  others.forEach((other) => {
+    const bounds = boundsById.get(other.id) as THREE.Box3;
+    const carriers = carriersUnder(bounds);
+    const totalArea = carriers.reduce((sum, carrier) => sum + carrier.area, 0);
+    if (totalArea <= 0) return;
+    const size = bounds.getSize(new THREE.Vector3());
+    const liveLoad = horizontal(bounds) && exposedTop(bounds, other.id) ? size.x * size.z * liveLoadScale : 0;
+    const load = partWeightLb(other) + liveLoad;
+    carriers.forEach((carrier) => pointLoads.push({
+      member: carrier.member,
+      param: projectParam(carrier.member, carrier.point),
+      force: new THREE.Vector3(0, (-load * carrier.area) / totalArea, 0),
+    }));
+  });
+
+  // A placed load acts where it lands on a member. On a panel it passes to the members under it,
+  // the nearer ones taking more of it.
+  const droppedLoadPartIds = new Set<string>();
+  (loadCase.placed ?? []).forEach((load) => {
+    const member = members.find((entry) => entry.part.id === load.partId);
+    if (member) {
+      pointLoads.push({ member, param: projectParam(member, load.point), force: load.force.clone() });
+      return;
+    }
+    const bounds = boundsById.get(load.partId);
+    if (!bounds) {
+      droppedLoadPartIds.add(load.partId);
+      return;
+    }
+    const carriers = carriersUnder(bounds).map((carrier) => ({
+      ...carrier,
+      weight: carrier.area / (1 + Math.hypot(carrier.point.x - load.point.x, carrier.point.z - load.point.z)),
+    }));
+    const totalWeight = carriers.reduce((sum, carrier) => sum + carrier.weight, 0);
+    if (totalWeight <= 0) {
+      droppedLoadPartIds.add(load.partId);
+      return;
+    }
+    carriers.forEach((carrier) => pointLoads.push({
+      member: carrier.member,
+      param: projectParam(carrier.member, load.point),
+      force: load.force.clone().multiplyScalar(carrier.weight / totalWeight),
+    }));
+  });
+
+  joints.forEach((joint) => {
+    joint.a.params.push(projectParam(joint.a, joint.point));
+    joint.b.params.push(projectParam(joint.b, joint.point));
+  });
+  supports.forEach((support) => support.member.params.push(support.param));
+  pointLoads.forEach((load) => load.member.params.push(load.param));
+
+  const nodes: THREE.Vector3[] = [];
+  members.forEach((member) => {
+    member.params = [...member.params]
+      .sort((a, b) => a - b)
+      .reduce<number[]>((kept, param) => (
+        kept.length === 0 || param - kept[kept.length - 1] > NODE_MERGE_TOLERANCE ? [...kept, param] : kept
+      ), []);
+    if (member.length - member.params[member.params.length - 1] > 1e-6) {
+      member.params[member.params.length - 1] = member.length;
+    }
+    member.nodes = member.params.map((param) => nodes.push(pointAt(member, param)) - 1);
+  });
+
+  const elements: Element[] = [];
+  members.forEach((member) => {
+    const species = partSpecies(member.part);
+    const rotation = localRotation(member.direction, member.sectionY);
+    const area = member.depthY * member.depthZ;
+    const iz = (member.depthZ * member.depthY ** 3) / 12;
+    const iy = (member.depthY * member.depthZ ** 3) / 12;
+    const j = rectangleTorsion(member.depthY, member.depthZ);
+    const size = memberBounds(member).getSize(new THREE.Vector3());
+    const liveLoad = horizontal(memberBounds(member)) && exposedTop(memberBounds(member), member.part.id)
+      ? size.x * size.z * liveLoadScale
+      : 0;
+    const perInch = new THREE.Vector3(0, -(partWeightLb(member.part) + liveLoad) / member.length, 0);
+    for (let index = 1; index < member.nodes.length; index += 1) {
+      const length = member.params[index] - member.params[index - 1];
+      if (length <= 1e-6) continue;
+      const localLoad = toLocal(rotation, perInch.toArray(), 0);
+      elements.push({
+        member,
+        from: member.nodes[index - 1],
+        to: member.nodes[index],
+        rotation,
+        stiffness: frameStiffness(species.modulusPsi, species.modulusPsi * SHEAR_MODULUS_RATIO, area, iy, iz, j, length),
+        equivalentLoad: uniformEquivalentLoad(localLoad, length),
+        uniformLoad: perInch,
+        length,
+      });
+    }
+  });
+
+  // Joints connect the two members' centrelines through a short stiff link, softened in bending
+  // for joints that only touch. Coincident points share a node instead.
+  const merged = nodes.map((_, index) => index);
+  const root = (index: number): number => (merged[index] === index ? index : (merged[index] = root(merged[index])));
+  joints.forEach((joint) => {
+    const from = nodeFor(joint.a, projectParam(joint.a, joint.point));
+    const to = nodeFor(joint.b, projectParam(joint.b, joint.point));
+    const offset = nodes[to].clone().sub(nodes[from]);
+    const length = offset.length();
+    if (length < 1e-3) {
+      merged[root(to)] = root(from);
+      return;
+    }
+    const section = LINK_SECTION * joint.fixity;
+    elements.push({
+      member: null,
+      from,
+      to,
+      rotation: localRotation(offset, joint.a.direction),
+      stiffness: frameStiffness(LINK_MODULUS, LINK_MODULUS * SHEAR_MODULUS_RATIO, LINK_SECTION, section, section, section, length),
+      equivalentLoad: new Array<number>(12).fill(0),
+      uniformLoad: new THREE.Vector3(),
+      length,
+    });
+  });
+
+  const owners = [...new Set(nodes.map((_, index) => root(index)))];
+  const ownerIndex = new Map(owners.map((owner, index) => [owner, index]));
+  const links = elements.map((element): [number, number] => [
+    ownerIndex.get(root(element.from)) as number,
+    ownerIndex.get(root(element.to)) as number,
+  ]);
+  const dofIndex = new Map<number, number>();
+  bandOrder(owners.length, links).forEach((index, position) => dofIndex.set(owners[index], position));
+  const dofOf = (node: number) => (dofIndex.get(root(node)) as number) * 6;
+  const n = dofIndex.size * 6;
+  const bandwidth = elements.reduce(
+    (widest, element) => Math.max(widest, Math.abs(dofOf(element.from) - dofOf(element.to)) + 5),
+    5
+  );
+  if (n * (bandwidth + 1) ** 2 > MAX_BAND_WORK) return { skipped: 'too-large', nodeCount: dofIndex.size };
+  const width = bandwidth + 1;
+  const bandAt = (i: number, j: number) => i * width + j - i + bandwidth;
+  const stiffness = new Float64Array(n * width);
+  const loads = new Float64Array(n);
+
+  elements.forEach((element) => {
+    const dofs = [...Array.from({ length: 6 }, (_, i) => dofOf(element.from) + i), ...Array.from({ length: 6 }, (_, i) => dofOf(element.to) + i)];
+    const r = element.rotation;
+    // Global stiffness is R^T k R, taken one 3x3 block at a time.
+    for (let row = 0; row < 4; row += 1) {
+      for (let col = 0; col < 4; col += 1) {
+        for (let a = 0; a < 3; a += 1) {
+          for (let b = 0; b < 3; b += 1) {
+            let value = 0;
+            for (let c = 0; c < 3; c += 1) {
+              for (let d = 0; d < 3; d += 1) {
+                value += r[c][a] * element.stiffness[row * 3 + c][col * 3 + d] * r[d][b];
+              }
+            }
+            const i = dofs[row * 3 + a];
+            const j = dofs[col * 3 + b];
+            // Only the lower band is stored; the element matrix is symmetric.
+            if (i >= j) stiffness[bandAt(i, j)] += value;
+          }
+        }
+      }
+    }
+    for (let block = 0; block < 4; block += 1) {
+      const force = toGlobal(element.rotation, element.equivalentLoad.slice(block * 3, block * 3 + 3));
+      force.forEach((value, axis) => {
+        loads[dofs[block * 3 + axis]] += value;
+      });
+    }
+  });
+
+  const addForce = (node: number, force: THREE.Vector3) => {
+    const dof = dofOf(node);
+    loads[dof] += force.x;
+    loads[dof + 1] += force.y;
+    loads[dof + 2] += force.z;
+  };
+  pointLoads.forEach((load) => addForce(nodeFor(load.member, load.param), load.force));
+
+  const topY = Math.max(...nodes.map((node) => node.y));
+  const topNodes = nodes.map((node, index) => ({ node, index })).filter(({ node }) => node.y >= topY - 0.5);
+  if (loadCase.lateral > 0) {
+    const share = (LATERAL_LOAD_LB * loadCase.lateral) / topNodes.length;
+    topNodes.forEach(({ index }) => addForce(index, new THREE.Vector3(share, 0, 0)));
+  }
+  if (loadCase.torsion > 0) {
+    const byX = [...topNodes].sort((a, b) => a.node.x - b.node.x);
+    const force = TORSION_LOAD_LB * loadCase.torsion;
+    addForce(byX[0].index, new THREE.Vector3(0, 0, force));
+    addForce(byX[byX.length - 1].index, new THREE.Vector3(0, 0, -force));
+  }
+  if (loadCase.impact > 0) {
+    const center = nodes.reduce((sum, node) => sum.add(node), new THREE.Vector3()).divideScalar(nodes.length);
+    const target = topNodes.reduce((best, entry) => (
+      Math.hypot(entry.node.x - center.x, entry.node.z - center.z) < Math.hypot(best.node.x - center.x, best.node.z - center.z) ? entry : best
+    ));
+    addForce(target.index, new THREE.Vector3(0, -IMPACT_LOAD_LB * loadCase.impact, 0));
+  }
+
+  // A tiny spring on every degree of freedom keeps mechanisms solvable; they show up as
+  // runaway displacements instead of a singular matrix.
+  let maxDiagonal = 0;
+  for (let i = 0; i < n; i += 1) maxDiagonal = Math.max(maxDiagonal, stiffness[bandAt(i, i)]);
+  const spring = Math.max(maxDiagonal * 1e-10, 1e-9);
+  for (let i = 0; i < n; i += 1) stiffness[bandAt(i, i)] += spring;
+  const fixed = new Set<number>();
+  supports.forEach((support) => {
+    const dof = dofOf(nodeFor(support.member, support.param));
+    [0, 1, 2].forEach((axis) => fixed.add(dof + axis));
+  });
+  fixed.forEach((dof) => {
+    for (let j = Math.max(0, dof - bandwidth); j < dof; j += 1) stiffness[bandAt(dof, j)] = 0;
+    for (let i = dof + 1; i <= Math.min(n - 1, dof + bandwidth); i += 1) stiffness[bandAt(i, dof)] = 0;
+    stiffness[bandAt(dof, dof)] = 1;
+    loads[dof] = 0;
+  });
+
+  const displacement = solveBanded(stiffness, loads, n, bandwidth);
+  if (!displacement) return { skipped: 'unsolvable', nodeCount: dofIndex.size };
+
+  const translation = (node: number) => {
+    const dof = dofOf(node);
+    return Math.hypot(displacement[dof], displacement[dof + 1], displacement[dof + 2]);
+  };
+  const utilization: Record<string, number> = {};
+  const unstable = new Set<string>();
+  let maxDeflectionIn = 0;
+
+  elements.forEach((element) => {
+    const member = element.member;
+    if (!member) return;
+    const drift = Math.max(translation(element.from), translation(element.to));
+    if (drift > MECHANISM_DISPLACEMENT_IN) {
+      unstable.add(member.part.id);
+      return;
+    }
+    maxDeflectionIn = Math.max(maxDeflectionIn, drift);
+
+    const global = [...Array.from({ length: 6 }, (_, i) => displacement[dofOf(element.from) + i]), ...Array.from({ length: 6 }, (_, i) => displacement[dofOf(element.to) + i])];
+    const local = [0, 3, 6, 9].flatMap((offset) => toLocal(element.rotation, global, offset));
+    const forces = element.stiffness.map((row, index) => (
+      row.reduce((sum, value, column) => sum + value * local[column], 0) - element.equivalentLoad[index]
+    ));
+
+    const area = member.depthY * member.depthZ;
+    const sectionZ = (member.depthZ * member.depthY ** 2) / 6;
+    const sectionY = (member.depthY * member.depthZ ** 2) / 6;
+    const q = toLocal(element.rotation, element.uniformLoad.toArray(), 0);
+    const half = element.length / 2;
+    const midZ = -forces[5] + forces[1] * half + (q[1] * half * half) / 2;
+    const midY = forces[4] + forces[2] * half + (q[2] * half * half) / 2;
+    const stresses = [
+      Math.abs(forces[0]) / area + Math.abs(forces[5]) / sectionZ + Math.abs(forces[4]) / sectionY,
+      Math.abs(forces[6]) / area + Math.abs(forces[11]) / sectionZ + Math.abs(forces[10]) / sectionY,
+      Math.abs(forces[0]) / area + Math.abs(midZ) / sectionZ + Math.abs(midY) / sectionY,
+    ];
+    const allowable = partSpecies(member.part).bendingStrengthPsi / SAFETY_FACTOR;
+    const ratio = Math.max(...stresses) / allowable;
+    utilization[member.part.id] = Math.max(utilization[member.part.id] ?? 0, ratio);
+  });
+
+  unstable.forEach((id) => {
+    utilization[id] = 1;
+  });
+  members.forEach((member) => {
+    utilization[member.part.id] = utilization[member.part.id] ?? 0;
+  });
+  const criticalPartId = Object.keys(utilization).reduce<string | null>(
+    (best, id) => (best === null || utilization[id] > utilization[best] ? id : best),
+    null
+  );
+
+  return {
+    memberCount: members.length,
+    nodeCount: dofIndex.size,
+    jointCount: joints.length,
+    utilization,
+    unstablePartIds: [...unstable],
+    maxUtilization: criticalPartId ? utilization[criticalPartId] : 0,
+    criticalPartId,
+    maxDeflectionIn,
+    droppedLoadPartIds: [...droppedLoadPartIds],
+  };
+};
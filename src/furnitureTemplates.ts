@@ -0,0 +1,282 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FurnitureTemplateId, FurnitureTemplateParams, PartData, StockDefinition } from './types';
+import { findStockDefinition } from './stockCatalog';
+
+type Vec3 = [number, number, number];
+
+const builtInStock = (name: string) => findStockDefinition(name) as StockDefinition;
+
+type TemplatePiece = {
+  stock: StockDefinition;
+  size: Vec3; // world extents along x, y, z
+  center: Vec3;
+};
+
+export type TemplateField = {
+  key: 'width' | 'height' | 'depth' | 'shelfCount';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+export type FurnitureTemplate = {
+  id: FurnitureTemplateId;
+  label: string;
+  description: string;
+  stockLabel: string;
+  stockOptions: string[];
+  fields: TemplateField[];
+  defaults: FurnitureTemplateParams;
+  build: (params: FurnitureTemplateParams, stock: StockDefinition) => TemplatePiece[];
+};
+
+const SLAT_GAP = 0.25;
+const LEG = builtInStock('4x4 Post');
+
+const evenlySpaced = (count: number, start: number, end: number) =>
+  count <= 1
+    ? [(start + end) / 2]
+    : Array.from({ length: count }, (_, index) => start + ((end - start) * index) / (count - 1));
+
+const slatCenters = (span: number, slatWidth: number) => {
+  const count = Math.max(2, Math.floor((span + SLAT_GAP) / (slatWidth + SLAT_GAP)));
+  return evenlySpaced(count, -span / 2 + slatWidth / 2, span / 2 - slatWidth / 2);
+};
+
+const buildBookshelf = ({ width, height, depth, shelfCount }: FurnitureTemplateParams, stock: StockDefinition): TemplatePiece[] => {
+  const t = stock.thickness;
+  const innerWidth = width - t * 2;
+  const shelfSpacing = (height - t * 2) / (shelfCount + 1);
+  return [
+    { stock, size: [t, height, depth], center: [-width / 2 + t / 2, height / 2, 0] },
+    { stock, size: [t, height, depth], center: [width / 2 - t / 2, height / 2, 0] },
+    { stock, size: [innerWidth, t, depth], center: [0, height - t / 2, 0] },
+    { stock, size: [innerWidth, t, depth], center: [0, t / 2, 0] },
+    ...Array.from({ length: shelfCount }, (_, index): TemplatePiece => ({
+      stock,
+      size: [innerWidth, t, depth],
+      center: [0, t + shelfSpacing * (index + 1), 0],
+    })),
+  ];
+};
+
+// Slatted seat on a 4x4 leg frame; the optional lower shelf rests on side stretchers.
+const buildBench = ({ width, height, depth, shelfCount }: FurnitureTemplateParams, stock: StockDefinition) => {
+  const t = stock.thickness;
+  const w = stock.width;
+  const legX = width / 2 - LEG.width / 2 - 2;
+  const legZ = depth / 2 - LEG.width / 2;
+  const legHeight = height - t;
+  const pieces: TemplatePiece[] = [];
+
+  [-1, 1].forEach((sx) => [-1, 1].forEach((sz) => {
+    pieces.push({ stock: LEG, size: [LEG.width, legHeight, LEG.width], center: [sx * legX, legHeight / 2, sz * legZ] });
+  }));
+  [-1, 1].forEach((sz) => {
+    pieces.push({
+      stock,
+      size: [legX * 2 - LEG.width, w, t],
+      center: [0, legHeight - w / 2, sz * legZ],
+    });
+  });
+  [-1, 1].forEach((sx) => {
+    pieces.push({
+      stock,
+      size: [t, w, legZ * 2 - LEG.width],
+      center: [sx * legX, legHeight - w / 2, 0],
+    });
+  });
+  slatCenters(depth, w).forEach((z) => {
+    pieces.push({ stock, size: [width, t, w], center: [0, height - t / 2, z] });
+  });
+
+  if (shelfCount > 0) {
+    const stretcherTop = Math.min(6, legHeight / 3) + w;
+    [-1, 1].forEach((sx) => {
+      pieces.push({
+        stock,
+        size: [t, w, legZ * 2 - LEG.width],
+        center: [sx * legX, stretcherTop - w / 2, 0],
+      });
+    });
+    slatCenters(legZ * 2 - LEG.width, w).forEach((z) => {
+      pieces.push({ stock, size: [legX * 2 + LEG.width, t, w], center: [0, stretcherTop + t / 2, z] });
+    });
+  }
+  return pieces;
+};
+
+// Plywood top on a 4x4 leg frame with aprons; each lower shelf is a plywood panel on stretchers.
+const buildWorkbench = ({ width, height, depth, shelfCount }: FurnitureTemplateParams, stock: StockDefinition) => {
+  const top = builtInStock('Plywood 3/4"');
+  const t = stock.thickness;
+  const w = stock.width;
+  const legX = width / 2 - LEG.width / 2 - 2;
+  const legZ = depth / 2 - LEG.width / 2 - 2;
+  const legHeight = height - top.thickness;
+  const pieces: TemplatePiece[] = [
+    { stock: top, size: [width, top.thickness, depth], center: [0, height - top.thickness / 2, 0] },
+  ];
+
+  [-1, 1].forEach((sx) => [-1, 1].forEach((sz) => {
+    pieces.push({ stock: LEG, size: [LEG.width, legHeight, LEG.width], center: [sx * legX, legHeight / 2, sz * legZ] });
+  }));
+
+  const addFrame = (frameTop: number) => {
+    [-1, 1].forEach((sz) => {
+      pieces.push({ stock, size: [legX * 2 - LEG.width, w, t], center: [0, frameTop - w / 2, sz * legZ] });
+    });
+    [-1, 1].forEach((sx) => {
+      pieces.push({ stock, size: [t, w, legZ * 2 - LEG.width], center: [sx * legX, frameTop - w / 2, 0] });
+    });
+  };
+
+  addFrame(legHeight);
+  const lowestFrameTop = Math.min(6, legHeight / 4) + w;
+  const highestFrameTop = legHeight - w - 8;
+  evenlySpaced(shelfCount, lowestFrameTop, Math.max(lowestFrameTop, highestFrameTop))
+    .slice(0, shelfCount)
+    .forEach((frameTop) => {
+      addFrame(frameTop);
+      pieces.push({
+        stock: top,
+        size: [legX * 2 - LEG.width, top.thickness, legZ * 2 + LEG.width],
+        center: [0, frameTop + top.thickness / 2, 0],
+      });
+    });
+  return pieces;
+};
+
+export const FURNITURE_TEMPLATES: FurnitureTemplate[] = [
+  {
+    id: 'bookshelf',
+    label: 'Bookshelf',
+    description: 'Sheet-goods case with a fixed top, bottom and evenly spaced shelves.',
+    stockLabel: 'Panels',
+    stockOptions: ['Plywood 3/4"', 'MDF 3/4"'],
+    fields: [
+      { key: 'width', label: 'Width', min: 12, max: 96, step: 0.5 },
+      { key: 'height', label: 'Height', min: 12, max: 96, step: 0.5 },
+      { key: 'depth', label: 'Depth', min: 6, max: 24, step: 0.5 },
+      { key: 'shelfCount', label: 'Shelves', min: 0, max: 10, step: 1 },
+    ],
+    defaults: { width: 36, height: 72, depth: 12, shelfCount: 4, stock: 'Plywood 3/4"' },
+    build: buildBookshelf,
+  },
+  {
+    id: 'bench',
+    label: 'Bench',
+    description: 'Slatted seat on 4x4 legs with aprons and an optional lower shelf.',
+    stockLabel: 'Slats & aprons',
+    stockOptions: ['2x4 Lumber', '2x6 Lumber'],
+    fields: [
+      { key: 'width', label: 'Length', min: 24, max: 96, step: 0.5 },
+      { key: 'height', label: 'Height', min: 12, max: 24, step: 0.5 },
+      { key: 'depth', label: 'Depth', min: 10, max: 24, step: 0.5 },
+      { key: 'shelfCount', label: 'Lower shelf', min: 0, max: 1, step: 1 },
+    ],
+    defaults: { width: 48, height: 18, depth: 14, shelfCount: 0, stock: '2x4 Lumber' },
+    build: buildBench,
+  },
+  {
+    id: 'workbench',
+    label: 'Workbench',
+    description: 'Plywood top on a 4x4 leg frame, with up to two lower shelves.',
+    stockLabel: 'Aprons & stretchers',
+    stockOptions: ['2x4 Lumber', '2x6 Lumber'],
+    fields: [
+      { key: 'width', label: 'Width', min: 36, max: 96, step: 0.5 },
+      { key: 'height', label: 'Height', min: 28, max: 40, step: 0.5 },
+      { key: 'depth', label: 'Depth', min: 18, max: 36, step: 0.5 },
+      { key: 'shelfCount', label: 'Lower shelves', min: 0, max: 2, step: 1 },
+    ],
+    defaults: { width: 60, height: 34, depth: 24, shelfCount: 1, stock: '2x4 Lumber' },
+    build: buildWorkbench,
+  },
+];
+
+export const getFurnitureTemplate = (id: FurnitureTemplateId) =>
+  FURNITURE_TEMPLATES.find((template) => template.id === id) as FurnitureTemplate;
+
+export const isFurnitureTemplateId = (value: unknown): value is FurnitureTemplateId =>
+  FURNITURE_TEMPLATES.some((template) => template.id === value);
+
+export const normalizeTemplateParams = (
+  id: FurnitureTemplateId,
+  params: Partial<FurnitureTemplateParams>
+): FurnitureTemplateParams => {
+  const template = getFurnitureTemplate(id);
+  const normalized = { ...template.defaults };
+  template.fields.forEach((field) => {
+    const value = params[field.key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return;
+    const clamped = Math.max(field.min, Math.min(field.max, value));
+    normalized[field.key] = field.step >= 1 ? Math.round(clamped) : clamped;
+  });
+  if (params.stock && template.stockOptions.includes(params.stock)) {
+    normalized.stock = params.stock;
+  }
+  return normalized;
+};
+
+const toPartData = ({ stock, size, center }: TemplatePiece): PartData => {
+  const base = {
+    id: uuidv4(),
+    name: stock.name,
+    stock: stock.name,
+    type: stock.type,
+    position: center,
+    color: stock.color,
+    profile: { type: 'rect' as const },
+  };
+  if (stock.type === 'lumber') {
+    return { ...base, dimensions: size, rotation: [0, 0, 0] };
+  }
+
+  // Sheet parts keep their thickness on local y, which is what sheet nesting reads.
+  const [x, y, z] = size;
+  if (x <= y && x <= z) {
+    return { ...base, dimensions: [y, x, z], rotation: [0, 0, Math.PI / 2] };
+  }
+  if (z <= x && z <= y) {
+    return { ...base, dimensions: [x, z, y], rotation: [Math.PI / 2, 0, 0] };
+  }
+  return { ...base, dimensions: size, rotation: [0, 0, 0] };
+};
+
+const CONTACT_TOLERANCE = 0.01;
+const MIN_CONTACT_SPAN = 0.5;
+
+// Pieces are axis-aligned boxes, so a joint is any pair that touches face to face.
+const piecesTouch = (a: TemplatePiece, b: TemplatePiece) => {
+  let touchingAxes = 0;
+  for (let axis = 0; axis < 3; axis += 1) {
+    const overlap = Math.min(a.center[axis] + a.size[axis] / 2, b.center[axis] + b.size[axis] / 2)
+      - Math.max(a.center[axis] - a.size[axis] / 2, b.center[axis] - b.size[axis] / 2);
+    if (overlap < -CONTACT_TOLERANCE) return false;
+    if (overlap <= CONTACT_TOLERANCE) {
+      touchingAxes += 1;
+    } else if (overlap < MIN_CONTACT_SPAN) {
+      return false;
+    }
+  }
+  return touchingAxes === 1;
+};
+
+// Builds the boards around a floor-level origin, plus the pairs that should be screwed together.
+export const generateTemplateParts = (id: FurnitureTemplateId, params: FurnitureTemplateParams) => {
+  const template = getFurnitureTemplate(id);
+  const normalized = normalizeTemplateParams(id, params);
+  const pieces = template.build(normalized, builtInStock(normalized.stock));
+  const parts = pieces.map(toPartData);
+  const joints: [string, string][] = [];
+  pieces.forEach((piece, i) => {
+    pieces.slice(i + 1).forEach((other, offset) => {
+      if (piecesTouch(piece, other)) {
+        joints.push([parts[i].id, parts[i + 1 + offset].id]);
+      }
+    });
+  });
+  return { parts, joints };
+};
@@ -0,0 +1,81 @@
+import * as THREE from 'three';
+import { LoadMarker, PartData } from './types';
+import { anchorWorldPoint } from './measurement';
+
+export type LoadPresetId = 'shelf-load' | 'seat-load' | 'lean';
+
+export type LoadPreset = {
+  id: LoadPresetId;
+  label: string;
+  kind: LoadMarker['kind'];
+  magnitudeLb: number;
+  // 'push' acts level, away from the viewer, the way someone leaning on a rail pushes it.
+  direction: 'down' | 'push';
+};
+
+// Guards are designed for 200 lb pushed at the top rail (IRC R301.5).
+export const LOAD_PRESETS: LoadPreset[] = [
+  { id: 'shelf-load', label: 'Shelf load', kind: 'point', magnitudeLb: 50, direction: 'down' },
+  { id: 'seat-load', label: 'Seated person', kind: 'distributed', magnitudeLb: 200, direction: 'down' },
+  { id: 'lean', label: 'Leaning person', kind: 'point', magnitudeLb: 200, direction: 'push' },
+];
+
+export const getLoadPreset = (id: LoadPresetId) =>
+  LOAD_PRESETS.find((preset) => preset.id === id) ?? LOAD_PRESETS[0];
+
+export type ResolvedLoad = {
+  marker: LoadMarker;
+  part: PartData;
+  anchor: THREE.Vector3;
+  // Where the force is applied: the anchor, or a grid over the top face for distributed loads.
+  points: THREE.Vector3[];
+  // Force at each point, in pounds.
+  force: THREE.Vector3;
+};
+
+const DISTRIBUTED_GRID = [-2 / 3, 0, 2 / 3];
+
+// The face of the part that points most nearly up, sampled on an even grid.
+const topFacePoints = (part: PartData) => {
+  const basis = new THREE.Matrix4().makeRotationFromEuler(
+    new THREE.Euler(part.rotation[0], part.rotation[1], part.rotation[2])
+  );
+  const axes = [0, 1, 2].map((axis) => new THREE.Vector3().setFromMatrixColumn(basis, axis));
+  const up = [0, 1, 2].reduce((best, axis) => (Math.abs(axes[axis].y) > Math.abs(axes[best].y) ? axis : best), 0);
+  const [u, v] = [0, 1, 2].filter((axis) => axis !== up);
+  const center = new THREE.Vector3(...part.position)
+    .addScaledVector(axes[up], (Math.sign(axes[up].y) || 1) * (part.dimensions[up] / 2));
+  return DISTRIBUTED_GRID.flatMap((a) => DISTRIBUTED_GRID.map((b) => center.clone()
+    .addScaledVector(axes[u], (a * part.dimensions[u]) / 2)
+    .addScaledVector(axes[v], (b * part.dimensions[v]) / 2)));
+};
+
+// Where a marker acts for the current part poses; null once its part is gone or it carries no load.
+export const resolveLoadMarker = (marker: LoadMarker, parts: PartData[]): ResolvedLoad | null => {
+  const part = parts.find((entry) => entry.id === marker.anchor.partId);
+  const direction = new THREE.Vector3(...marker.direction);
+  if (!part || part.type === 'hardware' || marker.magnitudeLb <= 0 || direction.lengthSq() < 1e-9) return null;
+
+  const anchor = anchorWorldPoint(part, marker.anchor.offset);
+  const points = marker.kind === 'distributed' ? topFacePoints(part) : [anchor];
+  return {
+    marker,
+    part,
+    anchor,
+    points,
+    force: direction.normalize().multiplyScalar(marker.magnitudeLb / points.length),
+  };
+};
+
+export const resolveLoadMarkers = (markers: LoadMarker[], parts: PartData[]) =>
+  markers.flatMap((marker) => {
+    const resolved = resolveLoadMarker(marker, parts);
+    return resolved ? [resolved] : [];
+  });
+
+// Unit direction for a preset placed while looking along `view`.
+export const presetDirection = (preset: LoadPreset, view: THREE.Vector3): [number, number, number] => {
+  if (preset.direction === 'down') return [0, -1, 0];
+  const level = new THREE.Vector3(view.x, 0, view.z);
+  return level.lengthSq() > 1e-9 ? level.normalize().toArray() : [0, 0, -1];
+};
@@ -0,0 +1,166 @@
+import * as THREE from 'three';
+import { DimensionAnnotation, Measurement, PartData } from './types';
+
+export type MeasureSnapKind = 'corner' | 'edge' | 'face';
+
+export type MeasureSnap = {
+  kind: MeasureSnapKind;
+  point: THREE.Vector3;
+  normal: THREE.Vector3 | null; // faces only
+  partId: string;
+  offset: [number, number, number]; // fraction of the part's half-dimensions
+  localNormal: [number, number, number] | null;
+};
+
+export const SNAP_COLORS: Record<MeasureSnapKind, string> = {
+  corner: '#dc2626',
+  edge: '#ea580c',
+  face: '#2563eb',
+};
+
+// Normals this close to parallel count as facing each other (about 1.8 degrees).
+const PARALLEL_DOT = 0.9995;
+
+const BOX_EDGES: Array<[number, number]> = [
+  [0, 1], [2, 3], [4, 5], [6, 7],
+  [0, 2], [1, 3], [4, 6], [5, 7],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+
+const boxCorners = (box: THREE.Box3, matrixWorld: THREE.Matrix4) => {
+  const corners: THREE.Vector3[] = [];
+  [box.min.x, box.max.x].forEach((x) => {
+    [box.min.y, box.max.y].forEach((y) => {
+      [box.min.z, box.max.z].forEach((z) => {
+        corners.push(new THREE.Vector3(x, y, z).applyMatrix4(matrixWorld));
+      });
+    });
+  });
+  return corners;
+};
+
+const toPartSnap = (
+  kind: MeasureSnapKind,
+  point: THREE.Vector3,
+  normal: THREE.Vector3 | null,
+  partId: string,
+  box: THREE.Box3,
+  matrixWorld: THREE.Matrix4
+): MeasureSnap => {
+  const inverse = matrixWorld.clone().invert();
+  const local = point.clone().applyMatrix4(inverse);
+  const halfSize = box.getSize(new THREE.Vector3()).multiplyScalar(0.5);
+  const offset = local.toArray().map((value, axis) => {
+    const half = halfSize.getComponent(axis);
+    return half > 1e-9 ? value / half : 0;
+  }) as [number, number, number];
+  return {
+    kind,
+    point,
+    normal,
+    partId,
+    offset,
+    localNormal: normal ? normal.clone().transformDirection(inverse).toArray() : null,
+  };
+};
+
+// Snaps a ray hit on a part to the nearest box corner, then the nearest edge, then the face itself.
+// `box` is the part's local bounds; profiled parts snap to their bounding box.
+export const snapToPart = (
+  partId: string,
+  box: THREE.Box3,
+  matrixWorld: THREE.Matrix4,
+  hitPoint: THREE.Vector3,
+  faceNormal: THREE.Vector3,
+  snapRadius: number
+): MeasureSnap => {
+  const corners = boxCorners(box, matrixWorld);
+  const corner = corners.reduce<THREE.Vector3 | null>((best, candidate) => (
+    candidate.distanceTo(hitPoint) <= snapRadius
+      && (!best || candidate.distanceTo(hitPoint) < best.distanceTo(hitPoint))
+      ? candidate
+      : best
+  ), null);
+  if (corner) {
+    return toPartSnap('corner', corner.clone(), null, partId, box, matrixWorld);
+  }
+
+  let edgePoint: THREE.Vector3 | null = null;
+  BOX_EDGES.forEach(([a, b]) => {
+    const candidate = new THREE.Line3(corners[a], corners[b]).closestPointToPoint(hitPoint, true, new THREE.Vector3());
+    if (candidate.distanceTo(hitPoint) > snapRadius) return;
+    if (!edgePoint || candidate.distanceTo(hitPoint) < edgePoint.distanceTo(hitPoint)) {
+      edgePoint = candidate;
+    }
+  });
+  if (edgePoint) {
+    return toPartSnap('edge', edgePoint, null, partId, box, matrixWorld);
+  }
+
+  return toPartSnap('face', hitPoint.clone(), faceNormal.clone().normalize(), partId, box, matrixWorld);
+};
+
+const facesParallel = (start: MeasureSnap, end: MeasureSnap) => (
+  Boolean(start.normal && end.normal && Math.abs(start.normal.dot(end.normal)) >= PARALLEL_DOT)
+);
+
+const perpendicularFoot = (start: THREE.Vector3, normal: THREE.Vector3, end: THREE.Vector3) => (
+  start.clone().addScaledVector(normal, end.clone().sub(start).dot(normal))
+);
+
+// Two parallel faces measure the gap between their planes; anything else is point to point.
+export const resolveMeasurement = (start: MeasureSnap, end: MeasureSnap): Omit<Measurement, 'id'> => {
+  if (facesParallel(start, end)) {
+    const foot = perpendicularFoot(start.point, start.normal as THREE.Vector3, end.point);
+    return { kind: 'face', start: start.point.toArray(), end: foot.toArray() };
+  }
+  return { kind: 'point', start: start.point.toArray(), end: end.point.toArray() };
+};
+
+export const annotationFromSnaps = (start: MeasureSnap, end: MeasureSnap): Omit<DimensionAnnotation, 'id'> => {
+  const anchors = {
+    start: { partId: start.partId, offset: start.offset },
+    end: { partId: end.partId, offset: end.offset },
+  };
+  return facesParallel(start, end) && start.localNormal
+    ? { kind: 'face', ...anchors, normal: start.localNormal }
+    : { kind: 'point', ...anchors };
+};
+
+const partRotation = (part: PartData) => new THREE.Euler(part.rotation[0], part.rotation[1], part.rotation[2]);
+
+export const anchorWorldPoint = (part: PartData, offset: [number, number, number]) =>
+  new THREE.Vector3(
+    (offset[0] * part.dimensions[0]) / 2,
+    (offset[1] * part.dimensions[1]) / 2,
+    (offset[2] * part.dimensions[2]) / 2
+  )
+    .applyEuler(partRotation(part))
+    .add(new THREE.Vector3(...part.position));
+
+// Where an annotation sits for the current part poses; null once either part is gone.
+export const resolveAnnotation = (annotation: DimensionAnnotation, parts: PartData[]) => {
+  const startPart = parts.find((part) => part.id === annotation.start.partId);
+  const endPart = parts.find((part) => part.id === annotation.end.partId);
+  if (!startPart || !endPart) return null;
+
+  const start = anchorWorldPoint(startPart, annotation.start.offset);
+  let end = anchorWorldPoint(endPart, annotation.end.offset);
+  if (annotation.kind === 'face' && annotation.normal) {
+    const normal = new THREE.Vector3(...annotation.normal).applyEuler(partRotation(startPart)).normalize();
+    end = perpendicularFoot(start, normal, end);
+  }
+  const measurement: Omit<Measurement, 'id'> = { kind: annotation.kind, start: start.toArray(), end: end.toArray() };
+  return { measurement, startPart, endPart };
+};
+
+export const measurementLength = (measurement: Pick<Measurement, 'start' | 'end'>) =>
+  new THREE.Vector3(...measurement.end).distanceTo(new THREE.Vector3(...measurement.start));
+
+// Slope above or below the floor plane, in degrees.
+export const measurementAngle = (measurement: Pick<Measurement, 'start' | 'end'>) => {
+  const [dx, dy, dz] = measurement.end.map((value, axis) => value - measurement.start[axis]);
+  const run = Math.hypot(dx, dz);
+  if (run < 1e-9 && Math.abs(dy) < 1e-9) return 0;
+  return THREE.MathUtils.radToDeg(Math.atan2(Math.abs(dy), run));
+};
@@ -0,0 +1,149 @@
+import { PartData, PartGroup } from './types';
+
+export type GroupTreeNode = {
+  group: PartGroup;
+  depth: number;
+  children: GroupTreeNode[];
+  parts: PartData[];
+  // Every part in this group and the groups nested under it.
+  allParts: PartData[];
+};
+
+export type GroupTree = {
+  roots: GroupTreeNode[];
+  ungrouped: PartData[];
+};
+
+// Ancestry from the group itself up to its top-level group.
+export const groupAncestry = (groups: PartGroup[], groupId?: string) => {
+  const byId = new Map(groups.map((group) => [group.id, group]));
+  const chain: PartGroup[] = [];
+  const visited = new Set<string>();
+  let current = groupId ? byId.get(groupId) : undefined;
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    chain.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+};
+
+export const descendantGroupIds = (groups: PartGroup[], groupId: string) => {
+  const ids = new Set([groupId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    groups.forEach((group) => {
+      if (group.parentId && ids.has(group.parentId) && !ids.has(group.id)) {
+        ids.add(group.id);
+        grew = true;
+      }
+    });
+  }
+  return ids;
+};
+
+export const partsInGroup = (parts: PartData[], groups: PartGroup[], groupId: string) => {
+  const ids = descendantGroupIds(groups, groupId);
+  return parts.filter((part) => part.groupId !== undefined && ids.has(part.groupId));
+};
+
+// Groups that are hidden themselves or sit inside a hidden group.
+export const hiddenGroupIds = (groups: PartGroup[]) => new Set(
+  groups
+    .filter((group) => groupAncestry(groups, group.id).some((ancestor) => ancestor.hidden))
+    .map((group) => group.id)
+);
+
+export const pruneEmptyGroups = (groups: PartGroup[], parts: PartData[]) => {
+  if (groups.length === 0) return groups;
+  const occupied = new Set<string>();
+  parts.forEach((part) => {
+    groupAncestry(groups, part.groupId).forEach((group) => occupied.add(group.id));
+  });
+  return occupied.size === groups.length ? groups : groups.filter((group) => occupied.has(group.id));
+};
+
+export const buildGroupTree = (groups: PartGroup[], parts: PartData[]): GroupTree => {
+  const known = new Set(groups.map((group) => group.id));
+  const buildNode = (group: PartGroup, depth: number, visited: Set<string>): GroupTreeNode => {
+    const nextVisited = new Set(visited).add(group.id);
+    const children = groups
+      .filter((child) => child.parentId === group.id && !nextVisited.has(child.id))
+      .map((child) => buildNode(child, depth + 1, nextVisited));
+    const ownParts = parts.filter((part) => part.groupId === group.id);
+    return {
+      group,
+      depth,
+      children,
+      parts: ownParts,
+      allParts: [...ownParts, ...children.flatMap((child) => child.allParts)],
+    };
+  };
+
+  return {
+    roots: groups
+      .filter((group) => !group.parentId || !known.has(group.parentId))
+      .map((group) => buildNode(group, 0, new Set())),
+    ungrouped: parts.filter((part) => !part.groupId || !known.has(part.groupId)),
+  };
+};
+
+export const flattenGroupTree = (nodes: GroupTreeNode[]): GroupTreeNode[] =>
+  nodes.flatMap((node) => [node, ...flattenGroupTree(node.children)]);
+
+// Wraps the parts in a new group under their deepest shared group. Nested groups whose
+// parts are all included move in whole; partially selected ones give up just those parts.
+export const nestPartsInGroup = (
+  groups: PartGroup[],
+  parts: PartData[],
+  partIds: string[],
+  group: Pick<PartGroup, 'id' | 'name'>
+) => {
+  const selected = new Set(partIds);
+  const chains = parts
+    .filter((part) => selected.has(part.id))
+    .map((part) => groupAncestry(groups, part.groupId).reverse());
+
+  let shared = chains[0] ?? [];
+  chains.forEach((chain) => {
+    let length = 0;
+    while (length < shared.length && length < chain.length && shared[length].id === chain[length].id) {
+      length += 1;
+    }
+    shared = shared.slice(0, length);
+  });
+
+  const parentId = shared.length > 0 ? shared[shared.length - 1].id : undefined;
+  const movedGroupIds = new Set<string>();
+  chains.forEach((chain) => {
+    const child = chain[shared.length];
+    if (child && partsInGroup(parts, groups, child.id).every((part) => selected.has(part.id))) {
+      movedGroupIds.add(child.id);
+    }
+  });
+
+  const nextGroups: PartGroup[] = [
+    ...groups.map((existing) => (movedGroupIds.has(existing.id) ? { ...existing, parentId: group.id } : existing)),
+    { id: group.id, name: group.name, parentId },
+  ];
+  const nextParts = parts.map((part) => {
+    if (!selected.has(part.id)) return part;
+    const insideMovedGroup = groupAncestry(groups, part.groupId).some((ancestor) => movedGroupIds.has(ancestor.id));
+    return insideMovedGroup ? part : { ...part, groupId: group.id };
+  });
+
+  return { groups: nextGroups, parts: nextParts };
+};
+
+// Removes the group and hands its parts and nested groups to its parent.
+export const dissolveGroup = (groups: PartGroup[], parts: PartData[], groupId: string) => {
+  const target = groups.find((group) => group.id === groupId);
+  if (!target) return { groups, parts };
+  return {
+    groups: groups
+      .filter((group) => group.id !== groupId)
+      .map((group) => (group.parentId === groupId ? { ...group, parentId: target.parentId } : group)),
+    parts: parts.map((part) => (part.groupId === groupId ? { ...part, groupId: target.parentId } : part)),
+  };
+};
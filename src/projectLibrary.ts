@@ -0,0 +1,97 @@
+import { v4 as uuidv4 } from 'uuid';
+import { parseProjectFile, ProjectFile } from './projectSchema';
+import { PROJECTS_STORE, runRequest } from './localDatabase';
+
+export type LibraryProject = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  partCount: number;
+  project: ProjectFile;
+};
+
+export type LibraryProjectSummary = Omit<LibraryProject, 'project'>;
+
+const LAST_PROJECT_STORAGE_KEY = 'woodworker_last_project_id';
+
+const toSummary = ({ project: _project, ...summary }: LibraryProject): LibraryProjectSummary => summary;
+
+export const listLibraryProjects = async () => {
+  const records = await runRequest<LibraryProject[]>(PROJECTS_STORE, 'readonly', (store) => store.getAll());
+  return records
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getLibraryProject = (id: string) =>
+  runRequest<LibraryProject | undefined>(PROJECTS_STORE, 'readonly', (store) => store.get(id));
+
+// Stored payloads go through the same validation/migration path as imported files.
+export const readLibraryProject = async (id: string) => {
+  const record = await getLibraryProject(id);
+  if (!record) return null;
+  return { record, result: parseProjectFile(record.project) };
+};
+
+export const saveLibraryProject = async (id: string, project: ProjectFile) => {
+  const existing = await getLibraryProject(id);
+  const now = new Date().toISOString();
+  const record: LibraryProject = {
+    id,
+    name: project.projectName,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    partCount: project.parts.length,
+    project,
+  };
+  await runRequest(PROJECTS_STORE, 'readwrite', (store) => store.put(record));
+  return toSummary(record);
+};
+
+export const renameLibraryProject = async (id: string, name: string) => {
+  const existing = await getLibraryProject(id);
+  if (!existing) return null;
+  const record: LibraryProject = {
+    ...existing,
+    name,
+    updatedAt: new Date().toISOString(),
+    project: { ...existing.project, projectName: name },
+  };
+  await runRequest(PROJECTS_STORE, 'readwrite', (store) => store.put(record));
+  return toSummary(record);
+};
+
+export const duplicateLibraryProject = async (id: string) => {
+  const existing = await getLibraryProject(id);
+  if (!existing) return null;
+  const now = new Date().toISOString();
+  const name = `${existing.name} (copy)`;
+  const record: LibraryProject = {
+    ...existing,
+    id: uuidv4(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    project: { ...existing.project, projectName: name },
+  };
+  await runRequest(PROJECTS_STORE, 'readwrite', (store) => store.put(record));
+  return toSummary(record);
+};
+
+export const deleteLibraryProject = (id: string) =>
+  runRequest(PROJECTS_STORE, 'readwrite', (store) => store.delete(id));
+
+export const getLastOpenedProjectId = () => {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(LAST_PROJECT_STORAGE_KEY);
+};
+
+export const setLastOpenedProjectId = (id: string | null) => {
+  if (typeof window === 'undefined') return;
+  if (id) {
+    window.localStorage.setItem(LAST_PROJECT_STORAGE_KEY, id);
+  } else {
+    window.localStorage.removeItem(LAST_PROJECT_STORAGE_KEY);
+  }
+};
@@ -0,0 +1,588 @@
+import {
+  CutAllowances,
+  DimensionAnnotation,
+  FractionPrecision,
+  FurnitureTemplateParams,
+  HardwareKind,
+  HistoryEntry,
+  LengthUnit,
+  LoadMarker,
+  Measurement,
+  PartAnchor,
+  PartData,
+  PartGroup,
+  PartType,
+  PriceBook,
+  ProjectHistory,
+  ProjectSnapshot,
+  TemplateInstance,
+} from './types';
+import { normalizeCutAllowances } from './cutOptimizer';
+import { isFurnitureTemplateId, normalizeTemplateParams } from './furnitureTemplates';
+import { normalizePriceBook } from './stockCatalog';
+import { isWoodSpecies } from './species';
+import { normalizeFractionPrecision, normalizeLengthUnit } from './units';
+
+// Bump only when a saved field changes shape or meaning, and add a migration for it.
+export const PROJECT_SCHEMA_VERSION = 10;
+
+export type ProjectFile = {
+  schemaVersion: number;
+  projectName: string;
+  exportedAt: string;
+  cutAllowances: CutAllowances;
+  lengthUnit: LengthUnit;
+  fractionPrecision: FractionPrecision;
+  priceBook?: PriceBook;
+  parts: PartData[];
+  groups: PartGroup[];
+  snapshots: ProjectSnapshot[];
+  measurements: Measurement[];
+  annotations: DimensionAnnotation[];
+  loadMarkers: LoadMarker[];
+  // Only library autosaves carry undo history; exported files leave it out.
+  history?: ProjectHistory;
+};
+
+export type RejectedPart = {
+  index: number;
+  id: string | null;
+  name: string | null;
+  reasons: string[];
+};
+
+export type ProjectImportResult =
+  | { ok: false; message: string }
+  | {
+    ok: true;
+    project: ProjectFile;
+    rejected: RejectedPart[];
+    warnings: string[];
+    migratedFrom: number | null;
+  };
+
+type RawProject = Record<string, unknown> & { schemaVersion: number };
+
+const PART_TYPES: PartType[] = ['lumber', 'sheet', 'hardware'];
+const HARDWARE_KINDS: HardwareKind[] = ['fastener', 'hinge', 'bracket', 'slide', 'handle', 'dowel'];
+const PROFILE_TYPES = ['rect', 'l-cut', 'polygon', 'angled'];
+const CUT_CORNERS = ['front-left', 'front-right', 'back-left', 'back-right'];
+
+// Upgrades a payload from `version` to `version + 1`. Versions that only added optional fields need
+// no entry, because the sanitizers default whatever an older file leaves out.
+const MIGRATIONS: Partial<Record<number, (project: RawProject) => RawProject>> = {};
+
+export const buildProjectPayload = ({
+  projectName,
+  parts,
+  groups,
+  cutAllowances,
+  lengthUnit,
+  fractionPrecision,
+  priceBook,
+  snapshots,
+  measurements,
+  annotations,
+  loadMarkers,
+  history,
+}: {
+  projectName: string;
+  parts: PartData[];
+  groups: PartGroup[];
+  cutAllowances: CutAllowances;
+  lengthUnit: LengthUnit;
+  fractionPrecision: FractionPrecision;
+  priceBook: PriceBook;
+  snapshots: ProjectSnapshot[];
+  measurements: Measurement[];
+  annotations: DimensionAnnotation[];
+  loadMarkers: LoadMarker[];
+  history?: ProjectHistory;
+}): ProjectFile => ({
+  schemaVersion: PROJECT_SCHEMA_VERSION,
+  projectName,
+  exportedAt: new Date().toISOString(),
+  cutAllowances,
+  lengthUnit,
+  fractionPrecision,
+  priceBook,
+  parts,
+  groups,
+  snapshots,
+  measurements,
+  annotations,
+  loadMarkers,
+  history,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isVector3 = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+const validateProfile = (profile: unknown, reasons: string[]) => {
+  if (!isRecord(profile)) {
+    reasons.push('profile must be an object');
+    return;
+  }
+  if (typeof profile.type !== 'string' || !PROFILE_TYPES.includes(profile.type)) {
+    reasons.push(`profile type "${String(profile.type)}" is not supported`);
+    return;
+  }
+  (['cutWidth', 'cutDepth'] as const).forEach((key) => {
+    if (profile[key] !== undefined && !(isFiniteNumber(profile[key]) && profile[key] > 0)) {
+      reasons.push(`profile ${key} must be a positive number`);
+    }
+  });
+  (['startAngle', 'endAngle'] as const).forEach((key) => {
+    if (profile[key] !== undefined && !isFiniteNumber(profile[key])) {
+      reasons.push(`profile ${key} must be a number`);
+    }
+  });
+  if (profile.corner !== undefined && (typeof profile.corner !== 'string' || !CUT_CORNERS.includes(profile.corner))) {
+    reasons.push(`profile corner "${String(profile.corner)}" is not supported`);
+  }
+  if (profile.points !== undefined) {
+    const points = profile.points;
+    const validPoints = Array.isArray(points)
+      && points.every((point) => Array.isArray(point) && point.length === 2 && point.every(isFiniteNumber));
+    if (!validPoints) {
+      reasons.push('profile points must be [x, z] number pairs');
+    } else if (profile.type === 'polygon' && points.length < 3) {
+      reasons.push('polygon profile needs at least 3 points');
+    }
+  } else if (profile.type === 'polygon') {
+    reasons.push('polygon profile is missing its points');
+  }
+};
+
+const validateHinge = (hinge: unknown, reasons: string[]) => {
+  if (!isRecord(hinge)) {
+    reasons.push('hinge must be an object');
+    return;
+  }
+  if (!isFiniteNumber(hinge.angle)) {
+    reasons.push('hinge angle must be a number');
+  }
+  (['minAngle', 'maxAngle', 'pinOffset'] as const).forEach((key) => {
+    if (hinge[key] !== undefined && !isFiniteNumber(hinge[key])) {
+      reasons.push(`hinge ${key} must be a number`);
+    }
+  });
+};
+
+const validatePart = (raw: unknown, reasons: string[]) => {
+  if (!isRecord(raw)) {
+    reasons.push('entry is not an object');
+    return;
+  }
+  if (typeof raw.id !== 'string' || raw.id.trim() === '') {
+    reasons.push('id must be a non-empty string');
+  }
+  if (typeof raw.name !== 'string') {
+    reasons.push('name must be a string');
+  }
+  if (typeof raw.type !== 'string' || !PART_TYPES.includes(raw.type as PartType)) {
+    reasons.push(`type "${String(raw.type)}" is not lumber, sheet or hardware`);
+  }
+  if (raw.hardwareKind !== undefined && !HARDWARE_KINDS.includes(raw.hardwareKind as HardwareKind)) {
+    reasons.push(`hardware kind "${String(raw.hardwareKind)}" is not supported`);
+  }
+  if (!isVector3(raw.dimensions) || raw.dimensions.some((value) => value <= 0)) {
+    reasons.push('dimensions must be three positive numbers');
+  }
+  if (!isVector3(raw.position)) {
+    reasons.push('position must be three numbers');
+  }
+  if (!isVector3(raw.rotation)) {
+    reasons.push('rotation must be three numbers');
+  }
+  if (raw.color !== undefined && typeof raw.color !== 'string') {
+    reasons.push('color must be a string');
+  }
+  if (raw.texture !== undefined && typeof raw.texture !== 'string') {
+    reasons.push('texture must be a string');
+  }
+  if (raw.groupId !== undefined && typeof raw.groupId !== 'string') {
+    reasons.push('groupId must be a string');
+  }
+  if (raw.stock !== undefined && typeof raw.stock !== 'string') {
+    reasons.push('stock must be a string');
+  }
+  if (raw.species !== undefined && !isWoodSpecies(raw.species)) {
+    reasons.push('species must be a known wood species');
+  }
+  if (raw.payloadLb !== undefined && !(isFiniteNumber(raw.payloadLb) && raw.payloadLb >= 0)) {
+    reasons.push('payloadLb must be a non-negative number');
+  }
+  if (raw.profile !== undefined) {
+    validateProfile(raw.profile, reasons);
+  }
+  if (raw.hinge !== undefined) {
+    validateHinge(raw.hinge, reasons);
+  }
+  if (raw.attachment !== undefined) {
+    const attachment = raw.attachment;
+    if (
+      !isRecord(attachment)
+      || typeof attachment.hingeId !== 'string'
+      || !isVector3(attachment.localPosition)
+      || !isVector3(attachment.localRotation)
+    ) {
+      reasons.push('attachment must have a hingeId and local position/rotation');
+    }
+  }
+};
+
+const sanitizeParts = (rawParts: unknown[]) => {
+  const rejected: RejectedPart[] = [];
+  const warnings: string[] = [];
+  const accepted: PartData[] = [];
+  const seenIds = new Set<string>();
+
+  rawParts.forEach((raw, index) => {
+    const reasons: string[] = [];
+    validatePart(raw, reasons);
+    const record = isRecord(raw) ? raw : {};
+    const id = typeof record.id === 'string' ? record.id : null;
+    if (id && seenIds.has(id)) {
+      reasons.push('id is used by an earlier part');
+    }
+
+    if (reasons.length > 0) {
+      rejected.push({
+        index,
+        id,
+        name: typeof record.name === 'string' ? record.name : null,
+        reasons,
+      });
+      return;
+    }
+
+    seenIds.add(id as string);
+    accepted.push(raw as unknown as PartData);
+  });
+
+  const hingeIds = new Set(accepted.filter((part) => part.hardwareKind === 'hinge').map((part) => part.id));
+  const parts = accepted.map((part) => {
+    if (!part.attachment || hingeIds.has(part.attachment.hingeId)) return part;
+    warnings.push(`"${part.name}" was detached because hinge ${part.attachment.hingeId} is missing.`);
+    return { ...part, attachment: undefined };
+  });
+
+  return { parts, rejected, warnings };
+};
+
+const sanitizeTemplate = (raw: unknown, groupName: string, warnings: string[]): TemplateInstance | undefined => {
+  if (raw === undefined) return undefined;
+  if (
+    !isRecord(raw)
+    || !isFurnitureTemplateId(raw.templateId)
+    || !isRecord(raw.params)
+    || !Array.isArray(raw.partIds)
+    || raw.partIds.some((id) => typeof id !== 'string')
+  ) {
+    warnings.push(`Group "${groupName}" can no longer be regenerated because its template settings are invalid.`);
+    return undefined;
+  }
+  return {
+    templateId: raw.templateId,
+    params: normalizeTemplateParams(raw.templateId, raw.params as Partial<FurnitureTemplateParams>),
+    partIds: raw.partIds as string[],
+  };
+};
+
+const sanitizeGroups = (raw: unknown, warnings: string[]): PartGroup[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push('Groups were ignored because they are not a list.');
+    return [];
+  }
+
+  const byId = new Map<string, PartGroup>();
+  raw.forEach((entry, index) => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || entry.id.trim() === '' || byId.has(entry.id)) {
+      warnings.push(`Group #${index + 1} was dropped because its id is missing or repeated.`);
+      return;
+    }
+    const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name : `Assembly ${index + 1}`;
+    byId.set(entry.id, {
+      id: entry.id,
+      name,
+      parentId: typeof entry.parentId === 'string' ? entry.parentId : undefined,
+      hidden: entry.hidden === true ? true : undefined,
+      template: sanitizeTemplate(entry.template, name, warnings),
+    });
+  });
+
+  // Parents must exist and must not lead back to the group itself.
+  byId.forEach((group) => {
+    const visited = new Set([group.id]);
+    let parentId = group.parentId;
+    while (parentId) {
+      if (!byId.has(parentId) || visited.has(parentId)) {
+        warnings.push(`Group "${group.name}" was moved to the top level because its parent is missing or circular.`);
+        group.parentId = undefined;
+        break;
+      }
+      visited.add(parentId);
+      parentId = byId.get(parentId)?.parentId;
+    }
+  });
+  return Array.from(byId.values());
+};
+
+const assignKnownGroups = (parts: PartData[], groups: PartGroup[], warnings: string[]) => {
+  const groupIds = new Set(groups.map((group) => group.id));
+  return parts.map((part) => {
+    if (part.groupId === undefined || groupIds.has(part.groupId)) return part;
+    warnings.push(`"${part.name}" was ungrouped because group ${part.groupId} is missing.`);
+    return { ...part, groupId: undefined };
+  });
+};
+
+// Saved library components go through the same part and assembly checks as project files.
+export const parseAssembly = (rawParts: unknown, rawGroups: unknown) => {
+  const { parts, rejected, warnings } = sanitizeParts(Array.isArray(rawParts) ? rawParts : []);
+  const groups = sanitizeGroups(rawGroups, warnings);
+  return { parts: assignKnownGroups(parts, groups, warnings), groups, rejected, warnings };
+};
+
+const sanitizeSnapshots = (raw: unknown, warnings: string[]): ProjectSnapshot[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push('Snapshots were ignored because they are not a list.');
+    return [];
+  }
+
+  const snapshots: ProjectSnapshot[] = [];
+  raw.forEach((entry, index) => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !Array.isArray(entry.parts)) {
+      warnings.push(`Snapshot #${index + 1} was dropped because it is missing an id or parts.`);
+      return;
+    }
+    const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name : `Snapshot ${index + 1}`;
+    const { parts, rejected } = sanitizeParts(entry.parts);
+    if (rejected.length > 0) {
+      warnings.push(`Snapshot "${name}" dropped ${rejected.length} invalid part${rejected.length === 1 ? '' : 's'}.`);
+    }
+    const groupWarnings: string[] = [];
+    const groups = sanitizeGroups(entry.groups, groupWarnings);
+    const groupedParts = assignKnownGroups(parts, groups, groupWarnings);
+    if (groupWarnings.length > 0) {
+      warnings.push(`Snapshot "${name}" has ${groupWarnings.length} assembly issue${groupWarnings.length === 1 ? '' : 's'}; affected parts were ungrouped.`);
+    }
+    snapshots.push({
+      id: entry.id,
+      name,
+      createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : new Date(0).toISOString(),
+      parts: groupedParts,
+      groups,
+    });
+  });
+  return snapshots;
+};
+
+const sanitizeMeasurements = (raw: unknown, warnings: string[]): Measurement[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push('Measurements were ignored because they are not a list.');
+    return [];
+  }
+
+  const measurements: Measurement[] = [];
+  raw.forEach((entry, index) => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !isVector3(entry.start) || !isVector3(entry.end)) {
+      warnings.push(`Measurement #${index + 1} was dropped because it is missing an id or endpoints.`);
+      return;
+    }
+    measurements.push({
+      id: entry.id,
+      kind: entry.kind === 'face' ? 'face' : 'point',
+      start: entry.start,
+      end: entry.end,
+    });
+  });
+  return measurements;
+};
+
+const sanitizeAnchor = (raw: unknown): PartAnchor | null => (
+  isRecord(raw) && typeof raw.partId === 'string' && isVector3(raw.offset)
+    ? { partId: raw.partId, offset: raw.offset }
+    : null
+);
+
+// Annotations on parts that are missing from the file are kept; they stay hidden until the part exists.
+const sanitizeAnnotations = (raw: unknown, warnings: string[]): DimensionAnnotation[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push('Dimension annotations were ignored because they are not a list.');
+    return [];
+  }
+
+  const annotations: DimensionAnnotation[] = [];
+  raw.forEach((entry, index) => {
+    const start = isRecord(entry) ? sanitizeAnchor(entry.start) : null;
+    const end = isRecord(entry) ? sanitizeAnchor(entry.end) : null;
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !start || !end) {
+      warnings.push(`Dimension annotation #${index + 1} was dropped because it is missing an id or anchors.`);
+      return;
+    }
+    const normal = entry.kind === 'face' && isVector3(entry.normal) ? entry.normal : undefined;
+    annotations.push({ id: entry.id, kind: normal ? 'face' : 'point', start, end, normal });
+  });
+  return annotations;
+};
+
+const sanitizeLoadMarkers = (raw: unknown, warnings: string[]): LoadMarker[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push('Load markers were ignored because they are not a list.');
+    return [];
+  }
+
+  const markers: LoadMarker[] = [];
+  raw.forEach((entry, index) => {
+    const anchor = isRecord(entry) ? sanitizeAnchor(entry.anchor) : null;
+    if (
+      !isRecord(entry)
+      || typeof entry.id !== 'string'
+      || !anchor
+      || !isVector3(entry.direction)
+      || !isFiniteNumber(entry.magnitudeLb)
+      || entry.magnitudeLb < 0
+    ) {
+      warnings.push(`Load marker #${index + 1} was dropped because it is missing an anchor, direction or magnitude.`);
+      return;
+    }
+    markers.push({
+      id: entry.id,
+      kind: entry.kind === 'distributed' ? 'distributed' : 'point',
+      anchor,
+      direction: entry.direction,
+      magnitudeLb: entry.magnitudeLb,
+      label: typeof entry.label === 'string' ? entry.label : 'Load',
+    });
+  });
+  return markers;
+};
+
+const sanitizeHistoryEntries = (raw: unknown): HistoryEntry[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const entries: HistoryEntry[] = [];
+  for (const entry of raw) {
+    if (!isRecord(entry) || typeof entry.label !== 'string' || !Array.isArray(entry.parts)) return null;
+    const { parts, rejected } = sanitizeParts(entry.parts);
+    if (rejected.length > 0) return null;
+    const groupWarnings: string[] = [];
+    const groups = sanitizeGroups(entry.groups, groupWarnings);
+    const groupedParts = assignKnownGroups(parts, groups, groupWarnings);
+    if (groupWarnings.length > 0) return null;
+    entries.push({ label: entry.label, parts: groupedParts, groups });
+  }
+  return entries;
+};
+
+// A single bad step would make undo jump unpredictably, so history is kept whole or dropped.
+const sanitizeHistory = (raw: unknown, warnings: string[]): ProjectHistory | undefined => {
+  if (raw === undefined) return undefined;
+  const past = isRecord(raw) ? sanitizeHistoryEntries(raw.past) : null;
+  const future = isRecord(raw) ? sanitizeHistoryEntries(raw.future) : null;
+  if (!past || !future) {
+    warnings.push('Undo history was discarded because it could not be read.');
+    return undefined;
+  }
+  return { past, future };
+};
+
+export const parseProjectFile = (raw: unknown): ProjectImportResult => {
+  let project: RawProject;
+  if (Array.isArray(raw)) {
+    project = { schemaVersion: 1, parts: raw };
+  } else if (isRecord(raw)) {
+    const version = raw.schemaVersion === undefined ? 1 : raw.schemaVersion;
+    if (!isFiniteNumber(version) || !Number.isInteger(version) || version < 1) {
+      return { ok: false, message: `Unknown schema version "${String(raw.schemaVersion)}".` };
+    }
+    project = { ...raw, schemaVersion: version };
+  } else {
+    return { ok: false, message: 'Invalid file format: expected a project object.' };
+  }
+
+  if (project.schemaVersion > PROJECT_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      message: `This file uses schema version ${project.schemaVersion}, but this app only reads up to version ${PROJECT_SCHEMA_VERSION}.`,
+    };
+  }
+
+  const originalVersion = project.schemaVersion;
+  for (let version = originalVersion; version < PROJECT_SCHEMA_VERSION; version += 1) {
+    project = { ...(MIGRATIONS[version]?.(project) ?? project), schemaVersion: version + 1 };
+  }
+
+  if (!Array.isArray(project.parts)) {
+    return { ok: false, message: 'Invalid file format: expected parts array.' };
+  }
+
+  const { parts: validParts, rejected, warnings } = sanitizeParts(project.parts);
+  const groups = sanitizeGroups(project.groups, warnings);
+  const parts = assignKnownGroups(validParts, groups, warnings);
+  const snapshots = sanitizeSnapshots(project.snapshots, warnings);
+  const measurements = sanitizeMeasurements(project.measurements, warnings);
+  const annotations = sanitizeAnnotations(project.annotations, warnings);
+  const loadMarkers = sanitizeLoadMarkers(project.loadMarkers, warnings);
+  const history = sanitizeHistory(project.history, warnings);
+
+  if (parts.length === 0 && rejected.length > 0) {
+    return { ok: false, message: formatRejectedParts(rejected, project.parts.length) };
+  }
+
+  return {
+    ok: true,
+    project: {
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      projectName: typeof project.projectName === 'string' ? project.projectName : 'wood-project',
+      exportedAt: typeof project.exportedAt === 'string' ? project.exportedAt : new Date(0).toISOString(),
+      cutAllowances: normalizeCutAllowances(project.cutAllowances),
+      lengthUnit: normalizeLengthUnit(project.lengthUnit),
+      fractionPrecision: normalizeFractionPrecision(project.fractionPrecision),
+      priceBook: project.priceBook === undefined ? undefined : normalizePriceBook(project.priceBook),
+      parts,
+      groups,
+      snapshots,
+      measurements,
+      annotations,
+      loadMarkers,
+      history,
+    },
+    rejected,
+    warnings,
+    migratedFrom: originalVersion === PROJECT_SCHEMA_VERSION ? null : originalVersion,
+  };
+};
+
+const formatRejectedParts = (rejected: RejectedPart[], total: number) => [
+  `Rejected ${rejected.length} of ${total} part${total === 1 ? '' : 's'}:`,
+  ...rejected.map((entry) => {
+    const label = entry.name ? `"${entry.name}"` : 'Unnamed part';
+    const id = entry.id ? ` (${entry.id})` : '';
+    return `- #${entry.index + 1} ${label}${id}: ${entry.reasons.join('; ')}`;
+  }),
+].join('\n');
+
+export const formatImportReport = (result: ProjectImportResult) => {
+  if (!result.ok) return result.message;
+  const sections: string[] = [];
+  if (result.rejected.length > 0) {
+    sections.push(formatRejectedParts(result.rejected, result.rejected.length + result.project.parts.length));
+  }
+  if (result.warnings.length > 0) {
+    sections.push(['Warnings:', ...result.warnings.map((warning) => `- ${warning}`)].join('\n'));
+  }
+  return sections.join('\n\n');
+};
@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import { PartData } from './types';
+import { partSpecies, partWeightLb, SpeciesProperties } from './species';
+
+export type SagLoadType = 'uniform' | 'point';
+
+export type ShelfSupport = 'simple' | 'cantilever';
+
+export type ShelfSagResult = {
+  spanAxis: 'x' | 'z';
+  support: ShelfSupport;
+  spanIn: number;
+  widthIn: number;
+  thicknessIn: number;
+  species: SpeciesProperties;
+  selfWeightLb: number;
+  deflectionIn: number;
+  limitIn: number;
+  exceedsLimit: boolean;
+};
+
+const CONTACT_TOLERANCE = 0.1;
+const MERGE_TOLERANCE = 0.25;
+// The sagulator rule: no more than 1/32" of sag for every foot of span.
+const SAG_LIMIT_PER_FOOT = 1 / 32;
+
+const worldBounds = (part: PartData) => {
+  const [w, h, d] = part.dimensions;
+  const rotation = new THREE.Euler(part.rotation[0], part.rotation[1], part.rotation[2]);
+  const position = new THREE.Vector3(...part.position);
+  const box = new THREE.Box3();
+  [-1, 1].forEach((sx) => [-1, 1].forEach((sy) => [-1, 1].forEach((sz) => {
+    box.expandByPoint(new THREE.Vector3((sx * w) / 2, (sy * h) / 2, (sz * d) / 2).applyEuler(rotation).add(position));
+  })));
+  return box;
+};
+
+// Lying flat means the part is thinnest top to bottom.
+export const isHorizontalPart = (part: PartData) => {
+  if (part.type === 'hardware') return false;
+  const size = worldBounds(part).getSize(new THREE.Vector3());
+  return size.y <= Math.min(size.x, size.z) + 1e-6;
+};
+
+// Where along the span axis another part holds the shelf up: anything it rests on, or anything
+// it butts into end-on that reaches down past its underside. Parts along the long edges (a back,
+// a face frame) are ignored, as the sagulator does.
+const supportInterval = (shelf: THREE.Box3, other: THREE.Box3, axis: 'x' | 'z'): [number, number] | null => {
+  const gaps = {
+    x: Math.max(other.min.x - shelf.max.x, shelf.min.x - other.max.x),
+    y: Math.max(other.min.y - shelf.max.y, shelf.min.y - other.max.y),
+    z: Math.max(other.min.z - shelf.max.z, shelf.min.z - other.max.z),
+  };
+  if (gaps.x > CONTACT_TOLERANCE || gaps.y > CONTACT_TOLERANCE || gaps.z > CONTACT_TOLERANCE) return null;
+  if (other.min.y > shelf.min.y + CONTACT_TOLERANCE) return null;
+
+  const crossAxis = axis === 'x' ? 'z' : 'x';
+  const restsOn = gaps.y >= Math.max(gaps.x, gaps.z) - 1e-6;
+  const butts = gaps[axis] >= gaps[crossAxis] - 1e-6;
+  if (!restsOn && !butts) return null;
+
+  const min = Math.max(other.min[axis], shelf.min[axis]);
+  const max = Math.min(other.max[axis], shelf.max[axis]);
+  return [Math.min(min, max), Math.max(min, max)];
+};
+
+const mergeIntervals = (intervals: Array<[number, number]>) =>
+  [...intervals]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<Array<[number, number]>>((merged, interval) => {
+      const last = merged[merged.length - 1];
+      if (last && interval[0] <= last[1] + MERGE_TOLERANCE) {
+        last[1] = Math.max(last[1], interval[1]);
+      } else {
+        merged.push([interval[0], interval[1]]);
+      }
+      return merged;
+    }, []);
+
+// Beam deflection under the total load W (lb) over span L: simply supported or fixed at one end,
+// with the load spread evenly or at the worst spot (mid-span or the free end).
+const beamDeflection = (support: ShelfSupport, loadType: SagLoadType, load: number, span: number, ei: number) => {
+  const cube = span ** 3;
+  if (support === 'cantilever') {
+    return loadType === 'uniform' ? (load * cube) / (8 * ei) : (load * cube) / (3 * ei);
+  }
+  return loadType === 'uniform' ? (5 * load * cube) / (384 * ei) : (load * cube) / (48 * ei);
+};
+
+// Sag of the longest unsupported stretch of a shelf carrying `loadLb` plus its own weight.
+// Returns null when the part isn't lying flat or nothing holds it up.
+export const analyzeShelfSag = (
+  part: PartData,
+  parts: PartData[],
+  loadLb: number,
+  loadType: SagLoadType
+): ShelfSagResult | null => {
+  if (!isHorizontalPart(part)) return null;
+  const shelf = worldBounds(part);
+  const size = shelf.getSize(new THREE.Vector3());
+  const spanAxis = size.x >= size.z ? 'x' : 'z';
+
+  const intervals = parts
+    .filter((other) => other.id !== part.id && other.type !== 'hardware')
+    .map((other) => supportInterval(shelf, worldBounds(other), spanAxis))
+    .filter((interval): interval is [number, number] => interval !== null);
+  if (intervals.length === 0) return null;
+
+  const supports = mergeIntervals(intervals);
+  const interiorSpans = supports.slice(1).map((interval, index) => interval[0] - supports[index][1]);
+  const overhang = Math.max(supports[0][0] - shelf.min[spanAxis], shelf.max[spanAxis] - supports[0][1]);
+  // A single support running the full length leaves nothing free to sag.
+  const support: ShelfSupport = supports.length === 1 && overhang > MERGE_TOLERANCE ? 'cantilever' : 'simple';
+  const spanIn = supports.length > 1 ? Math.max(...interiorSpans) : support === 'cantilever' ? overhang : 0;
+
+  const species = partSpecies(part);
+  const widthIn = spanAxis === 'x' ? size.z : size.x;
+  const thicknessIn = size.y;
+  const ei = species.modulusPsi * ((widthIn * thicknessIn ** 3) / 12);
+  const selfWeightLb = size[spanAxis] > 0 ? (partWeightLb(part) * spanIn) / size[spanAxis] : 0;
+  const deflectionIn = spanIn <= 0 || ei <= 0
+    ? 0
+    : beamDeflection(support, loadType, Math.max(loadLb, 0), spanIn, ei)
+      + beamDeflection(support, 'uniform', selfWeightLb, spanIn, ei);
+  const limitIn = (spanIn / 12) * SAG_LIMIT_PER_FOOT;
+
+  return {
+    spanAxis,
+    support,
+    spanIn,
+    widthIn,
+    thicknessIn,
+    species,
+    selfWeightLb,
+    deflectionIn,
+    limitIn,
+    exceedsLimit: deflectionIn > limitIn + 1e-9,
+  };
+};
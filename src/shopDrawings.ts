@@ -0,0 +1,553 @@
+import * as THREE from 'three';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { FractionPrecision, LengthUnit, PartData } from './types';
+import { footprintPoints, Point2, pointInPolygon } from './cutOptimizer';
+import { cutListNumbers, CutListEntry, groupCutList } from './cutList';
+import { ExplodeOffsets, explodedParts } from './explodedView';
+import { partStockName } from './stockCatalog';
+import { formatLength } from './units';
+
+export type DrawingView = 'front' | 'side' | 'top' | 'iso';
+
+type ViewFace = {
+  partId: string;
+  points: Point2[]; // drawing coordinates in inches, v pointing up the page
+  depth: number; // larger is closer to the viewer
+};
+
+type ViewBounds = { minU: number; maxU: number; minV: number; maxV: number };
+
+export type ViewDrawing = {
+  view: DrawingView;
+  faces: ViewFace[];
+  bounds: ViewBounds;
+  partBounds: Record<string, ViewBounds>;
+};
+
+// Screen axes for each view; `toward` points from the model at the viewer.
+type ViewBasis = { right: THREE.Vector3; up: THREE.Vector3; toward: THREE.Vector3 };
+
+const ISO_TOWARD = new THREE.Vector3(1, 1, 1).normalize();
+const ISO_RIGHT = new THREE.Vector3(1, 0, -1).normalize();
+
+const VIEW_BASES: Record<DrawingView, ViewBasis> = {
+  front: { right: new THREE.Vector3(1, 0, 0), up: new THREE.Vector3(0, 1, 0), toward: new THREE.Vector3(0, 0, 1) },
+  side: { right: new THREE.Vector3(0, 0, -1), up: new THREE.Vector3(0, 1, 0), toward: new THREE.Vector3(1, 0, 0) },
+  top: { right: new THREE.Vector3(1, 0, 0), up: new THREE.Vector3(0, 0, -1), toward: new THREE.Vector3(0, 1, 0) },
+  iso: { right: ISO_RIGHT, up: new THREE.Vector3().crossVectors(ISO_TOWARD, ISO_RIGHT), toward: ISO_TOWARD },
+};
+
+const ORTHOGRAPHIC_PAGES: { id: DrawingView; title: string }[] = [
+  { id: 'front', title: 'Front View' },
+  { id: 'side', title: 'Right Side View' },
+  { id: 'top', title: 'Top View' },
+];
+
+// Scales a printed drawing can be read at with a tape measure, smallest reduction first.
+const NICE_SCALES = [1, 2, 4, 8, 10, 12, 16, 20, 24, 32, 48, 64, 96];
+const EDGE_TOLERANCE = 1 / 64;
+const MIN_FACE_AREA = 1e-6;
+const PAGE_MARGIN = 40;
+const BALLOON_RADIUS = 7;
+const LEADER_OFFSET = 16;
+
+const projectPoint = (point: THREE.Vector3, basis: ViewBasis): Point2 => [point.dot(basis.right), point.dot(basis.up)];
+
+const signedArea = (points: Point2[]) => {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i, i += 1) {
+    area += (points[j][0] * points[i][1]) - (points[i][0] * points[j][1]);
+  }
+  return area / 2;
+};
+
+type SolidFace = { vertices: THREE.Vector3[]; normal: THREE.Vector3 };
+
+const clampMiterAngle = (degrees: number) => Math.max(-80, Math.min(80, degrees));
+
+// Mirrors the mitred prism PartObject builds, so the drawing shows the same ends as the viewport.
+const angledFaces = (part: PartData): SolidFace[] => {
+  const [width, height, depth] = part.dimensions;
+  const halfW = width / 2;
+  const halfH = height / 2;
+  const halfD = depth / 2;
+  const startSlope = Math.tan(THREE.MathUtils.degToRad(clampMiterAngle(part.profile?.startAngle ?? 0)));
+  const endSlope = Math.tan(THREE.MathUtils.degToRad(clampMiterAngle(part.profile?.endAngle ?? 0)));
+  const backTopZ = -halfD + halfH * startSlope;
+  const backBottomZ = -halfD - halfH * startSlope;
+  const frontTopZ = halfD + halfH * endSlope;
+  const frontBottomZ = halfD - halfH * endSlope;
+
+  const corners = [
+    new THREE.Vector3(-halfW, -halfH, backBottomZ),
+    new THREE.Vector3(halfW, -halfH, backBottomZ),
+    new THREE.Vector3(halfW, halfH, backTopZ),
+    new THREE.Vector3(-halfW, halfH, backTopZ),
+    new THREE.Vector3(-halfW, -halfH, frontBottomZ),
+    new THREE.Vector3(halfW, -halfH, frontBottomZ),
+    new THREE.Vector3(halfW, halfH, frontTopZ),
+    new THREE.Vector3(-halfW, halfH, frontTopZ),
+  ];
+  const quads = [[0, 3, 2, 1], [4, 5, 6, 7], [0, 4, 7, 3], [1, 2, 6, 5], [3, 7, 6, 2], [0, 1, 5, 4]];
+  const center = new THREE.Vector3();
+  corners.forEach((corner) => center.add(corner));
+  center.divideScalar(corners.length);
+
+  // The prism is convex, so pointing each normal away from the middle is enough.
+  return quads.map((quad) => {
+    const vertices = quad.map((index) => corners[index]);
+    const normal = new THREE.Vector3()
+      .subVectors(vertices[1], vertices[0])
+      .cross(new THREE.Vector3().subVectors(vertices[2], vertices[0]))
+      .normalize();
+    const faceCenter = vertices.reduce((sum, vertex) => sum.add(vertex), new THREE.Vector3()).divideScalar(vertices.length);
+    if (normal.dot(faceCenter.sub(center)) < 0) normal.negate();
+    return { vertices, normal };
+  });
+};
+
+// Profiled parts are extruded footprints rotated upright, which mirrors the footprint's z and
+// centres it on its bounds; rectangles come out the same either way.
+const extrudedFaces = (part: PartData): SolidFace[] => {
+  const points = footprintPoints(part);
+  const halfH = part.dimensions[1] / 2;
+  const xs = points.map(([x]) => x);
+  const zs = points.map(([, z]) => z);
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const centerZ = (Math.min(...zs) + Math.max(...zs)) / 2;
+  const toLocal = ([x, z]: Point2, y: number) => new THREE.Vector3(x - centerX, y, -(z - centerZ));
+  const outwardSign = signedArea(points) > 0 ? 1 : -1;
+
+  const faces: SolidFace[] = [
+    { vertices: points.map((point) => toLocal(point, halfH)), normal: new THREE.Vector3(0, 1, 0) },
+    { vertices: points.map((point) => toLocal(point, -halfH)), normal: new THREE.Vector3(0, -1, 0) },
+  ];
+  points.forEach((start, index) => {
+    const end = points[(index + 1) % points.length];
+    const dx = end[0] - start[0];
+    const dz = end[1] - start[1];
+    if (Math.hypot(dx, dz) < EDGE_TOLERANCE) return;
+    faces.push({
+      vertices: [toLocal(start, -halfH), toLocal(end, -halfH), toLocal(end, halfH), toLocal(start, halfH)],
+      normal: new THREE.Vector3(dz * outwardSign, 0, dx * outwardSign).normalize(),
+    });
+  });
+  return faces;
+};
+
+const partSolidFaces = (part: PartData) =>
+  part.profile?.type === 'angled' ? angledFaces(part) : extrudedFaces(part);
+
+const emptyBounds = (): ViewBounds => ({ minU: Infinity, maxU: -Infinity, minV: Infinity, maxV: -Infinity });
+
+const growBounds = (bounds: ViewBounds, [u, v]: Point2) => {
+  bounds.minU = Math.min(bounds.minU, u);
+  bounds.maxU = Math.max(bounds.maxU, u);
+  bounds.minV = Math.min(bounds.minV, v);
+  bounds.maxV = Math.max(bounds.maxV, v);
+};
+
+// Back faces are culled and the rest sorted far to near, so filling each face white hides
+// whatever it covers (painter's algorithm).
+export const projectParts = (parts: PartData[], view: DrawingView): ViewDrawing => {
+  const basis = VIEW_BASES[view];
+  const faces: ViewFace[] = [];
+  const bounds = emptyBounds();
+  const partBounds: Record<string, ViewBounds> = {};
+
+  parts.forEach((part) => {
+    if (part.type === 'hardware') return;
+    const rotation = new THREE.Euler(part.rotation[0], part.rotation[1], part.rotation[2]);
+    const position = new THREE.Vector3(...part.position);
+    const ownBounds = emptyBounds();
+
+    partSolidFaces(part).forEach(({ vertices, normal }) => {
+      const world = vertices.map((vertex) => vertex.clone().applyEuler(rotation).add(position));
+      const projected = world.map((vertex) => projectPoint(vertex, basis));
+      projected.forEach((point) => {
+        growBounds(bounds, point);
+        growBounds(ownBounds, point);
+      });
+      if (normal.clone().applyEuler(rotation).dot(basis.toward) <= 1e-6) return;
+      if (Math.abs(signedArea(projected)) < MIN_FACE_AREA) return;
+      faces.push({
+        partId: part.id,
+        points: projected,
+        depth: world.reduce((sum, vertex) => sum + vertex.dot(basis.toward), 0) / world.length,
+      });
+    });
+
+    partBounds[part.id] = ownBounds;
+  });
+
+  faces.sort((a, b) => a.depth - b.depth);
+  return { view, faces, bounds, partBounds };
+};
+
+const faceCentroid = (points: Point2[]): Point2 => [
+  points.reduce((sum, [u]) => sum + u, 0) / points.length,
+  points.reduce((sum, [, v]) => sum + v, 0) / points.length,
+];
+
+// Balloon position for each part: its largest visible face. Unless `includeCovered` is set, parts
+// whose face has something nearer drawn over its middle go unlabelled.
+const partLabelPoints = (drawing: ViewDrawing, includeCovered = false) => {
+  const largest = new Map<string, { index: number; area: number }>();
+  drawing.faces.forEach((face, index) => {
+    const area = Math.abs(signedArea(face.points));
+    const current = largest.get(face.partId);
+    if (!current || area > current.area) largest.set(face.partId, { index, area });
+  });
+
+  const labels: { partId: string; point: Point2 }[] = [];
+  largest.forEach(({ index }, partId) => {
+    const point = faceCentroid(drawing.faces[index].points);
+    const covered = !includeCovered && drawing.faces
+      .slice(index + 1)
+      .some((face) => face.partId !== partId && pointInPolygon(point[0], point[1], face.points));
+    if (!covered) labels.push({ partId, point });
+  });
+  return labels;
+};
+
+const mergeEdges = (values: number[]) =>
+  [...values]
+    .sort((a, b) => a - b)
+    .reduce<number[]>((edges, value) => {
+      if (edges.length === 0 || value - edges[edges.length - 1] > EDGE_TOLERANCE) edges.push(value);
+      return edges;
+    }, []);
+
+const chooseScale = (widthInches: number, heightInches: number, areaWidth: number, areaHeight: number) => {
+  const fit = Math.min(areaWidth / Math.max(widthInches, EDGE_TOLERANCE), areaHeight / Math.max(heightInches, EDGE_TOLERANCE));
+  const reduction = NICE_SCALES.find((candidate) => 72 / candidate <= fit);
+  return reduction ? { pointsPerInch: 72 / reduction, label: `1:${reduction}` } : { pointsPerInch: fit, label: 'not to scale' };
+};
+
+const fileSafeName = (projectName: string) => projectName.replace(/[<>:"/\\|?*\x00-\x1F]/g, '-');
+
+const writePageHeader = (doc: jsPDF, title: string, detail: string) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(15, 23, 42);
+  doc.text(title, PAGE_MARGIN, 46);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(71, 85, 105);
+  doc.text(detail, PAGE_MARGIN, 62);
+  doc.setTextColor(15, 23, 42);
+};
+
+// Centres the drawing in the given box; `pointsPerInch` is whatever fits when `toScale` is off.
+const fitDrawing = (bounds: ViewBounds, left: number, top: number, width: number, height: number, toScale: boolean) => {
+  const widthInches = bounds.maxU - bounds.minU;
+  const heightInches = bounds.maxV - bounds.minV;
+  const scale = toScale
+    ? chooseScale(widthInches, heightInches, width, height)
+    : {
+      pointsPerInch: Math.min(width / Math.max(widthInches, EDGE_TOLERANCE), height / Math.max(heightInches, EDGE_TOLERANCE)),
+      label: 'not to scale',
+    };
+  const originX = left + (width - widthInches * scale.pointsPerInch) / 2;
+  const originY = top + (height + heightInches * scale.pointsPerInch) / 2;
+  const toPage = ([u, v]: Point2): Point2 => [
+    originX + (u - bounds.minU) * scale.pointsPerInch,
+    originY - (v - bounds.minV) * scale.pointsPerInch,
+  ];
+  return { ...scale, toPage, widthInches, heightInches };
+};
+
+const drawFaces = (doc: jsPDF, faces: ViewFace[], toPage: (point: Point2) => Point2) => {
+  doc.setDrawColor(15, 23, 42);
+  doc.setFillColor(255, 255, 255);
+  doc.setLineWidth(0.7);
+  faces.forEach((face) => {
+    const pagePoints = face.points.map(toPage);
+    const [startX, startY] = pagePoints[0];
+    const deltas = pagePoints.slice(1).map(([x, y], index) => [x - pagePoints[index][0], y - pagePoints[index][1]]);
+    doc.lines(deltas, startX, startY, [1, 1], 'FD', true);
+  });
+};
+
+const drawBalloon = (doc: jsPDF, x: number, y: number, label: string) => {
+  doc.setDrawColor(29, 78, 216);
+  doc.setFillColor(239, 246, 255);
+  doc.setLineWidth(0.6);
+  doc.circle(x, y, BALLOON_RADIUS, 'FD');
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(29, 78, 216);
+  doc.text(label, x, y + 2.8, { align: 'center' });
+  doc.setTextColor(15, 23, 42);
+};
+
+export const buildShopDrawingsPdf = (
+  parts: PartData[],
+  cutList: CutListEntry[],
+  projectName: string,
+  unit: LengthUnit,
+  precision: FractionPrecision
+) => {
+  const woodParts = parts.filter((part) => part.type !== 'hardware');
+  if (woodParts.length === 0) return;
+
+  const doc = new jsPDF({ unit: 'pt', format: 'letter', orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const chainOffset = 18;
+  const overallOffset = 40;
+  const tick = 3;
+  const exportedAt = new Date().toLocaleString();
+  const numbers = cutListNumbers(parts);
+  const format = (inches: number) => formatLength(inches, unit, precision);
+
+  const horizontalDimension = (x1: number, x2: number, y: number, fromY: number, label: string, size: number) => {
+    doc.setDrawColor(100, 116, 139);
+    doc.setLineWidth(0.4);
+    doc.line(x1, fromY, x1, y + Math.sign(y - fromY) * tick);
+    doc.line(x2, fromY, x2, y + Math.sign(y - fromY) * tick);
+    doc.line(x1, y, x2, y);
+    doc.line(x1 - tick, y + tick, x1 + tick, y - tick);
+    doc.line(x2 - tick, y + tick, x2 + tick, y - tick);
+    doc.setFontSize(size);
+    if (doc.getTextWidth(label) <= x2 - x1 - 2) {
+      doc.text(label, (x1 + x2) / 2, y - 2, { align: 'center' });
+    }
+  };
+
+  const verticalDimension = (y1: number, y2: number, x: number, fromX: number, label: string, size: number) => {
+    doc.setDrawColor(100, 116, 139);
+    doc.setLineWidth(0.4);
+    doc.line(fromX, y1, x + Math.sign(x - fromX) * tick, y1);
+    doc.line(fromX, y2, x + Math.sign(x - fromX) * tick, y2);
+    doc.line(x, y1, x, y2);
+    doc.line(x - tick, y1 + tick, x + tick, y1 - tick);
+    doc.line(x - tick, y2 + tick, x + tick, y2 - tick);
+    doc.setFontSize(size);
+    const labelWidth = doc.getTextWidth(label);
+    if (labelWidth <= Math.abs(y2 - y1) - 2) {
+      doc.text(label, x - 2, (y1 + y2) / 2 + labelWidth / 2, { angle: 90 });
+    }
+  };
+
+  ORTHOGRAPHIC_PAGES.forEach(({ id, title }, pageIndex) => {
+    if (pageIndex > 0) doc.addPage();
+    const drawing = projectParts(woodParts, id);
+    const { bounds } = drawing;
+    const areaLeft = PAGE_MARGIN + overallOffset + 10;
+    const areaTop = 80 + overallOffset + 10;
+    const fit = fitDrawing(
+      bounds,
+      areaLeft,
+      areaTop,
+      pageWidth - areaLeft - PAGE_MARGIN - overallOffset - 10,
+      pageHeight - areaTop - PAGE_MARGIN - overallOffset - 10,
+      true
+    );
+    const { toPage } = fit;
+
+    writePageHeader(doc, title, `${projectName} | Scale ${fit.label} on letter paper | Generated ${exportedAt}`);
+    drawFaces(doc, drawing.faces, toPage);
+
+    const [left, top] = toPage([bounds.minU, bounds.maxV]);
+    const [right, bottom] = toPage([bounds.maxU, bounds.minV]);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(51, 65, 85);
+
+    // Chain dimensions locate every part edge; the overall ones sit outside them.
+    const partBounds = Object.values(drawing.partBounds);
+    const uEdges = mergeEdges(partBounds.flatMap((entry) => [entry.minU, entry.maxU]));
+    const vEdges = mergeEdges(partBounds.flatMap((entry) => [entry.minV, entry.maxV]));
+    uEdges.slice(1).forEach((edge, index) => {
+      const [x1] = toPage([uEdges[index], bounds.minV]);
+      const [x2] = toPage([edge, bounds.minV]);
+      horizontalDimension(x1, x2, top - chainOffset, top - 4, format(edge - uEdges[index]), 7);
+    });
+    vEdges.slice(1).forEach((edge, index) => {
+      const [, y1] = toPage([bounds.minU, vEdges[index]]);
+      const [, y2] = toPage([bounds.minU, edge]);
+      verticalDimension(y1, y2, left - chainOffset, left - 4, format(edge - vEdges[index]), 7);
+    });
+    horizontalDimension(left, right, bottom + overallOffset, bottom + 4, format(fit.widthInches), 9);
+    verticalDimension(bottom, top, right + overallOffset, right + 4, format(fit.heightInches), 9);
+
+    partLabelPoints(drawing).forEach(({ partId, point }) => {
+      const [x, y] = toPage(point);
+      drawBalloon(doc, x, y, `${numbers[partId]}`);
+    });
+
+    doc.setFontSize(9);
+    doc.setTextColor(100, 116, 139);
+    doc.text(
+      'Numbers match the cut report. Hardware is omitted. Hidden edges are not shown.',
+      PAGE_MARGIN,
+      pageHeight - PAGE_MARGIN + 16
+    );
+    doc.setTextColor(15, 23, 42);
+  });
+
+  doc.addPage('letter', 'landscape');
+  writePageHeader(
+    doc,
+    'Part Schedule',
+    `${projectName} | ${woodParts.length} part${woodParts.length === 1 ? '' : 's'} | Generated ${exportedAt}`
+  );
+  autoTable(doc, {
+    startY: 80,
+    head: [['No.', 'Part', 'Qty', 'Stock', 'Width', 'Height', 'Depth']],
+    body: cutList
+      .filter(({ part }) => part.type !== 'hardware')
+      .map(({ part, count }) => [
+        `${numbers[part.id]}`,
+        part.name,
+        `${count}`,
+        partStockName(part),
+        ...part.dimensions.map(format),
+      ]),
+    styles: { fontSize: 9, cellPadding: 5, valign: 'top' },
+    headStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42] },
+    columnStyles: {
+      0: { cellWidth: 34, halign: 'center' },
+      2: { cellWidth: 34, halign: 'center' },
+    },
+  });
+
+  doc.save(`${fileSafeName(projectName)}-shop-drawings.pdf`);
+};
+
+// Balloons sit up and to the right of each part with a leader back to it, so small parts stay visible.
+const explodedDrawing = (parts: PartData[], offsets: ExplodeOffsets, factor: number) => {
+  const drawing = projectParts(explodedParts(parts, offsets, factor), 'iso');
+  return { drawing, labels: partLabelPoints(drawing, true) };
+};
+
+// `parts` are the ones drawn; `numbers` come from the whole project so balloons match the BOM
+// and the on-screen callouts even when some groups are hidden.
+export const buildExplodedViewPdf = (
+  parts: PartData[],
+  numbers: Record<string, number>,
+  offsets: ExplodeOffsets,
+  factor: number,
+  projectName: string
+) => {
+  const woodParts = parts.filter((part) => part.type !== 'hardware');
+  if (woodParts.length === 0) return;
+
+  const doc = new jsPDF({ unit: 'pt', format: 'letter', orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const keyWidth = 200;
+  const { drawing, labels } = explodedDrawing(woodParts, offsets, factor);
+  const { toPage } = fitDrawing(
+    drawing.bounds,
+    PAGE_MARGIN + LEADER_OFFSET,
+    80 + LEADER_OFFSET * 2,
+    pageWidth - PAGE_MARGIN * 2 - keyWidth - LEADER_OFFSET * 3,
+    pageHeight - 80 - PAGE_MARGIN - LEADER_OFFSET * 3,
+    false
+  );
+
+  writePageHeader(doc, 'Exploded View', `${projectName} | Isometric, not to scale | Generated ${new Date().toLocaleString()}`);
+  drawFaces(doc, drawing.faces, toPage);
+  labels.forEach(({ partId, point }) => {
+    const [x, y] = toPage(point);
+    const balloonX = x + LEADER_OFFSET;
+    const balloonY = y - LEADER_OFFSET;
+    doc.setDrawColor(29, 78, 216);
+    doc.setFillColor(29, 78, 216);
+    doc.setLineWidth(0.5);
+    doc.circle(x, y, 1.2, 'F');
+    doc.line(x, y, balloonX - BALLOON_RADIUS * Math.SQRT1_2, balloonY + BALLOON_RADIUS * Math.SQRT1_2);
+    drawBalloon(doc, balloonX, balloonY, `${numbers[partId]}`);
+  });
+
+  autoTable(doc, {
+    startY: 80,
+    margin: { left: pageWidth - PAGE_MARGIN - keyWidth, right: PAGE_MARGIN },
+    tableWidth: keyWidth,
+    head: [['No.', 'Part', 'Qty']],
+    body: groupCutList(woodParts)
+      .sort((a, b) => numbers[a.part.id] - numbers[b.part.id])
+      .map(({ part, count }) => [`${numbers[part.id]}`, part.name, `${count}`]),
+    styles: { fontSize: 8, cellPadding: 4, valign: 'top' },
+    headStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42] },
+    columnStyles: {
+      0: { cellWidth: 30, halign: 'center' },
+      2: { cellWidth: 30, halign: 'center' },
+    },
+  });
+
+  doc.save(`${fileSafeName(projectName)}-exploded-view.pdf`);
+};
+
+export const downloadExplodedViewPng = (
+  parts: PartData[],
+  numbers: Record<string, number>,
+  offsets: ExplodeOffsets,
+  factor: number,
+  projectName: string
+) => {
+  const woodParts = parts.filter((part) => part.type !== 'hardware');
+  if (woodParts.length === 0) return;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = 1600;
+  canvas.height = 1200;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    console.error('Could not create canvas context for the exploded view.');
+    alert('Could not render the exploded view image.');
+    return;
+  }
+
+  const balloonRadius = BALLOON_RADIUS * 2;
+  const leader = LEADER_OFFSET * 2;
+  const { drawing, labels } = explodedDrawing(woodParts, offsets, factor);
+  const { toPage } = fitDrawing(
+    drawing.bounds,
+    60,
+    60 + leader,
+    canvas.width - 120 - leader,
+    canvas.height - 120 - leader,
+    false
+  );
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = '#0f172a';
+  drawing.faces.forEach((face) => {
+    ctx.beginPath();
+    face.points.map(toPage).forEach(([x, y], index) => (index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  });
+
+  ctx.font = 'bold 16px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  labels.forEach(({ partId, point }) => {
+    const [x, y] = toPage(point);
+    ctx.strokeStyle = '#1d4ed8';
+    ctx.lineWidth = 1.25;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + leader - balloonRadius * Math.SQRT1_2, y - leader + balloonRadius * Math.SQRT1_2);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(x + leader, y - leader, balloonRadius, 0, Math.PI * 2);
+    ctx.fillStyle = '#eff6ff';
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = '#1d4ed8';
+    ctx.fillText(`${numbers[partId]}`, x + leader, y - leader);
+  });
+
+  const a = document.createElement('a');
+  a.href = canvas.toDataURL('image/png');
+  a.download = `${fileSafeName(projectName)}-exploded-view.png`;
+  a.click();
+};
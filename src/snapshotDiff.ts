@@ -0,0 +1,153 @@
+import { FractionPrecision, LengthUnit, PartData, ProjectSnapshot, SnapshotCompare } from './types';
+import { groupCutList } from './cutList';
+import { formatLength, formatSize } from './units';
+
+export type PartChangeKind = 'added' | 'removed' | 'moved' | 'resized';
+
+export type PartChange = {
+  kind: PartChangeKind;
+  part: PartData;
+  previous: PartData | null;
+};
+
+export type CutListDelta = {
+  key: string;
+  part: PartData;
+  before: number;
+  after: number;
+};
+
+export type SnapshotDiff = {
+  changes: PartChange[];
+  changeById: Record<string, PartChangeKind>;
+  counts: Record<PartChangeKind, number>;
+  cutListDelta: CutListDelta[];
+};
+
+export const PART_CHANGE_COLORS: Record<PartChangeKind, string> = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  moved: '#3b82f6',
+  resized: '#f59e0b',
+};
+
+const DIFF_EPS = 0.001;
+
+const tuplesDiffer = (a: number[], b: number[]) =>
+  a.some((value, index) => Math.abs(value - (b[index] ?? 0)) > DIFF_EPS);
+
+// Resizing wins over moving because it is the change that affects the cut list.
+const classifyChange = (before: PartData, after: PartData): PartChangeKind | null => {
+  if (
+    tuplesDiffer(before.dimensions, after.dimensions)
+    || JSON.stringify(before.profile ?? null) !== JSON.stringify(after.profile ?? null)
+  ) {
+    return 'resized';
+  }
+  if (tuplesDiffer(before.position, after.position) || tuplesDiffer(before.rotation, after.rotation)) {
+    return 'moved';
+  }
+  return null;
+};
+
+const diffCutLists = (before: PartData[], after: PartData[]): CutListDelta[] => {
+  const beforeRows = groupCutList(before);
+  const afterRows = groupCutList(after);
+  const beforeByKey = new Map(beforeRows.map((row) => [row.key, row]));
+  const afterKeys = new Set(afterRows.map((row) => row.key));
+
+  const delta: CutListDelta[] = [];
+  afterRows.forEach((row) => {
+    const previousCount = beforeByKey.get(row.key)?.count ?? 0;
+    if (previousCount !== row.count) {
+      delta.push({ key: row.key, part: row.part, before: previousCount, after: row.count });
+    }
+  });
+  beforeRows.forEach((row) => {
+    if (!afterKeys.has(row.key)) {
+      delta.push({ key: row.key, part: row.part, before: row.count, after: 0 });
+    }
+  });
+  return delta;
+};
+
+export const diffParts = (before: PartData[], after: PartData[]): SnapshotDiff => {
+  const beforeById = new Map(before.map((part) => [part.id, part]));
+  const afterIds = new Set(after.map((part) => part.id));
+  const changes: PartChange[] = [];
+
+  after.forEach((part) => {
+    const previous = beforeById.get(part.id);
+    if (!previous) {
+      changes.push({ kind: 'added', part, previous: null });
+      return;
+    }
+    const kind = classifyChange(previous, part);
+    if (kind) {
+      changes.push({ kind, part, previous });
+    }
+  });
+  before.forEach((part) => {
+    if (!afterIds.has(part.id)) {
+      changes.push({ kind: 'removed', part, previous: part });
+    }
+  });
+
+  const counts: Record<PartChangeKind, number> = { added: 0, removed: 0, moved: 0, resized: 0 };
+  const changeById: Record<string, PartChangeKind> = {};
+  changes.forEach((change) => {
+    counts[change.kind] += 1;
+    changeById[change.part.id] = change.kind;
+  });
+
+  return {
+    changes,
+    changeById,
+    counts,
+    cutListDelta: diffCutLists(before, after),
+  };
+};
+
+export const formatCutListDelta = (delta: CutListDelta[], unit: LengthUnit, precision: FractionPrecision) =>
+  delta.map((row) => {
+    const change = row.after - row.before;
+    const sign = change > 0 ? '+' : '-';
+    return `${sign}${Math.abs(change)} ${row.part.name} ${formatSize(row.part.dimensions, unit, precision)} (${row.before} → ${row.after})`;
+  });
+
+export const formatPartChange = (change: PartChange, unit: LengthUnit, precision: FractionPrecision) => {
+  const size = (part: PartData) => formatSize(part.dimensions, unit, precision);
+  if (change.kind === 'resized' && change.previous) {
+    return `Resized ${change.part.name}: ${size(change.previous)} → ${size(change.part)}`;
+  }
+  if (change.kind === 'moved' && change.previous) {
+    const distance = Math.hypot(
+      change.part.position[0] - change.previous.position[0],
+      change.part.position[1] - change.previous.position[1],
+      change.part.position[2] - change.previous.position[2]
+    );
+    return distance > DIFF_EPS
+      ? `Moved ${change.part.name} ${formatLength(distance, unit, precision)}`
+      : `Rotated ${change.part.name}`;
+  }
+  const label = change.kind === 'added' ? 'Added' : 'Removed';
+  return `${label} ${change.part.name} (${size(change.part)})`;
+};
+
+export const resolveCompareParts = (
+  snapshots: ProjectSnapshot[],
+  compare: SnapshotCompare | null,
+  currentParts: PartData[]
+) => {
+  if (!compare) return null;
+  const base = snapshots.find((snapshot) => snapshot.id === compare.baseId);
+  if (!base) return null;
+  const target = compare.targetId ? snapshots.find((snapshot) => snapshot.id === compare.targetId) : null;
+  if (compare.targetId && !target) return null;
+  return {
+    baseLabel: base.name,
+    targetLabel: target ? target.name : 'Current design',
+    baseParts: base.parts,
+    targetParts: target ? target.parts : currentParts,
+  };
+};
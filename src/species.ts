@@ -0,0 +1,61 @@
+import { PartData, PartType, WoodSpecies } from './types';
+import { partStockName } from './stockCatalog';
+
+export type SpeciesProperties = {
+  id: WoodSpecies;
+  label: string;
+  form: Exclude<PartType, 'hardware'>;
+  densityLbPerCuFt: number;
+  modulusPsi: number; // modulus of elasticity (stiffness)
+  bendingStrengthPsi: number; // modulus of rupture
+  color: string;
+  priceFactor: number; // relative to the catalog price of the stock it is cut from
+};
+
+// Clear-wood figures at about 12% moisture (USDA Wood Handbook); panel figures are typical
+// manufacturer values along the face grain.
+export const WOOD_SPECIES: SpeciesProperties[] = [
+  { id: 'spf', label: 'SPF', form: 'lumber', densityLbPerCuFt: 26, modulusPsi: 1_400_000, bendingStrengthPsi: 9_000, color: '#eecfa1', priceFactor: 1 },
+  { id: 'pine', label: 'Pine', form: 'lumber', densityLbPerCuFt: 28, modulusPsi: 1_290_000, bendingStrengthPsi: 9_400, color: '#e9c893', priceFactor: 1.4 },
+  { id: 'oak', label: 'Oak', form: 'lumber', densityLbPerCuFt: 44, modulusPsi: 1_820_000, bendingStrengthPsi: 14_300, color: '#c49a6c', priceFactor: 3.4 },
+  { id: 'maple', label: 'Maple', form: 'lumber', densityLbPerCuFt: 44, modulusPsi: 1_830_000, bendingStrengthPsi: 15_800, color: '#ecd6ac', priceFactor: 3.8 },
+  { id: 'birch-ply', label: 'Birch Plywood', form: 'sheet', densityLbPerCuFt: 42, modulusPsi: 1_300_000, bendingStrengthPsi: 7_500, color: '#dec49a', priceFactor: 1 },
+  { id: 'mdf', label: 'MDF', form: 'sheet', densityLbPerCuFt: 48, modulusPsi: 400_000, bendingStrengthPsi: 5_000, color: '#d8c7a6', priceFactor: 0.85 },
+];
+
+const SPECIES_BY_ID = new Map(WOOD_SPECIES.map((species) => [species.id, species]));
+
+// Structural scores are calibrated against SPF, so it scales to exactly 1.
+export const REFERENCE_SPECIES = SPECIES_BY_ID.get('spf') as SpeciesProperties;
+
+export const isWoodSpecies = (value: unknown): value is WoodSpecies =>
+  typeof value === 'string' && SPECIES_BY_ID.has(value as WoodSpecies);
+
+export const getSpecies = (id: WoodSpecies) => SPECIES_BY_ID.get(id) ?? REFERENCE_SPECIES;
+
+export const speciesOptions = (type: PartType) => WOOD_SPECIES.filter((species) => species.form === type);
+
+// What a stock is sold as when nobody has said otherwise: construction lumber is SPF,
+// and sheet goods are plywood unless the stock is named as MDF.
+export const stockDefaultSpecies = (part: PartData) => {
+  if (part.type !== 'sheet') return getSpecies('spf');
+  return getSpecies(/mdf/i.test(partStockName(part)) ? 'mdf' : 'birch-ply');
+};
+
+export const partSpecies = (part: PartData) =>
+  part.species ? getSpecies(part.species) : stockDefaultSpecies(part);
+
+// Shopping-list name for a part: the stock name, prefixed with the species when it is not the
+// stock's usual one, so oak and SPF 1x4s are bought (and priced) separately.
+export const partPurchaseName = (part: PartData) => {
+  const stockName = partStockName(part);
+  if (part.type === 'hardware') return stockName;
+  const species = partSpecies(part);
+  return species.id === stockDefaultSpecies(part).id ? stockName : `${species.label} ${stockName}`;
+};
+
+export const speciesPriceFactor = (part: PartData) =>
+  partSpecies(part).priceFactor / stockDefaultSpecies(part).priceFactor;
+
+export const partWeightLb = (part: PartData) =>
+  ((part.dimensions[0] * part.dimensions[1] * part.dimensions[2]) / 1728) * partSpecies(part).densityLbPerCuFt;
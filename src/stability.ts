@@ -0,0 +1,186 @@
+import * as THREE from 'three';
+import { PartData } from './types';
+import { partWeightLb } from './species';
+import { ResolvedLoad } from './loadMarkers';
+
+type Point2 = [number, number];
+
+export type StabilityReport = {
+  totalWeightLb: number;
+  payloadLb: number;
+  centerOfMass: [number, number, number];
+  centerOfMassHeightIn: number;
+  heightIn: number;
+  supportPolygon: Point2[];
+  // Smallest horizontal push at the top edge that starts it tipping, and which way (x, z) it tips.
+  tipForceLb: number;
+  tipDirection: Point2 | null;
+  // How far it can be tilted before the center of mass passes over an edge.
+  tipAngleDeg: number;
+  stable: boolean;
+  anchorRecommended: boolean;
+  message: string;
+};
+
+const GROUND_TOLERANCE = 0.22;
+const MIN_TIP_ANGLE_DEG = 10;
+// ASTM F2057 applies to units 27" and taller and loads them with 50 lb.
+const ANCHOR_HEIGHT_IN = 27;
+const ANCHOR_FORCE_LB = 50;
+const SLENDER_RATIO = 2;
+
+const partCorners = (part: PartData) => {
+  const [w, h, d] = part.dimensions;
+  const rotation = new THREE.Euler(part.rotation[0], part.rotation[1], part.rotation[2]);
+  const position = new THREE.Vector3(...part.position);
+  return [-1, 1].flatMap((sx) => [-1, 1].flatMap((sy) => [-1, 1].map((sz) => (
+    new THREE.Vector3((sx * w) / 2, (sy * h) / 2, (sz * d) / 2).applyEuler(rotation).add(position)
+  ))));
+};
+
+const convexHull = (points: Point2[]) => {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: Point2, a: Point2, b: Point2) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const build = (input: Point2[]) => input.reduce<Point2[]>((hull, point) => {
+    while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) {
+      hull.pop();
+    }
+    hull.push(point);
+    return hull;
+  }, []);
+  const lower = build(sorted);
+  const upper = build([...sorted].reverse());
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+// Signed distance from an edge of a counter-clockwise hull (positive inside), with its outward normal.
+const edgeDistance = (start: Point2, end: Point2, point: Point2) => {
+  const dx = end[0] - start[0];
+  const dz = end[1] - start[1];
+  const length = Math.hypot(dx, dz) || 1;
+  return {
+    distance: (dx * (point[1] - start[1]) - dz * (point[0] - start[0])) / length,
+    normal: [dz / length, -dx / length] as Point2,
+  };
+};
+
+const hullEdges = (hull: Point2[]) => hull.map((start, index) => [start, hull[(index + 1) % hull.length]] as const);
+
+// Narrowest width of the base, measured across each edge.
+const minimumWidth = (hull: Point2[]) => Math.min(...hullEdges(hull).map(([start, end]) => (
+  Math.max(...hull.map((point) => edgeDistance(start, end, point).distance))
+)));
+
+// Treats the piece as a rigid body standing on whatever touches the floor. Parts carry their own
+// weight at their center and any payload on their top face. Placed loads press down where they act
+// and their level part tries to roll it over an edge of the footprint.
+export const analyzeStability = (parts: PartData[], placedLoads: ResolvedLoad[] = []): StabilityReport => {
+  const woodParts = parts.filter((part) => part.type !== 'hardware');
+  const corners = woodParts.map(partCorners);
+  const empty: StabilityReport = {
+    totalWeightLb: 0,
+    payloadLb: 0,
+    centerOfMass: [0, 0, 0],
+    centerOfMassHeightIn: 0,
+    heightIn: 0,
+    supportPolygon: [],
+    tipForceLb: 0,
+    tipDirection: null,
+    tipAngleDeg: 0,
+    stable: false,
+    anchorRecommended: false,
+    message: 'Add parts to check stability.',
+  };
+  if (woodParts.length === 0) return empty;
+
+  const floorY = Math.min(...corners.flat().map((corner) => corner.y));
+  const topY = Math.max(...corners.flat().map((corner) => corner.y));
+  const heightIn = topY - floorY;
+
+  let totalWeightLb = 0;
+  let payloadLb = 0;
+  const moment = new THREE.Vector3();
+  woodParts.forEach((part, index) => {
+    const box = new THREE.Box3().setFromPoints(corners[index]);
+    const weight = partWeightLb(part);
+    totalWeightLb += weight;
+    moment.addScaledVector(box.getCenter(new THREE.Vector3()), weight);
+    const payload = Math.max(part.payloadLb ?? 0, 0);
+    if (payload > 0) {
+      payloadLb += payload;
+      const center = box.getCenter(new THREE.Vector3());
+      moment.addScaledVector(new THREE.Vector3(center.x, box.max.y, center.z), payload);
+    }
+  });
+  placedLoads.forEach((load) => load.points.forEach((point) => {
+    const down = Math.max(-load.force.y, 0);
+    payloadLb += down;
+    moment.addScaledVector(point, down);
+  }));
+  const totalLb = totalWeightLb + payloadLb;
+  const centerOfMass = totalLb > 0 ? moment.divideScalar(totalLb) : new THREE.Vector3();
+  const centerOfMassHeightIn = Math.max(centerOfMass.y - floorY, 0);
+
+  const footprint = corners.flat()
+    .filter((corner) => corner.y <= floorY + GROUND_TOLERANCE)
+    .map((corner) => [corner.x, corner.z] as Point2);
+  const supportPolygon = convexHull(footprint);
+  const base = {
+    ...empty,
+    totalWeightLb,
+    payloadLb,
+    centerOfMass: centerOfMass.toArray() as [number, number, number],
+    centerOfMassHeightIn,
+    heightIn,
+    supportPolygon,
+    message: '',
+  };
+  if (supportPolygon.length < 3) {
+    return { ...base, message: 'It stands on a single line or point, so any push tips it over.' };
+  }
+
+  const critical = hullEdges(supportPolygon)
+    .map(([start, end]) => edgeDistance(start, end, [centerOfMass.x, centerOfMass.z]))
+    .reduce((best, edge) => (edge.distance < best.distance ? edge : best));
+  // Overturning moment of the level forces about each edge, against the weight's moment about it.
+  const pushedOver = hullEdges(supportPolygon).some(([start, end]) => {
+    const edge = edgeDistance(start, end, [centerOfMass.x, centerOfMass.z]);
+    const overturning = placedLoads.reduce((sum, load) => sum + load.points.reduce((inner, point) => (
+      inner + (load.force.x * edge.normal[0] + load.force.z * edge.normal[1]) * Math.max(point.y - floorY, 0)
+    ), 0), 0);
+    return overturning > 0 && overturning >= totalLb * edge.distance;
+  });
+  if (critical.distance <= 0) {
+    return {
+      ...base,
+      tipDirection: critical.normal,
+      anchorRecommended: true,
+      message: 'The center of mass is outside the footprint, so it falls over on its own. Widen the base or anchor it.',
+    };
+  }
+
+  const tipForceLb = heightIn > 0 ? (totalLb * critical.distance) / heightIn : Infinity;
+  const tipAngleDeg = (Math.atan2(critical.distance, Math.max(centerOfMassHeightIn, 1e-6)) * 180) / Math.PI;
+  const stable = tipAngleDeg >= MIN_TIP_ANGLE_DEG && !pushedOver;
+  const slender = heightIn > SLENDER_RATIO * minimumWidth(supportPolygon);
+  const anchorRecommended = !stable || (heightIn >= ANCHOR_HEIGHT_IN && slender && tipForceLb < ANCHOR_FORCE_LB);
+  const pushText = `${tipForceLb.toFixed(0)} lb at the top edge tips it`;
+
+  return {
+    ...base,
+    tipForceLb,
+    tipDirection: critical.normal,
+    tipAngleDeg,
+    stable,
+    anchorRecommended,
+    message: pushedOver
+      ? 'The placed loads push it over. Anchor it to the wall or widen the base on that side.'
+      : !stable
+        ? `Tips after only ${tipAngleDeg.toFixed(0)}° of lean; ${pushText}. Anchor it to the wall or widen the base.`
+        : anchorRecommended
+          ? `Stands on its own, but ${pushText}. Anchor it to the wall so a climbing child can't pull it over.`
+          : `Stable: ${pushText}, and it can lean ${tipAngleDeg.toFixed(0)}° before tipping.`,
+  };
+};
@@ -0,0 +1,258 @@
+import { FractionPrecision, HardwareKind, LengthUnit, PartData, PriceBook, StockDefinition } from './types';
+import { formatLength } from './units';
+
+export type StockLengthOption = {
+  length: number;
+  price: number | null;
+};
+
+export type SheetStockSize = {
+  width: number;
+  length: number;
+};
+
+export type SheetStockOption = SheetStockSize & {
+  price: number | null;
+};
+
+export const DEFAULT_STOCK_LENGTHS = [96, 120, 144, 192];
+
+export const DEFAULT_SHEET_STOCK: SheetStockSize = { width: 48, length: 96 };
+
+const lengths = (prices: Array<number | null>): StockLengthOption[] =>
+  DEFAULT_STOCK_LENGTHS.map((length, index) => ({ length, price: prices[index] ?? null }))
+    .filter((option) => option.price !== null);
+
+// Approximate big-box store pricing; only lengths that carry a price are offered to the optimizer.
+export const LUMBER_STOCK_CATALOG: Record<string, StockLengthOption[]> = {
+  '2x4 Lumber': lengths([3.98, 5.48, 6.98, 9.47]),
+  '2x2 Stud': lengths([3.18, 4.28, 5.18, null]),
+  '2x6 Lumber': lengths([6.98, 8.48, 10.28, 14.48]),
+  '2x8 Lumber': lengths([9.48, 11.98, 14.28, 19.98]),
+  '4x4 Post': lengths([12.98, 17.48, 21.98, 32.98]),
+  '1x2 Lumber': lengths([3.28, 4.38, 5.48, null]),
+  '1x2 Furring Strip': lengths([1.68, null, null, null]),
+  '1x4 Lumber': lengths([6.48, 8.38, 9.98, 13.98]),
+  '1x6 Lumber': lengths([9.48, 11.98, 14.28, 19.28]),
+};
+
+export const SHEET_STOCK_CATALOG: Record<string, SheetStockOption> = {
+  'Plywood 3/4"': { ...DEFAULT_SHEET_STOCK, price: 54.98 },
+  'Plywood 1/2"': { ...DEFAULT_SHEET_STOCK, price: 42.98 },
+  'MDF 3/4"': { width: 49, length: 97, price: 46.98 },
+};
+
+const lumberStock = (name: string, nominal: string, thickness: number, width: number, color: string): StockDefinition => ({
+  id: name,
+  name,
+  type: 'lumber',
+  nominal,
+  thickness,
+  width,
+  color,
+  stockLengths: LUMBER_STOCK_CATALOG[name].map((option) => option.length),
+});
+
+const sheetStock = (name: string, thickness: number, color: string): StockDefinition => ({
+  id: name,
+  name,
+  type: 'sheet',
+  nominal: name.replace(/^\D+/, ''),
+  thickness,
+  width: SHEET_STOCK_CATALOG[name].width,
+  color,
+  stockLengths: [SHEET_STOCK_CATALOG[name].length],
+});
+
+// Actual (surfaced) sizes for the built-in stock; names match the part library.
+export const BUILT_IN_STOCK: StockDefinition[] = [
+  lumberStock('1x2 Lumber', '1x2', 0.75, 1.5, '#f4d8b1'),
+  lumberStock('1x2 Furring Strip', '1x2', 0.75, 1.5, '#f4d8b1'),
+  lumberStock('2x2 Stud', '2x2', 1.5, 1.5, '#f0d6ac'),
+  lumberStock('1x4 Lumber', '1x4', 0.75, 3.5, '#f5deb3'),
+  lumberStock('2x4 Lumber', '2x4', 1.5, 3.5, '#eecfa1'),
+  lumberStock('1x6 Lumber', '1x6', 0.75, 5.5, '#f2d39f'),
+  lumberStock('2x6 Lumber', '2x6', 1.5, 5.5, '#eecfa1'),
+  lumberStock('2x8 Lumber', '2x8', 1.5, 7.25, '#e6c08d'),
+  lumberStock('4x4 Post', '4x4', 3.5, 3.5, '#d4b483'),
+  sheetStock('Plywood 1/2"', 0.5, '#dec49a'),
+  sheetStock('Plywood 3/4"', 0.75, '#dec49a'),
+  sheetStock('MDF 3/4"', 0.75, '#d8c7a6'),
+];
+
+export const DEFAULT_HARDWARE_KIND_PRICES: Record<HardwareKind, number> = {
+  fastener: 0.12,
+  hinge: 4.98,
+  bracket: 2.48,
+  slide: 12.98,
+  handle: 3.98,
+  dowel: 1.98,
+};
+
+export const HARDWARE_UNIT_PRICES: Record<string, number> = {
+  '#8 x 1-1/4" Wood Screw': 0.09,
+  '#10 x 2-1/2" Wood Screw': 0.16,
+  '#12 x 3" Wood Screw': 0.22,
+  'Cabinet Hinge': 3.48,
+  'Gate Hinge': 6.98,
+};
+
+const readPriceRecord = (value: unknown) => {
+  const record: Record<string, number> = {};
+  if (!value || typeof value !== 'object') return record;
+  Object.entries(value as Record<string, unknown>).forEach(([key, price]) => {
+    if (typeof price === 'number' && Number.isFinite(price) && price >= 0) {
+      record[key] = price;
+    }
+  });
+  return record;
+};
+
+export const normalizePriceBook = (value: unknown): PriceBook => {
+  if (!value || typeof value !== 'object') {
+    return { parts: {}, hardwareKinds: {} };
+  }
+
+  const source = value as { parts?: unknown; hardwareKinds?: unknown };
+  const hardwareKinds = readPriceRecord(source.hardwareKinds);
+  return {
+    parts: readPriceRecord(source.parts),
+    hardwareKinds: Object.fromEntries(
+      Object.entries(hardwareKinds).filter(([kind]) => kind in DEFAULT_HARDWARE_KIND_PRICES)
+    ) as PriceBook['hardwareKinds'],
+  };
+};
+
+const readPositive = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+export const normalizeCustomStock = (value: unknown): StockDefinition[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.flatMap((entry): StockDefinition[] => {
+    if (!entry || typeof entry !== 'object') return [];
+    const source = entry as Record<string, unknown>;
+    const name = typeof source.name === 'string' ? source.name.trim() : '';
+    const thickness = readPositive(source.thickness);
+    const width = readPositive(source.width);
+    if (typeof source.id !== 'string' || !name || seen.has(name) || thickness === null || width === null) {
+      return [];
+    }
+    seen.add(name);
+    const stockLengths = Array.isArray(source.stockLengths)
+      ? Array.from(new Set(source.stockLengths.map(readPositive).filter((length): length is number => length !== null)))
+      : [];
+    return [{
+      id: source.id,
+      name,
+      type: source.type === 'sheet' ? 'sheet' : 'lumber',
+      nominal: typeof source.nominal === 'string' ? source.nominal.trim() : '',
+      thickness,
+      width,
+      color: typeof source.color === 'string' && /^#[0-9a-f]{6}$/i.test(source.color) ? source.color : '#e6c9a0',
+      stockLengths: stockLengths.length > 0
+        ? stockLengths.sort((a, b) => a - b)
+        : [source.type === 'sheet' ? DEFAULT_SHEET_STOCK.length : DEFAULT_STOCK_LENGTHS[0]],
+    }];
+  });
+};
+
+export const isBuiltInStockName = (name: string) =>
+  BUILT_IN_STOCK.some((stock) => stock.name === name);
+
+const findCustomStock = (name: string, customStock: StockDefinition[] = []) =>
+  customStock.find((stock) => stock.name === name);
+
+export const getStockDefinitions = (customStock: StockDefinition[] = []) => [...BUILT_IN_STOCK, ...customStock];
+
+export const findStockDefinition = (name: string, customStock?: StockDefinition[]) =>
+  getStockDefinitions(customStock).find((stock) => stock.name === name);
+
+// Parts saved before stock was tracked separately are cut from the stock they are named after.
+export const partStockName = (part: PartData) => part.stock ?? part.name;
+
+const STOCK_FIT_TOLERANCE = 0.01;
+
+// Length is left out on purpose: long parts are spliced from several boards or panels.
+// Lumber can be ripped and planed down to any smaller section; sheet goods only come in their own thickness.
+export const partFitsStock = (part: PartData, stock: StockDefinition) => {
+  if (part.type !== stock.type) return false;
+  if (stock.type === 'sheet') {
+    return Math.abs(part.dimensions[1] - stock.thickness) <= STOCK_FIT_TOLERANCE;
+  }
+  const [thickness, width] = [...part.dimensions].sort((a, b) => a - b);
+  const [stockThickness, stockWidth] = [stock.thickness, stock.width].sort((a, b) => a - b);
+  return thickness <= stockThickness + STOCK_FIT_TOLERANCE && width <= stockWidth + STOCK_FIT_TOLERANCE;
+};
+
+export const findSmallestFittingStock = (part: PartData, customStock?: StockDefinition[]) => {
+  const size = (stock: StockDefinition) => stock.type === 'sheet'
+    ? stock.width * stock.stockLengths[0]
+    : stock.thickness * stock.width;
+  return getStockDefinitions(customStock)
+    .filter((stock) => partFitsStock(part, stock))
+    .sort((a, b) => size(a) - size(b))[0] ?? null;
+};
+
+// Stock of the other kind (a sheet name on a board) counts as unknown for the part.
+export type StockIssue =
+  | { kind: 'unknown'; stock: null; suggestion: StockDefinition | null }
+  | { kind: 'too-small'; stock: StockDefinition; suggestion: StockDefinition | null };
+
+export const getStockIssue = (part: PartData, customStock?: StockDefinition[]): StockIssue | null => {
+  if (part.type === 'hardware') return null;
+  const found = findStockDefinition(partStockName(part), customStock);
+  const suggestion = findSmallestFittingStock(part, customStock);
+  if (!found || found.type !== part.type) return { kind: 'unknown', stock: null, suggestion };
+  if (partFitsStock(part, found)) return null;
+  return { kind: 'too-small', stock: found, suggestion };
+};
+
+// Price book entries for lumber are per linear foot and reprice every catalog length.
+export const getLumberStockOptions = (
+  name: string,
+  priceBook?: PriceBook,
+  customStock?: StockDefinition[]
+): StockLengthOption[] => {
+  const custom = findCustomStock(name, customStock);
+  const catalog = custom
+    ? custom.stockLengths.map((length) => ({ length, price: null }))
+    : LUMBER_STOCK_CATALOG[name] ?? [{ length: DEFAULT_STOCK_LENGTHS[0], price: null }];
+  const perFoot = priceBook?.parts[name];
+  if (perFoot === undefined) return catalog;
+  return catalog.map((option) => ({ ...option, price: Math.round(perFoot * (option.length / 12) * 100) / 100 }));
+};
+
+export const getCatalogPricePerFoot = (name: string) => {
+  const base = LUMBER_STOCK_CATALOG[name]?.[0];
+  return base?.price != null ? base.price / (base.length / 12) : null;
+};
+
+export const getSheetStockSize = (name: string, customStock?: StockDefinition[]): SheetStockSize => {
+  const custom = findCustomStock(name, customStock);
+  if (custom) return { width: custom.width, length: custom.stockLengths[0] };
+  const entry = SHEET_STOCK_CATALOG[name];
+  return entry ? { width: entry.width, length: entry.length } : DEFAULT_SHEET_STOCK;
+};
+
+export const getSheetPanelPrice = (name: string, priceBook?: PriceBook) =>
+  priceBook?.parts[name] ?? SHEET_STOCK_CATALOG[name]?.price ?? null;
+
+export const getHardwareKindPrice = (kind: HardwareKind, priceBook?: PriceBook) =>
+  priceBook?.hardwareKinds[kind] ?? DEFAULT_HARDWARE_KIND_PRICES[kind];
+
+// Lookup order: project override by name, project override by kind, catalog item, catalog kind.
+export const getHardwareUnitPrice = (name: string, kind: HardwareKind | undefined, priceBook?: PriceBook) => {
+  const override = priceBook?.parts[name] ?? (kind ? priceBook?.hardwareKinds[kind] : undefined);
+  if (override !== undefined) return override;
+  if (HARDWARE_UNIT_PRICES[name] !== undefined) return HARDWARE_UNIT_PRICES[name];
+  return kind ? DEFAULT_HARDWARE_KIND_PRICES[kind] : null;
+};
+
+export const formatStockLength = (length: number, unit: LengthUnit, precision: FractionPrecision) => {
+  const feet = length / 12;
+  const feetLabel = Number.isInteger(feet) ? `${feet}ft` : `${feet.toFixed(1)}ft`;
+  return `${feetLabel} (${formatLength(length, unit, precision)})`;
+};
+
+export const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
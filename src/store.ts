@@ -1,8 +1,32 @@
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
 import * as THREE from 'three';
-import { CutCorner, PartData, ToolType } from './types';
-import type { StressScenario } from './structuralAnalysis';
+import {
+  CutAllowances,
+  CutCorner,
+  DimensionAnnotation,
+  FractionPrecision,
+  FurnitureTemplateId,
+  FurnitureTemplateParams,
+  HistoryEntry,
+  LengthUnit,
+  LoadMarker,
+  Measurement,
+  PartData,
+  PartGroup,
+  PriceBook,
+  ProjectSnapshot,
+  SnapshotCompare,
+  StockDefinition,
+  ToolType,
+} from './types';
+import type { StressScenario, StructuralSolver } from './structuralAnalysis';
+import type { LoadPresetId } from './loadMarkers';
+import { DEFAULT_CUT_ALLOWANCES, normalizeCutAllowances } from './cutOptimizer';
+import { normalizeCustomStock, normalizePriceBook, partStockName } from './stockCatalog';
+import type { ProjectFile } from './projectSchema';
+import { descendantGroupIds, dissolveGroup, nestPartsInGroup, partsInGroup, pruneEmptyGroups } from './partGroups';
+import { generateTemplateParts, getFurnitureTemplate, normalizeTemplateParams } from './furnitureTemplates';
 
 const toQuaternion = (rotation: [number, number, number]) =>
   new THREE.Quaternion().setFromEuler(new THREE.Euler(rotation[0], rotation[1], rotation[2], 'XYZ'));
@@ -127,17 +151,133 @@ const clonePart = (part: PartData): PartData => ({
 
 const cloneParts = (parts: PartData[]) => parts.map(clonePart);
 
+const HISTORY_LIMIT = 80;
+
+// The last id is the primary selection: it carries the gizmo and drives the properties panel.
+const selectionOf = (ids: string[]) => ({
+  selectedIds: ids,
+  selectedId: ids.length > 0 ? ids[ids.length - 1] : null,
+});
+
 const withHistory = (
   state: AppState,
   nextParts: PartData[],
+  label: string,
   extras: Partial<AppState> = {}
 ): Partial<AppState> => ({
   ...extras,
   parts: nextParts,
-  pastParts: [...state.pastParts, cloneParts(state.parts)].slice(-80),
+  groups: pruneEmptyGroups(extras.groups ?? state.groups, nextParts),
+  // Drags stream untracked updates, so record the layout from before the drag began.
+  pastParts: [
+    ...state.pastParts,
+    { label, parts: cloneParts(state.transformBaseParts ?? state.parts), groups: state.groups },
+  ].slice(-HISTORY_LIMIT),
   futureParts: [],
+  transformBaseParts: null,
 });
 
+type HistoryState = Pick<AppState, 'parts' | 'groups' | 'pastParts' | 'futureParts'>;
+
+const stepBack = (history: HistoryState): HistoryState => {
+  const previous = history.pastParts[history.pastParts.length - 1];
+  return {
+    parts: previous.parts,
+    groups: previous.groups,
+    pastParts: history.pastParts.slice(0, -1),
+    futureParts: [
+      { label: previous.label, parts: cloneParts(history.parts), groups: history.groups },
+      ...history.futureParts,
+    ].slice(0, HISTORY_LIMIT),
+  };
+};
+
+const stepForward = (history: HistoryState): HistoryState => {
+  const [next, ...remainingFuture] = history.futureParts;
+  return {
+    parts: next.parts,
+    groups: next.groups,
+    pastParts: [
+      ...history.pastParts,
+      { label: next.label, parts: cloneParts(history.parts), groups: history.groups },
+    ].slice(-HISTORY_LIMIT),
+    futureParts: remainingFuture,
+  };
+};
+
+// Copies keep their hinge attachments only when the hinge is copied along with them.
+const copyParts = (sources: PartData[]) => {
+  const idMap = new Map(sources.map((part) => [part.id, uuidv4()]));
+  const copies: PartData[] = sources.map((source) => {
+    const copiedHingeId = source.attachment ? idMap.get(source.attachment.hingeId) : undefined;
+    return {
+      ...source,
+      id: idMap.get(source.id) as string,
+      position: [...source.position] as [number, number, number],
+      attachment: source.attachment && copiedHingeId
+        ? { ...source.attachment, hingeId: copiedHingeId }
+        : undefined,
+      hinge: source.hardwareKind === 'hinge'
+        ? {
+            ...(source.hinge ?? {
+              angle: 0,
+              minAngle: DEFAULT_HINGE_MIN_ANGLE,
+              maxAngle: DEFAULT_HINGE_MAX_ANGLE,
+              pinOffset: Math.max(source.dimensions[0] * 0.35, 0.2),
+            }),
+            angle: sources.some((part) => part.attachment?.hingeId === source.id)
+              ? source.hinge?.angle ?? 0
+              : 0,
+          }
+        : source.hinge,
+    };
+  });
+  return copies;
+};
+
+// Position counts applied actions: 0 is the oldest kept state, pastParts.length is the current one.
+const moveInHistory = (state: AppState, position: number): Partial<AppState> => {
+  const target = Math.max(0, Math.min(position, state.pastParts.length + state.futureParts.length));
+  if (target === state.pastParts.length) return {};
+
+  let history: HistoryState = state;
+  while (history.pastParts.length > target) {
+    history = stepBack(history);
+  }
+  while (history.pastParts.length < target) {
+    history = stepForward(history);
+  }
+
+  return {
+    ...history,
+    parts: rebuildAllAttachments(cloneParts(history.parts)),
+    ...selectionOf([]),
+    hoveredId: null,
+  };
+};
+
+const tupleChanged = (next: number[] | undefined, current: number[]) =>
+  next !== undefined && next.some((value, index) => Math.abs(value - current[index]) > 0.0001);
+
+const describePartUpdate = (part: PartData, updates: Partial<PartData>) => {
+  if (updates.name !== undefined && updates.name !== part.name) return `Rename ${part.name} to ${updates.name}`;
+  if (updates.dimensions || updates.profile) return `Resize ${part.name}`;
+  if (tupleChanged(updates.rotation, part.rotation) && !tupleChanged(updates.position, part.position)) {
+    return `Rotate ${part.name}`;
+  }
+  if (updates.position) return `Move ${part.name}`;
+  if (updates.color !== undefined || updates.texture !== undefined) return `Stain ${part.name}`;
+  if (updates.hinge) return `Adjust ${part.name}`;
+  return `Edit ${part.name}`;
+};
+
+// Rotation is a quaternion [x, y, z, w] applied about the pivot before translating.
+export type PartsTransform = {
+  pivot: [number, number, number];
+  translation: [number, number, number];
+  rotation: [number, number, number, number];
+};
+
 type AutoScrewResult = {
   ok: boolean;
   message: string;
@@ -596,33 +736,465 @@ const getDirectionCandidates = (
   return candidates;
 };
 
+const PRICE_BOOK_STORAGE_KEY = 'woodworker_price_book';
+
+const loadStoredPriceBook = (): PriceBook => {
+  if (typeof window === 'undefined') return normalizePriceBook(null);
+  try {
+    const stored = window.localStorage.getItem(PRICE_BOOK_STORAGE_KEY);
+    return normalizePriceBook(stored ? JSON.parse(stored) : null);
+  } catch {
+    return normalizePriceBook(null);
+  }
+};
+
+const persistPriceBook = (priceBook: PriceBook) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(PRICE_BOOK_STORAGE_KEY, JSON.stringify(priceBook));
+};
+
+const CUSTOM_STOCK_STORAGE_KEY = 'woodworker_custom_stock';
+
+const loadStoredCustomStock = (): StockDefinition[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(CUSTOM_STOCK_STORAGE_KEY);
+    return normalizeCustomStock(stored ? JSON.parse(stored) : null);
+  } catch {
+    return [];
+  }
+};
+
+const persistCustomStock = (customStock: StockDefinition[]) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(CUSTOM_STOCK_STORAGE_KEY, JSON.stringify(customStock));
+};
+
+const autoScrewFailure = (message: string): { result: AutoScrewResult; screws: PartData[] } => ({
+  result: { ok: false, message, screwCount: 0 },
+  screws: [],
+});
+
+// Plans two screws joining a pair of wood pieces; shared by the auto-screw tool and furniture templates.
+const planAutoScrews = (
+  parts: PartData[],
+  firstId: string,
+  secondId: string
+): { result: AutoScrewResult; screws: PartData[] } => {
+  if (firstId === secondId) {
+    return autoScrewFailure('Select two different pieces.');
+  }
+
+  const first = parts.find((part) => part.id === firstId);
+  const second = parts.find((part) => part.id === secondId);
+  if (!first || !second) {
+    return autoScrewFailure('Could not find both selected pieces.');
+  }
+
+  if (first.type === 'hardware' || second.type === 'hardware') {
+    return autoScrewFailure('Auto screw only works with wood/sheet pieces.');
+  }
+
+  const firstFrame = buildOrientedFrame(first);
+  const secondFrame = buildOrientedFrame(second);
+  const firstFootprint = getPartFootprintPoints(first);
+  const secondFootprint = getPartFootprintPoints(second);
+  const centerDelta = secondFrame.center.clone().sub(firstFrame.center);
+  const centerDeltaLength = centerDelta.length();
+  const centerDeltaDir = centerDeltaLength > 0.0001
+    ? centerDelta.clone().normalize()
+    : null;
+  const directionCandidates = getDirectionCandidates(firstFrame, secondFrame, centerDelta);
+
+  if (directionCandidates.length === 0) {
+    return autoScrewFailure('Could not find a valid screw direction for those pieces.');
+  }
+
+  let bestPlan:
+    | {
+        score: number;
+        screws: PartData[];
+      }
+    | null = null;
+  let foundTouchingDirection = false;
+  let foundSharedProjection = false;
+
+  for (const dir of directionCandidates) {
+    const dirAlignment = centerDeltaDir ? dir.dot(centerDeltaDir) : 1;
+    if (dirAlignment < AUTO_SCREW_MIN_DIR_ALIGNMENT) {
+      continue;
+    }
+
+    const alongFirst = getProjectedRange(firstFrame, dir);
+    const alongSecond = getProjectedRange(secondFrame, dir);
+    const alongGap = getIntervalGap(
+      { start: alongFirst.min, end: alongFirst.max },
+      { start: alongSecond.min, end: alongSecond.max }
+    );
+    const alongOverlap = getIntervalOverlap(
+      alongFirst.min,
+      alongFirst.max,
+      alongSecond.min,
+      alongSecond.max
+    );
+    const firstSpan = alongFirst.max - alongFirst.min;
+    const secondSpan = alongSecond.max - alongSecond.min;
+    const thinnerSpan = Math.min(firstSpan, secondSpan);
+    const allowedAxisOverlap = Math.min(
+      AUTO_SCREW_MAX_AXIS_OVERLAP,
+      Math.max(0.2, thinnerSpan * AUTO_SCREW_MAX_AXIS_OVERLAP_RATIO)
+    );
+    if (alongGap > AUTO_SCREW_CONTACT_GAP_TOLERANCE) {
+      continue;
+    }
+    if (alongOverlap > allowedAxisOverlap) {
+      continue;
+    }
+    foundTouchingDirection = true;
+
+    const basisCandidates = getBasisCandidatesForDirection(dir);
+    for (const basis of basisCandidates) {
+      const uFirst = getProjectedRange(firstFrame, basis.u);
+      const uSecond = getProjectedRange(secondFrame, basis.u);
+      const vFirst = getProjectedRange(firstFrame, basis.v);
+      const vSecond = getProjectedRange(secondFrame, basis.v);
+
+      const overlapUMin = Math.max(uFirst.min, uSecond.min);
+      const overlapUMax = Math.min(uFirst.max, uSecond.max);
+      const overlapVMin = Math.max(vFirst.min, vSecond.min);
+      const overlapVMax = Math.min(vFirst.max, vSecond.max);
+      const overlapU = overlapUMax - overlapUMin;
+      const overlapV = overlapVMax - overlapVMin;
+
+      if (overlapU < AUTO_SCREW_OVERLAP_MIN || overlapV < AUTO_SCREW_OVERLAP_MIN) {
+        continue;
+      }
+      foundSharedProjection = true;
+
+      const uSamples = getSampleCoords(overlapUMin, overlapUMax);
+      const vSamples = getSampleCoords(overlapVMin, overlapVMax);
+      const minOverlap = Math.min(overlapU, overlapV);
+      const minEdgeClearance = Math.max(0.08, Math.min(0.32, minOverlap * 0.2));
+
+      const possiblePlacements: Array<{
+        center: THREE.Vector3;
+        preset: ScrewPreset;
+        score: number;
+        u: number;
+        v: number;
+        edgeMargin: number;
+      }> = [];
+
+      for (const uVal of uSamples) {
+        for (const vVal of vSamples) {
+          const linePoint = new THREE.Vector3()
+            .addScaledVector(basis.u, uVal)
+            .addScaledVector(basis.v, vVal);
+
+          const firstLine = intersectLineWithFrame(firstFrame, linePoint, basis.dir, 0.01);
+          const secondLine = intersectLineWithFrame(secondFrame, linePoint, basis.dir, 0.01);
+          if (!firstLine || !secondLine) {
+            continue;
+          }
+          if (firstLine.length < AUTO_SCREW_MIN_PENETRATION || secondLine.length < AUTO_SCREW_MIN_PENETRATION) {
+            continue;
+          }
+
+          const lineGap = getIntervalGap(firstLine, secondLine);
+          if (lineGap > AUTO_SCREW_CONTACT_GAP_TOLERANCE) {
+            continue;
+          }
+
+          const chosenSegment = chooseScrewSegment(firstLine, secondLine);
+          if (!chosenSegment) {
+            continue;
+          }
+
+          const screwCenter = linePoint.clone().addScaledVector(basis.dir, chosenSegment.center);
+          const requiredPenetration = getRequiredScrewPenetration(chosenSegment.preset.length);
+          const penetrationFirst = estimateScrewPenetrationLength(
+            firstFrame,
+            firstFootprint,
+            screwCenter,
+            basis.dir,
+            chosenSegment.preset.length
+          );
+          const penetrationSecond = estimateScrewPenetrationLength(
+            secondFrame,
+            secondFootprint,
+            screwCenter,
+            basis.dir,
+            chosenSegment.preset.length
+          );
+          if (
+            penetrationFirst < requiredPenetration
+            || penetrationSecond < requiredPenetration
+          ) {
+            continue;
+          }
+          const edgeMargin = Math.min(
+            uVal - uFirst.min,
+            uFirst.max - uVal,
+            vVal - vFirst.min,
+            vFirst.max - vVal,
+            uVal - uSecond.min,
+            uSecond.max - uVal,
+            vVal - vSecond.min,
+            vSecond.max - vVal
+          );
+          if (edgeMargin < minEdgeClearance) {
+            continue;
+          }
+          const centerBias =
+            Math.abs(uVal - (overlapUMin + overlapUMax) / 2)
+            + Math.abs(vVal - (overlapVMin + overlapVMax) / 2);
+          const edgeBonus = Math.max(0, Math.min(0.4, edgeMargin - minEdgeClearance));
+          const seamOffset = Math.abs(chosenSegment.center - chosenSegment.seamCenter);
+
+          possiblePlacements.push({
+            center: screwCenter,
+            preset: chosenSegment.preset,
+            u: uVal,
+            v: vVal,
+            edgeMargin,
+            score:
+              chosenSegment.overlapFirst
+              + chosenSegment.overlapSecond
+              + penetrationFirst
+              + penetrationSecond
+              - lineGap * 1.75
+              - seamOffset * 0.2
+              - centerBias * 0.06
+              + edgeBonus * 0.8,
+          });
+        }
+      }
+
+      if (possiblePlacements.length < AUTO_SCREW_REQUIRED_COUNT) {
+        continue;
+      }
+
+      const maxOverlap = Math.max(overlapU, overlapV);
+      const tightSpace = minOverlap < 1.6 || maxOverlap < 2.25;
+      const targetSpacing = tightSpace
+        ? Math.max(0.16, Math.min(0.8, maxOverlap * 0.26))
+        : Math.max(0.3, Math.min(1.4, maxOverlap * 0.35));
+      let bestPair:
+        | {
+            first: typeof possiblePlacements[number];
+            second: typeof possiblePlacements[number];
+            pairScore: number;
+          }
+        | null = null;
+
+      for (let i = 0; i < possiblePlacements.length; i += 1) {
+        for (let j = i + 1; j < possiblePlacements.length; j += 1) {
+          const p1 = possiblePlacements[i];
+          const p2 = possiblePlacements[j];
+          const du = Math.abs(p1.u - p2.u);
+          const dv = Math.abs(p1.v - p2.v);
+          const majorDelta = Math.max(du, dv);
+          const minorDelta = Math.min(du, dv);
+          if (majorDelta < targetSpacing) {
+            continue;
+          }
+
+          const orientationBonus = tightSpace
+            ? (majorDelta - minorDelta) * 0.3 - minorDelta * 0.08
+            : minorDelta * 0.12;
+          const edgePairBonus = Math.min(p1.edgeMargin, p2.edgeMargin) * 0.12;
+          const directionBonus = dirAlignment * 0.6 - alongOverlap * 0.4;
+          const pairScore = p1.score + p2.score + majorDelta * 0.32 + orientationBonus + edgePairBonus + directionBonus;
+          if (!bestPair || pairScore > bestPair.pairScore) {
+            bestPair = { first: p1, second: p2, pairScore };
+          }
+        }
+      }
+
+      if (!bestPair) {
+        continue;
+      }
+
+      const screwRotation = toEulerTuple(
+        new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), basis.dir)
+      );
+      const planScrews: PartData[] = [bestPair.first, bestPair.second].map((placement) => ({
+        id: uuidv4(),
+        name: placement.preset.name,
+        type: 'hardware',
+        hardwareKind: 'fastener',
+        dimensions: [placement.preset.diameter, placement.preset.length, placement.preset.diameter],
+        position: [placement.center.x, placement.center.y, placement.center.z],
+        rotation: screwRotation,
+        color: '#9ca3af',
+      }));
+
+      if (!bestPlan || bestPair.pairScore > bestPlan.score) {
+        const preferredAxisBias = Math.max(
+          ...firstFrame.axes.map((axis) => Math.abs(axis.dot(basis.dir)))
+        );
+        bestPlan = {
+          score: bestPair.pairScore + preferredAxisBias * 0.3,
+          screws: planScrews,
+        };
+      }
+    }
+  }
+
+  if (!bestPlan) {
+    if (!foundTouchingDirection) {
+      return autoScrewFailure('Selected pieces need to overlap/touch (or be very close).');
+    }
+
+    if (!foundSharedProjection) {
+      return autoScrewFailure('Could not find a shared region to place connecting screws.');
+    }
+
+    return autoScrewFailure('Could not place 2 screws that intersect both selected pieces.');
+  }
+
+  const screwsActuallyConnect = bestPlan.screws.every((screw) => {
+    const screwCenter = new THREE.Vector3(...screw.position);
+    const screwDir = new THREE.Vector3(0, 1, 0)
+      .applyQuaternion(toQuaternion(screw.rotation))
+      .normalize();
+    const screwLength = screw.dimensions[1];
+    const requiredPenetration = getRequiredScrewPenetration(screwLength);
+
+    const firstLine = intersectLineWithFrame(firstFrame, screwCenter, screwDir, 0.002);
+    const secondLine = intersectLineWithFrame(secondFrame, screwCenter, screwDir, 0.002);
+    if (!firstLine || !secondLine) {
+      return false;
+    }
+    const segStart = -screwLength / 2;
+    const segEnd = screwLength / 2;
+    const overlapFirstLine = getIntervalOverlap(segStart, segEnd, firstLine.start, firstLine.end);
+    const overlapSecondLine = getIntervalOverlap(segStart, segEnd, secondLine.start, secondLine.end);
+    if (overlapFirstLine < requiredPenetration || overlapSecondLine < requiredPenetration) {
+      return false;
+    }
+
+    const penetrationFirst = estimateScrewPenetrationLength(
+      firstFrame,
+      firstFootprint,
+      screwCenter,
+      screwDir,
+      screwLength
+    );
+    const penetrationSecond = estimateScrewPenetrationLength(
+      secondFrame,
+      secondFootprint,
+      screwCenter,
+      screwDir,
+      screwLength
+    );
+    return (
+      penetrationFirst >= requiredPenetration
+      && penetrationSecond >= requiredPenetration
+    );
+  });
+
+  if (!screwsActuallyConnect) {
+    return autoScrewFailure('Could not place screws that cleanly intersect both selected pieces.');
+  }
+
+  return {
+    result: {
+      ok: true,
+      message: 'Placed 2 screws.',
+      screwCount: 2,
+    },
+    screws: bestPlan.screws,
+  };
+};
+
+const poseMatrix = (part: PartData) => new THREE.Matrix4().compose(
+  new THREE.Vector3(...part.position),
+  toQuaternion(part.rotation),
+  new THREE.Vector3(1, 1, 1)
+);
+
+// Generates a template's boards under the given pose and screws every joint the planner can handle.
+const buildTemplateParts = (
+  templateId: FurnitureTemplateId,
+  params: FurnitureTemplateParams,
+  groupId: string,
+  pose: THREE.Matrix4
+) => {
+  const { parts: generated, joints } = generateTemplateParts(templateId, params);
+  const boards = generated.map((part) => {
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    poseMatrix(part).premultiply(pose).decompose(position, quaternion, new THREE.Vector3());
+    return {
+      ...part,
+      groupId,
+      position: position.toArray() as [number, number, number],
+      rotation: toEulerTuple(quaternion),
+    };
+  });
+  // Screws enter through the first piece, so try driving from the other side before giving up.
+  const screws = joints.flatMap(([firstId, secondId]) => {
+    const forward = planAutoScrews(boards, firstId, secondId);
+    const plan = forward.result.ok ? forward : planAutoScrews(boards, secondId, firstId);
+    return plan.result.ok ? plan.screws.map((screw) => ({ ...screw, groupId })) : [];
+  });
+  return { boards, screws };
+};
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
 interface AppState {
   parts: PartData[];
-  pastParts: PartData[][];
-  futureParts: PartData[][];
+  groups: PartGroup[];
+  pastParts: HistoryEntry[];
+  futureParts: HistoryEntry[];
   selectedId: string | null;
+  selectedIds: string[];
+  transformBaseParts: PartData[] | null;
   hoveredId: string | null;
   tool: ToolType;
   explodeFactor: number;
   cameraFocusRequest: number;
   
   addPart: (part: PartData) => void;
+  insertParts: (parts: PartData[], options?: { groups?: PartGroup[]; label?: string }) => void;
   updatePart: (
     id: string,
     updates: Partial<PartData>,
-    options?: { trackHistory?: boolean }
+    options?: { trackHistory?: boolean; label?: string }
   ) => void;
-  removePart: (id: string) => void;
-  selectPart: (id: string | null) => void;
+  removeParts: (ids: string[]) => void;
+  selectPart: (id: string | null, options?: { additive?: boolean }) => void;
+  selectParts: (ids: string[], options?: { additive?: boolean }) => void;
   setHoveredId: (id: string | null) => void;
-  duplicatePart: (id: string, options?: { selectDuplicate?: boolean }) => void;
+  duplicateParts: (ids: string[], options?: { selectDuplicate?: boolean }) => void;
+  beginPartsTransform: () => void;
+  endPartsTransform: () => void;
+  transformParts: (ids: string[], transform: PartsTransform, options?: { trackHistory?: boolean; label?: string }) => void;
+  groupParts: (ids: string[], name?: string) => void;
+  selectGroup: (groupId: string, options?: { additive?: boolean }) => void;
+  renameGroup: (groupId: string, name: string) => void;
+  ungroupGroup: (groupId: string) => void;
+  setGroupHidden: (groupId: string, hidden: boolean) => void;
+  duplicateGroup: (groupId: string) => void;
+  placeTemplate: (templateId: FurnitureTemplateId, params: FurnitureTemplateParams) => void;
+  regenerateTemplate: (groupId: string, params: FurnitureTemplateParams) => void;
   attachPartToHinge: (partId: string, hingeId: string) => void;
   detachPartFromHinge: (partId: string) => void;
   setHingeAngle: (hingeId: string, angle: number) => void;
   autoScrewParts: (firstId: string, secondId: string) => AutoScrewResult;
   setTool: (tool: ToolType) => void;
   resetScene: () => void;
-  setParts: (parts: PartData[]) => void;
+  setParts: (parts: PartData[], label?: string) => void;
+  loadProject: (project: ProjectFile, options?: { projectId?: string | null; resetHistory?: boolean }) => void;
+  startNewProject: () => void;
+  activeProjectId: string | null;
+  setActiveProjectId: (id: string | null) => void;
+  projectName: string;
+  setProjectName: (name: string) => void;
+  autosaveStatus: AutosaveStatus;
+  setAutosaveStatus: (status: AutosaveStatus) => void;
   snapEnabled: boolean;
   toggleSnap: () => void;
   edgeSnapEnabled: boolean;
@@ -631,6 +1203,7 @@ interface AppState {
   toggleSelectAssist: () => void;
   undo: () => void;
   redo: () => void;
+  jumpToHistory: (position: number) => void;
   floorEnabled: boolean;
   toggleFloor: () => void;
   shadowsEnabled: boolean;
@@ -641,15 +1214,52 @@ interface AppState {
   setStressScenario: (scenario: StressScenario) => void;
   stressIntensity: number;
   setStressIntensity: (value: number) => void;
+  structuralSolver: StructuralSolver;
+  setStructuralSolver: (solver: StructuralSolver) => void;
   requestCameraFocus: () => void;
   setExplodeFactor: (value: number) => void;
+  cutAllowances: CutAllowances;
+  setCutAllowances: (updates: Partial<CutAllowances>) => void;
+  lengthUnit: LengthUnit;
+  setLengthUnit: (unit: LengthUnit) => void;
+  fractionPrecision: FractionPrecision;
+  setFractionPrecision: (precision: FractionPrecision) => void;
+  priceBook: PriceBook;
+  setPriceBook: (priceBook: PriceBook) => void;
+  setPriceBookEntry: (scope: keyof PriceBook, key: string, price: number | null) => void;
+  customStock: StockDefinition[];
+  saveCustomStock: (stock: StockDefinition) => void;
+  deleteCustomStock: (id: string) => void;
+  snapshots: ProjectSnapshot[];
+  createSnapshot: (name: string) => void;
+  renameSnapshot: (id: string, name: string) => void;
+  deleteSnapshot: (id: string) => void;
+  restoreSnapshot: (id: string) => void;
+  snapshotCompare: SnapshotCompare | null;
+  setSnapshotCompare: (compare: SnapshotCompare | null) => void;
+  measurements: Measurement[];
+  addMeasurement: (measurement: Omit<Measurement, 'id'>) => void;
+  removeMeasurement: (id: string) => void;
+  clearMeasurements: () => void;
+  annotations: DimensionAnnotation[];
+  addAnnotation: (annotation: Omit<DimensionAnnotation, 'id'>) => void;
+  removeAnnotation: (id: string) => void;
+  loadMarkers: LoadMarker[];
+  addLoadMarker: (marker: Omit<LoadMarker, 'id'>) => void;
+  updateLoadMarker: (id: string, updates: Partial<Omit<LoadMarker, 'id'>>) => void;
+  removeLoadMarker: (id: string) => void;
+  loadPreset: LoadPresetId;
+  setLoadPreset: (preset: LoadPresetId) => void;
 }
 
 export const useStore = create<AppState>((set) => ({
   parts: [],
+  groups: [],
   pastParts: [],
   futureParts: [],
   selectedId: null,
+  selectedIds: [],
+  transformBaseParts: null,
   hoveredId: null,
   tool: 'select',
   explodeFactor: 0,
@@ -662,13 +1272,39 @@ export const useStore = create<AppState>((set) => ({
   structuralOverlayEnabled: false,
   stressScenario: 'baseline',
   stressIntensity: 0.6,
+  structuralSolver: 'heuristic',
+  cutAllowances: { ...DEFAULT_CUT_ALLOWANCES },
+  lengthUnit: 'in',
+  fractionPrecision: 16,
+  priceBook: loadStoredPriceBook(),
+  customStock: loadStoredCustomStock(),
+  activeProjectId: null,
+  projectName: 'wood-project',
+  autosaveStatus: 'idle',
+  snapshots: [],
+  snapshotCompare: null,
+  measurements: [],
+  annotations: [],
+  loadMarkers: [],
+  loadPreset: 'shelf-load',
 
   addPart: (part) => set((state) =>
-    withHistory(state, [...state.parts, part], {
-      selectedId: part.id,
-    })
+    withHistory(state, [...state.parts, part], `Add ${part.name}`, selectionOf([part.id]))
   ),
 
+  insertParts: (parts, options) => set((state) => {
+    if (parts.length === 0) return {};
+    return withHistory(
+      state,
+      rebuildAllAttachments([...state.parts, ...parts]),
+      options?.label ?? `Add ${parts.length} parts`,
+      {
+        groups: [...state.groups, ...(options?.groups ?? [])],
+        ...selectionOf(parts.map((part) => part.id)),
+      }
+    );
+  }),
+
   updatePart: (id, updates, options) => set((state) => {
     const current = state.parts.find((part) => part.id === id);
     const detachingAttachment = Boolean(
@@ -694,60 +1330,239 @@ export const useStore = create<AppState>((set) => ({
       return { parts };
     }
 
-    return withHistory(state, parts);
+    const label = options?.label ?? (current ? describePartUpdate(current, updates) : 'Edit part');
+    return withHistory(state, parts, label);
   }),
 
-  removePart: (id) => set((state) => {
-    const removedPart = state.parts.find((part) => part.id === id);
-    const removingHinge = removedPart?.hardwareKind === 'hinge';
-
-    const kept = state.parts.filter((part) => part.id !== id);
-    const parts = removingHinge
-      ? kept.map((part) =>
-          part.attachment?.hingeId === id
-            ? { ...part, attachment: undefined }
-            : part
-        )
-      : kept;
-
-    return withHistory(state, parts, {
-      selectedId: state.selectedId === id ? null : state.selectedId,
-      hoveredId: state.hoveredId === id ? null : state.hoveredId,
+  removeParts: (ids) => set((state) => {
+    const removing = new Set(ids);
+    const removed = state.parts.filter((part) => removing.has(part.id));
+    if (removed.length === 0) return {};
+
+    const parts = state.parts
+      .filter((part) => !removing.has(part.id))
+      .map((part) =>
+        part.attachment && removing.has(part.attachment.hingeId)
+          ? { ...part, attachment: undefined }
+          : part
+      );
+
+    const label = removed.length === 1 ? `Delete ${removed[0].name}` : `Delete ${removed.length} parts`;
+    return withHistory(state, parts, label, {
+      ...selectionOf(state.selectedIds.filter((id) => !removing.has(id))),
+      hoveredId: state.hoveredId && removing.has(state.hoveredId) ? null : state.hoveredId,
     });
   }),
 
-  selectPart: (id) => set({ selectedId: id }),
+  selectPart: (id, options) => set((state) => {
+    if (!options?.additive) return selectionOf(id ? [id] : []);
+    if (!id) return {};
+    return selectionOf(
+      state.selectedIds.includes(id)
+        ? state.selectedIds.filter((selected) => selected !== id)
+        : [...state.selectedIds, id]
+    );
+  }),
+
+  selectParts: (ids, options) => set((state) => {
+    if (!options?.additive) return selectionOf(ids);
+    const existing = new Set(state.selectedIds);
+    return selectionOf([...state.selectedIds, ...ids.filter((id) => !existing.has(id))]);
+  }),
 
   setHoveredId: (id) => set({ hoveredId: id }),
 
-  duplicatePart: (id, options) => set((state) => {
-    const partToDuplicate = state.parts.find((p) => p.id === id);
-    if (!partToDuplicate) return {};
+  duplicateParts: (ids, options) => set((state) => {
+    const sources = state.parts.filter((part) => ids.includes(part.id));
+    if (sources.length === 0) return {};
 
+    const copies = copyParts(sources);
     const shouldSelectDuplicate = options?.selectDuplicate ?? true;
-    const newPart: PartData = {
-      ...partToDuplicate,
-      id: uuidv4(),
-      position: [...partToDuplicate.position] as [number, number, number],
-      attachment: undefined,
-      hinge: partToDuplicate.hardwareKind === 'hinge'
-        ? {
-            ...(partToDuplicate.hinge ?? {
-              angle: 0,
-              minAngle: DEFAULT_HINGE_MIN_ANGLE,
-              maxAngle: DEFAULT_HINGE_MAX_ANGLE,
-              pinOffset: Math.max(partToDuplicate.dimensions[0] * 0.35, 0.2),
-            }),
-            angle: 0,
-          }
-        : partToDuplicate.hinge,
-    };
+    const label = sources.length === 1 ? `Duplicate ${sources[0].name}` : `Duplicate ${sources.length} parts`;
+    return withHistory(
+      state,
+      [...state.parts, ...copies],
+      label,
+      shouldSelectDuplicate ? selectionOf(copies.map((part) => part.id)) : {}
+    );
+  }),
+
+  beginPartsTransform: () => set((state) => ({ transformBaseParts: state.parts })),
+
+  endPartsTransform: () => set({ transformBaseParts: null }),
+
+  transformParts: (ids, transform, options) => set((state) => {
+    const moving = new Set(ids);
+    const baseParts = state.transformBaseParts ?? state.parts;
+    const pivot = new THREE.Vector3(...transform.pivot);
+    const translation = new THREE.Vector3(...transform.translation);
+    const rotation = new THREE.Quaternion(...transform.rotation);
+    const baseById = new Map(baseParts.map((part) => [part.id, part]));
+
+    let parts = state.parts.map((part) => {
+      if (!moving.has(part.id)) return part;
+      const base = baseById.get(part.id) ?? part;
+      const position = new THREE.Vector3(...base.position)
+        .sub(pivot)
+        .applyQuaternion(rotation)
+        .add(pivot)
+        .add(translation);
+      const keepsAttachment = part.attachment ? moving.has(part.attachment.hingeId) : false;
+      return {
+        ...part,
+        position: [position.x, position.y, position.z] as [number, number, number],
+        rotation: toEulerTuple(rotation.clone().multiply(toQuaternion(base.rotation))),
+        attachment: keepsAttachment ? part.attachment : undefined,
+      };
+    });
+
+    parts.forEach((part) => {
+      if (moving.has(part.id) && part.hardwareKind === 'hinge') {
+        parts = updateAttachedPartsForHinge(parts, part.id);
+      }
+    });
+
+    if (options?.trackHistory === false) {
+      return { parts };
+    }
+    return withHistory(state, parts, options?.label ?? `Move ${ids.length} parts`);
+  }),
+
+  groupParts: (ids, name) => set((state) => {
+    const members = state.parts.filter((part) => ids.includes(part.id));
+    if (members.length === 0) return {};
+    const groupName = name?.trim() || `Assembly ${state.groups.length + 1}`;
+    const next = nestPartsInGroup(state.groups, state.parts, ids, { id: uuidv4(), name: groupName });
+    return withHistory(state, next.parts, `Group ${members.length} parts as ${groupName}`, { groups: next.groups });
+  }),
+
+  selectGroup: (groupId, options) => set((state) => {
+    const ids = partsInGroup(state.parts, state.groups, groupId).map((part) => part.id);
+    if (!options?.additive) return selectionOf(ids);
+    const existing = new Set(state.selectedIds);
+    return selectionOf([...state.selectedIds, ...ids.filter((id) => !existing.has(id))]);
+  }),
+
+  renameGroup: (groupId, name) => set((state) => {
+    const group = state.groups.find((entry) => entry.id === groupId);
+    const nextName = name.trim();
+    if (!group || !nextName || nextName === group.name) return {};
+    return withHistory(state, state.parts, `Rename ${group.name} to ${nextName}`, {
+      groups: state.groups.map((entry) => (entry.id === groupId ? { ...entry, name: nextName } : entry)),
+    });
+  }),
+
+  ungroupGroup: (groupId) => set((state) => {
+    const group = state.groups.find((entry) => entry.id === groupId);
+    if (!group) return {};
+    const next = dissolveGroup(state.groups, state.parts, groupId);
+    return withHistory(state, next.parts, `Ungroup ${group.name}`, { groups: next.groups });
+  }),
 
-    return withHistory(state, [...state.parts, newPart], {
-      selectedId: shouldSelectDuplicate ? newPart.id : state.selectedId,
+  setGroupHidden: (groupId, hidden) => set((state) => {
+    const group = state.groups.find((entry) => entry.id === groupId);
+    if (!group || Boolean(group.hidden) === hidden) return {};
+    // Hidden parts can't be picked in the scene, so drop them from the selection.
+    const hiddenIds = new Set(partsInGroup(state.parts, state.groups, groupId).map((part) => part.id));
+    return withHistory(state, state.parts, `${hidden ? 'Hide' : 'Show'} ${group.name}`, {
+      groups: state.groups.map((entry) => (entry.id === groupId ? { ...entry, hidden: hidden || undefined } : entry)),
+      ...(hidden ? selectionOf(state.selectedIds.filter((id) => !hiddenIds.has(id))) : {}),
     });
   }),
 
+  duplicateGroup: (groupId) => set((state) => {
+    const group = state.groups.find((entry) => entry.id === groupId);
+    if (!group) return {};
+    const sourceGroupIds = descendantGroupIds(state.groups, groupId);
+    const groupIdMap = new Map(Array.from(sourceGroupIds).map((id) => [id, uuidv4()]));
+    const groupCopies = state.groups
+      .filter((entry) => sourceGroupIds.has(entry.id))
+      .map((entry) => ({
+        ...entry,
+        id: groupIdMap.get(entry.id) as string,
+        name: entry.id === groupId ? `${entry.name} copy` : entry.name,
+        parentId: entry.id === groupId ? entry.parentId : groupIdMap.get(entry.parentId as string),
+      }));
+    const sources = partsInGroup(state.parts, state.groups, groupId);
+    const copies = copyParts(sources).map((part) => ({
+      ...part,
+      groupId: groupIdMap.get(part.groupId as string),
+    }));
+    const partIdMap = new Map(sources.map((part, index) => [part.id, copies[index].id]));
+    const remappedGroupCopies = groupCopies.map((entry) => (entry.template
+      ? {
+          ...entry,
+          template: {
+            ...entry.template,
+            partIds: entry.template.partIds.map((id) => partIdMap.get(id) ?? id),
+          },
+        }
+      : entry));
+    return withHistory(state, [...state.parts, ...copies], `Duplicate ${group.name}`, {
+      groups: [...state.groups, ...remappedGroupCopies],
+      ...selectionOf(copies.map((part) => part.id)),
+    });
+  }),
+
+  placeTemplate: (templateId, params) => set((state) => {
+    const template = getFurnitureTemplate(templateId);
+    const normalized = normalizeTemplateParams(templateId, params);
+    const groupId = uuidv4();
+    const { boards, screws } = buildTemplateParts(templateId, normalized, groupId, new THREE.Matrix4());
+    const placed = [...boards, ...screws];
+    return withHistory(state, [...state.parts, ...placed], `Add ${template.label}`, {
+      groups: [
+        ...state.groups,
+        {
+          id: groupId,
+          name: template.label,
+          template: { templateId, params: normalized, partIds: boards.map((part) => part.id) },
+        },
+      ],
+      ...selectionOf(placed.map((part) => part.id)),
+    });
+  }),
+
+  regenerateTemplate: (groupId, params) => set((state) => {
+    const group = state.groups.find((entry) => entry.id === groupId);
+    if (!group?.template) return {};
+    const { templateId } = group.template;
+    const normalized = normalizeTemplateParams(templateId, params);
+
+    // Keep the assembly wherever it was moved to: the first surviving board, compared with
+    // where the old parameters generated it, gives the rigid transform to reapply.
+    const pose = new THREE.Matrix4();
+    const previous = generateTemplateParts(templateId, group.template.params).parts;
+    const anchorIndex = group.template.partIds.findIndex((id, index) =>
+      index < previous.length && state.parts.some((part) => part.id === id)
+    );
+    if (anchorIndex >= 0) {
+      const anchor = state.parts.find((part) => part.id === group.template?.partIds[anchorIndex]) as PartData;
+      pose.multiplyMatrices(poseMatrix(anchor), poseMatrix(previous[anchorIndex]).invert());
+    }
+
+    const { boards, screws } = buildTemplateParts(templateId, normalized, groupId, pose);
+    const replacedIds = new Set(partsInGroup(state.parts, state.groups, groupId).map((part) => part.id));
+    const regenerated = [...boards, ...screws];
+    const wasSelected = state.selectedIds.some((id) => replacedIds.has(id));
+    return withHistory(
+      state,
+      [...state.parts.filter((part) => !replacedIds.has(part.id)), ...regenerated],
+      `Regenerate ${group.name}`,
+      {
+        // Nested assemblies are replaced along with their parts.
+        groups: state.groups
+          .filter((entry) => entry.id === groupId || !descendantGroupIds(state.groups, groupId).has(entry.id))
+          .map((entry) => (entry.id === groupId
+            ? { ...entry, template: { templateId, params: normalized, partIds: boards.map((part) => part.id) } }
+            : entry)),
+        ...(wasSelected
+          ? selectionOf(regenerated.map((part) => part.id))
+          : selectionOf(state.selectedIds.filter((id) => !replacedIds.has(id)))),
+      }
+    );
+  }),
+
   attachPartToHinge: (partId, hingeId) => set((state) => {
     if (partId === hingeId) return {};
 
@@ -779,16 +1594,17 @@ export const useStore = create<AppState>((set) => ({
           }
         : item
     );
-    return withHistory(state, nextParts);
+    return withHistory(state, nextParts, `Attach ${part.name} to ${hinge.name}`);
   }),
 
   detachPartFromHinge: (partId) => set((state) => {
+    const detached = state.parts.find((part) => part.id === partId);
     const nextParts = state.parts.map((part) =>
       part.id === partId
         ? { ...part, attachment: undefined }
         : part
     );
-    return withHistory(state, nextParts);
+    return withHistory(state, nextParts, `Detach ${detached?.name ?? 'part'}`);
   }),
 
   setHingeAngle: (hingeId, angle) => set((state) => {
@@ -813,7 +1629,7 @@ export const useStore = create<AppState>((set) => ({
     );
 
     parts = updateAttachedPartsForHinge(parts, hingeId);
-    return withHistory(state, parts);
+    return withHistory(state, parts, `Swing ${hinge.name}`);
   }),
 
   autoScrewParts: (firstId, secondId) => {
@@ -824,393 +1640,169 @@ export const useStore = create<AppState>((set) => ({
     };
 
     set((state) => {
-      if (firstId === secondId) {
-        result = {
-          ok: false,
-          message: 'Select two different pieces.',
-          screwCount: 0,
-        };
-        return {};
-      }
-
-      const first = state.parts.find((part) => part.id === firstId);
-      const second = state.parts.find((part) => part.id === secondId);
-      if (!first || !second) {
-        result = {
-          ok: false,
-          message: 'Could not find both selected pieces.',
-          screwCount: 0,
-        };
-        return {};
-      }
+      const plan = planAutoScrews(state.parts, firstId, secondId);
+      result = plan.result;
+      if (!plan.result.ok) return {};
+      return withHistory(state, [...state.parts, ...plan.screws], `Auto screw: ${plan.screws.length} screws`, {
+        ...selectionOf([secondId]),
+      });
+    });
 
-      if (first.type === 'hardware' || second.type === 'hardware') {
-        result = {
-          ok: false,
-          message: 'Auto screw only works with wood/sheet pieces.',
-          screwCount: 0,
-        };
-        return {};
-      }
+    return result;
+  },
 
-      const firstFrame = buildOrientedFrame(first);
-      const secondFrame = buildOrientedFrame(second);
-      const firstFootprint = getPartFootprintPoints(first);
-      const secondFootprint = getPartFootprintPoints(second);
-      const centerDelta = secondFrame.center.clone().sub(firstFrame.center);
-      const centerDeltaLength = centerDelta.length();
-      const centerDeltaDir = centerDeltaLength > 0.0001
-        ? centerDelta.clone().normalize()
-        : null;
-      const directionCandidates = getDirectionCandidates(firstFrame, secondFrame, centerDelta);
-
-      if (directionCandidates.length === 0) {
-        result = {
-          ok: false,
-          message: 'Could not find a valid screw direction for those pieces.',
-          screwCount: 0,
-        };
-        return {};
-      }
+  setTool: (tool) => set({ tool }),
 
-      let bestPlan:
-        | {
-            score: number;
-            screws: PartData[];
-          }
-        | null = null;
-      let foundTouchingDirection = false;
-      let foundSharedProjection = false;
+  resetScene: () => set((state) =>
+    withHistory(state, [], 'Reset scene', {
+      ...selectionOf([]),
+      hoveredId: null,
+      explodeFactor: 0,
+      cameraFocusRequest: 0,
+    })
+  ),
 
-      for (const dir of directionCandidates) {
-        const dirAlignment = centerDeltaDir ? dir.dot(centerDeltaDir) : 1;
-        if (dirAlignment < AUTO_SCREW_MIN_DIR_ALIGNMENT) {
-          continue;
-        }
+  setParts: (parts, label = 'Edit parts') => set((state) =>
+    withHistory(state, rebuildAllAttachments(parts), label, {
+      ...selectionOf([]),
+      hoveredId: null,
+    })
+  ),
 
-        const alongFirst = getProjectedRange(firstFrame, dir);
-        const alongSecond = getProjectedRange(secondFrame, dir);
-        const alongGap = getIntervalGap(
-          { start: alongFirst.min, end: alongFirst.max },
-          { start: alongSecond.min, end: alongSecond.max }
-        );
-        const alongOverlap = getIntervalOverlap(
-          alongFirst.min,
-          alongFirst.max,
-          alongSecond.min,
-          alongSecond.max
-        );
-        const firstSpan = alongFirst.max - alongFirst.min;
-        const secondSpan = alongSecond.max - alongSecond.min;
-        const thinnerSpan = Math.min(firstSpan, secondSpan);
-        const allowedAxisOverlap = Math.min(
-          AUTO_SCREW_MAX_AXIS_OVERLAP,
-          Math.max(0.2, thinnerSpan * AUTO_SCREW_MAX_AXIS_OVERLAP_RATIO)
-        );
-        if (alongGap > AUTO_SCREW_CONTACT_GAP_TOLERANCE) {
-          continue;
-        }
-        if (alongOverlap > allowedAxisOverlap) {
-          continue;
-        }
-        foundTouchingDirection = true;
-
-        const basisCandidates = getBasisCandidatesForDirection(dir);
-        for (const basis of basisCandidates) {
-          const uFirst = getProjectedRange(firstFrame, basis.u);
-          const uSecond = getProjectedRange(secondFrame, basis.u);
-          const vFirst = getProjectedRange(firstFrame, basis.v);
-          const vSecond = getProjectedRange(secondFrame, basis.v);
-
-          const overlapUMin = Math.max(uFirst.min, uSecond.min);
-          const overlapUMax = Math.min(uFirst.max, uSecond.max);
-          const overlapVMin = Math.max(vFirst.min, vSecond.min);
-          const overlapVMax = Math.min(vFirst.max, vSecond.max);
-          const overlapU = overlapUMax - overlapUMin;
-          const overlapV = overlapVMax - overlapVMin;
-
-          if (overlapU < AUTO_SCREW_OVERLAP_MIN || overlapV < AUTO_SCREW_OVERLAP_MIN) {
-            continue;
-          }
-          foundSharedProjection = true;
-
-          const uSamples = getSampleCoords(overlapUMin, overlapUMax);
-          const vSamples = getSampleCoords(overlapVMin, overlapVMax);
-          const minOverlap = Math.min(overlapU, overlapV);
-          const minEdgeClearance = Math.max(0.08, Math.min(0.32, minOverlap * 0.2));
-
-          const possiblePlacements: Array<{
-            center: THREE.Vector3;
-            preset: ScrewPreset;
-            score: number;
-            u: number;
-            v: number;
-            edgeMargin: number;
-          }> = [];
-
-          for (const uVal of uSamples) {
-            for (const vVal of vSamples) {
-              const linePoint = new THREE.Vector3()
-                .addScaledVector(basis.u, uVal)
-                .addScaledVector(basis.v, vVal);
-
-              const firstLine = intersectLineWithFrame(firstFrame, linePoint, basis.dir, 0.01);
-              const secondLine = intersectLineWithFrame(secondFrame, linePoint, basis.dir, 0.01);
-              if (!firstLine || !secondLine) {
-                continue;
-              }
-              if (firstLine.length < AUTO_SCREW_MIN_PENETRATION || secondLine.length < AUTO_SCREW_MIN_PENETRATION) {
-                continue;
-              }
-
-              const lineGap = getIntervalGap(firstLine, secondLine);
-              if (lineGap > AUTO_SCREW_CONTACT_GAP_TOLERANCE) {
-                continue;
-              }
-
-              const chosenSegment = chooseScrewSegment(firstLine, secondLine);
-              if (!chosenSegment) {
-                continue;
-              }
-
-              const screwCenter = linePoint.clone().addScaledVector(basis.dir, chosenSegment.center);
-              const requiredPenetration = getRequiredScrewPenetration(chosenSegment.preset.length);
-              const penetrationFirst = estimateScrewPenetrationLength(
-                firstFrame,
-                firstFootprint,
-                screwCenter,
-                basis.dir,
-                chosenSegment.preset.length
-              );
-              const penetrationSecond = estimateScrewPenetrationLength(
-                secondFrame,
-                secondFootprint,
-                screwCenter,
-                basis.dir,
-                chosenSegment.preset.length
-              );
-              if (
-                penetrationFirst < requiredPenetration
-                || penetrationSecond < requiredPenetration
-              ) {
-                continue;
-              }
-              const edgeMargin = Math.min(
-                uVal - uFirst.min,
-                uFirst.max - uVal,
-                vVal - vFirst.min,
-                vFirst.max - vVal,
-                uVal - uSecond.min,
-                uSecond.max - uVal,
-                vVal - vSecond.min,
-                vSecond.max - vVal
-              );
-              if (edgeMargin < minEdgeClearance) {
-                continue;
-              }
-              const centerBias =
-                Math.abs(uVal - (overlapUMin + overlapUMax) / 2)
-                + Math.abs(vVal - (overlapVMin + overlapVMax) / 2);
-              const edgeBonus = Math.max(0, Math.min(0.4, edgeMargin - minEdgeClearance));
-              const seamOffset = Math.abs(chosenSegment.center - chosenSegment.seamCenter);
-
-              possiblePlacements.push({
-                center: screwCenter,
-                preset: chosenSegment.preset,
-                u: uVal,
-                v: vVal,
-                edgeMargin,
-                score:
-                  chosenSegment.overlapFirst
-                  + chosenSegment.overlapSecond
-                  + penetrationFirst
-                  + penetrationSecond
-                  - lineGap * 1.75
-                  - seamOffset * 0.2
-                  - centerBias * 0.06
-                  + edgeBonus * 0.8,
-              });
-            }
-          }
+  loadProject: (project, options) => set((state) => {
+    const priceBook = project.priceBook ? normalizePriceBook(project.priceBook) : state.priceBook;
+    if (project.priceBook) {
+      persistPriceBook(priceBook);
+    }
+    const extras: Partial<AppState> = {
+      ...selectionOf([]),
+      hoveredId: null,
+      cutAllowances: normalizeCutAllowances(project.cutAllowances),
+      lengthUnit: project.lengthUnit,
+      fractionPrecision: project.fractionPrecision,
+      priceBook,
+      activeProjectId: options?.projectId ?? null,
+      projectName: project.projectName.trim() || 'wood-project',
+      snapshots: project.snapshots,
+      snapshotCompare: null,
+      groups: project.groups,
+      measurements: project.measurements,
+      annotations: project.annotations,
+      loadMarkers: project.loadMarkers,
+    };
+    const nextParts = rebuildAllAttachments(project.parts);
+    return options?.resetHistory
+      ? {
+        ...extras,
+        parts: nextParts,
+        groups: pruneEmptyGroups(project.groups, nextParts),
+        pastParts: project.history?.past ?? [],
+        futureParts: project.history?.future ?? [],
+      }
+      : withHistory(state, nextParts, `Import ${extras.projectName}`, extras);
+  }),
 
-          if (possiblePlacements.length < AUTO_SCREW_REQUIRED_COUNT) {
-            continue;
-          }
+  startNewProject: () => set({
+    parts: [],
+    groups: [],
+    pastParts: [],
+    futureParts: [],
+    ...selectionOf([]),
+    hoveredId: null,
+    explodeFactor: 0,
+    cutAllowances: { ...DEFAULT_CUT_ALLOWANCES },
+    lengthUnit: 'in',
+    fractionPrecision: 16,
+    activeProjectId: null,
+    projectName: 'wood-project',
+    snapshots: [],
+    snapshotCompare: null,
+    measurements: [],
+    annotations: [],
+    loadMarkers: [],
+  }),
 
-          const maxOverlap = Math.max(overlapU, overlapV);
-          const tightSpace = minOverlap < 1.6 || maxOverlap < 2.25;
-          const targetSpacing = tightSpace
-            ? Math.max(0.16, Math.min(0.8, maxOverlap * 0.26))
-            : Math.max(0.3, Math.min(1.4, maxOverlap * 0.35));
-          let bestPair:
-            | {
-                first: typeof possiblePlacements[number];
-                second: typeof possiblePlacements[number];
-                pairScore: number;
-              }
-            | null = null;
-
-          for (let i = 0; i < possiblePlacements.length; i += 1) {
-            for (let j = i + 1; j < possiblePlacements.length; j += 1) {
-              const p1 = possiblePlacements[i];
-              const p2 = possiblePlacements[j];
-              const du = Math.abs(p1.u - p2.u);
-              const dv = Math.abs(p1.v - p2.v);
-              const majorDelta = Math.max(du, dv);
-              const minorDelta = Math.min(du, dv);
-              if (majorDelta < targetSpacing) {
-                continue;
-              }
-
-              const orientationBonus = tightSpace
-                ? (majorDelta - minorDelta) * 0.3 - minorDelta * 0.08
-                : minorDelta * 0.12;
-              const edgePairBonus = Math.min(p1.edgeMargin, p2.edgeMargin) * 0.12;
-              const directionBonus = dirAlignment * 0.6 - alongOverlap * 0.4;
-              const pairScore = p1.score + p2.score + majorDelta * 0.32 + orientationBonus + edgePairBonus + directionBonus;
-              if (!bestPair || pairScore > bestPair.pairScore) {
-                bestPair = { first: p1, second: p2, pairScore };
-              }
-            }
-          }
+  setActiveProjectId: (id) => set({ activeProjectId: id }),
 
-          if (!bestPair) {
-            continue;
-          }
+  setProjectName: (name) => set({ projectName: name.trim() || 'wood-project' }),
 
-          const screwRotation = toEulerTuple(
-            new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), basis.dir)
-          );
-          const planScrews: PartData[] = [bestPair.first, bestPair.second].map((placement) => ({
-            id: uuidv4(),
-            name: placement.preset.name,
-            type: 'hardware',
-            hardwareKind: 'fastener',
-            dimensions: [placement.preset.diameter, placement.preset.length, placement.preset.diameter],
-            position: [placement.center.x, placement.center.y, placement.center.z],
-            rotation: screwRotation,
-            color: '#9ca3af',
-          }));
-
-          if (!bestPlan || bestPair.pairScore > bestPlan.score) {
-            const preferredAxisBias = Math.max(
-              ...firstFrame.axes.map((axis) => Math.abs(axis.dot(basis.dir)))
-            );
-            bestPlan = {
-              score: bestPair.pairScore + preferredAxisBias * 0.3,
-              screws: planScrews,
-            };
-          }
-        }
-      }
+  setAutosaveStatus: (status) => set({ autosaveStatus: status }),
 
-      if (!bestPlan) {
-        if (!foundTouchingDirection) {
-          result = {
-            ok: false,
-            message: 'Selected pieces need to overlap/touch (or be very close).',
-            screwCount: 0,
-          };
-          return {};
-        }
+  createSnapshot: (name) => set((state) => ({
+    snapshots: [
+      ...state.snapshots,
+      {
+        id: uuidv4(),
+        name: name.trim() || `Snapshot ${state.snapshots.length + 1}`,
+        createdAt: new Date().toISOString(),
+        parts: state.parts,
+        groups: state.groups,
+      },
+    ],
+  })),
+
+  renameSnapshot: (id, name) => set((state) => ({
+    snapshots: state.snapshots.map((snapshot) => (
+      snapshot.id === id ? { ...snapshot, name: name.trim() || snapshot.name } : snapshot
+    )),
+  })),
+
+  deleteSnapshot: (id) => set((state) => ({
+    snapshots: state.snapshots.filter((snapshot) => snapshot.id !== id),
+    snapshotCompare: state.snapshotCompare
+      && (state.snapshotCompare.baseId === id || state.snapshotCompare.targetId === id)
+      ? null
+      : state.snapshotCompare,
+  })),
+
+  restoreSnapshot: (id) => set((state) => {
+    const snapshot = state.snapshots.find((entry) => entry.id === id);
+    if (!snapshot) return state;
+    return withHistory(state, rebuildAllAttachments(snapshot.parts), `Restore snapshot "${snapshot.name}"`, {
+      ...selectionOf([]),
+      hoveredId: null,
+      snapshotCompare: null,
+      groups: snapshot.groups,
+    });
+  }),
 
-        if (!foundSharedProjection) {
-          result = {
-            ok: false,
-            message: 'Could not find a shared region to place connecting screws.',
-            screwCount: 0,
-          };
-          return {};
-        }
+  addMeasurement: (measurement) => set((state) => ({
+    measurements: [...state.measurements, { ...measurement, id: uuidv4() }],
+  })),
 
-        result = {
-          ok: false,
-          message: 'Could not place 2 screws that intersect both selected pieces.',
-          screwCount: 0,
-        };
-        return {};
-      }
+  removeMeasurement: (id) => set((state) => ({
+    measurements: state.measurements.filter((measurement) => measurement.id !== id),
+  })),
 
-      const screwsActuallyConnect = bestPlan.screws.every((screw) => {
-        const screwCenter = new THREE.Vector3(...screw.position);
-        const screwDir = new THREE.Vector3(0, 1, 0)
-          .applyQuaternion(toQuaternion(screw.rotation))
-          .normalize();
-        const screwLength = screw.dimensions[1];
-        const requiredPenetration = getRequiredScrewPenetration(screwLength);
-
-        const firstLine = intersectLineWithFrame(firstFrame, screwCenter, screwDir, 0.002);
-        const secondLine = intersectLineWithFrame(secondFrame, screwCenter, screwDir, 0.002);
-        if (!firstLine || !secondLine) {
-          return false;
-        }
-        const segStart = -screwLength / 2;
-        const segEnd = screwLength / 2;
-        const overlapFirstLine = getIntervalOverlap(segStart, segEnd, firstLine.start, firstLine.end);
-        const overlapSecondLine = getIntervalOverlap(segStart, segEnd, secondLine.start, secondLine.end);
-        if (overlapFirstLine < requiredPenetration || overlapSecondLine < requiredPenetration) {
-          return false;
-        }
+  clearMeasurements: () => set({ measurements: [] }),
 
-        const penetrationFirst = estimateScrewPenetrationLength(
-          firstFrame,
-          firstFootprint,
-          screwCenter,
-          screwDir,
-          screwLength
-        );
-        const penetrationSecond = estimateScrewPenetrationLength(
-          secondFrame,
-          secondFootprint,
-          screwCenter,
-          screwDir,
-          screwLength
-        );
-        return (
-          penetrationFirst >= requiredPenetration
-          && penetrationSecond >= requiredPenetration
-        );
-      });
+  addAnnotation: (annotation) => set((state) => ({
+    annotations: [...state.annotations, { ...annotation, id: uuidv4() }],
+  })),
 
-      if (!screwsActuallyConnect) {
-        result = {
-          ok: false,
-          message: 'Could not place screws that cleanly intersect both selected pieces.',
-          screwCount: 0,
-        };
-        return {};
-      }
+  removeAnnotation: (id) => set((state) => ({
+    annotations: state.annotations.filter((annotation) => annotation.id !== id),
+  })),
 
-      result = {
-        ok: true,
-        message: 'Placed 2 screws.',
-        screwCount: 2,
-      };
-      return withHistory(state, [...state.parts, ...bestPlan.screws], {
-        selectedId: secondId,
-      });
-    });
+  addLoadMarker: (marker) => set((state) => ({
+    loadMarkers: [...state.loadMarkers, { ...marker, id: uuidv4() }],
+  })),
 
-    return result;
-  },
+  updateLoadMarker: (id, updates) => set((state) => ({
+    loadMarkers: state.loadMarkers.map((marker) => (marker.id === id ? { ...marker, ...updates } : marker)),
+  })),
 
-  setTool: (tool) => set({ tool }),
+  removeLoadMarker: (id) => set((state) => ({
+    loadMarkers: state.loadMarkers.filter((marker) => marker.id !== id),
+  })),
 
-  resetScene: () => set((state) =>
-    withHistory(state, [], {
-      selectedId: null,
-      hoveredId: null,
-      explodeFactor: 0,
-      cameraFocusRequest: 0,
-    })
-  ),
+  setLoadPreset: (preset) => set({ loadPreset: preset }),
 
-  setParts: (parts) => set((state) =>
-    withHistory(state, rebuildAllAttachments(parts), {
-      selectedId: null,
-      hoveredId: null,
-    })
-  ),
+  setSnapshotCompare: (compare) => set({
+    snapshotCompare: compare,
+    ...selectionOf([]),
+    hoveredId: null,
+  }),
 
   toggleSnap: () => set((state) => ({ snapEnabled: !state.snapEnabled })),
 
@@ -1224,29 +1816,11 @@ export const useStore = create<AppState>((set) => ({
     };
   }),
 
-  undo: () => set((state) => {
-    if (state.pastParts.length === 0) return {};
-    const previous = state.pastParts[state.pastParts.length - 1];
-    return {
-      parts: rebuildAllAttachments(cloneParts(previous)),
-      pastParts: state.pastParts.slice(0, -1),
-      futureParts: [cloneParts(state.parts), ...state.futureParts].slice(0, 80),
-      selectedId: null,
-      hoveredId: null,
-    };
-  }),
+  undo: () => set((state) => moveInHistory(state, state.pastParts.length - 1)),
 
-  redo: () => set((state) => {
-    if (state.futureParts.length === 0) return {};
-    const [next, ...remainingFuture] = state.futureParts;
-    return {
-      parts: rebuildAllAttachments(cloneParts(next)),
-      pastParts: [...state.pastParts, cloneParts(state.parts)].slice(-80),
-      futureParts: remainingFuture,
-      selectedId: null,
-      hoveredId: null,
-    };
-  }),
+  redo: () => set((state) => moveInHistory(state, state.pastParts.length + 1)),
+
+  jumpToHistory: (position) => set((state) => moveInHistory(state, position)),
 
   toggleFloor: () => set((state) => ({ floorEnabled: !state.floorEnabled })),
 
@@ -1257,8 +1831,66 @@ export const useStore = create<AppState>((set) => ({
   setStressScenario: (scenario) => set({ stressScenario: scenario }),
 
   setStressIntensity: (value) => set({ stressIntensity: Math.max(0, Math.min(1, value)) }),
+  setStructuralSolver: (solver) => set({ structuralSolver: solver }),
 
   requestCameraFocus: () => set((state) => ({ cameraFocusRequest: state.cameraFocusRequest + 1 })),
 
   setExplodeFactor: (value) => set({ explodeFactor: Math.max(0, Math.min(1, value)) }),
+
+  setCutAllowances: (updates) => set((state) => ({
+    cutAllowances: normalizeCutAllowances({ ...state.cutAllowances, ...updates }),
+  })),
+
+  setLengthUnit: (unit) => set({ lengthUnit: unit }),
+  setFractionPrecision: (precision) => set({ fractionPrecision: precision }),
+
+  setPriceBook: (priceBook) => {
+    const nextPriceBook = normalizePriceBook(priceBook);
+    persistPriceBook(nextPriceBook);
+    set({ priceBook: nextPriceBook });
+  },
+
+  setPriceBookEntry: (scope, key, price) => set((state) => {
+    const entries: Record<string, number> = { ...state.priceBook[scope] };
+    if (price === null || !Number.isFinite(price) || price < 0) {
+      delete entries[key];
+    } else {
+      entries[key] = price;
+    }
+    const nextPriceBook = normalizePriceBook({ ...state.priceBook, [scope]: entries });
+    persistPriceBook(nextPriceBook);
+    return { priceBook: nextPriceBook };
+  }),
+
+  saveCustomStock: (stock) => set((state) => {
+    const previous = state.customStock.find((entry) => entry.id === stock.id);
+    const customStock = normalizeCustomStock(
+      previous
+        ? state.customStock.map((entry) => (entry.id === stock.id ? stock : entry))
+        : [...state.customStock, stock]
+    );
+    persistCustomStock(customStock);
+    // Parts refer to stock by name, so a rename carries the existing parts along.
+    const nextName = customStock.find((entry) => entry.id === stock.id)?.name;
+    const usesPrevious = (part: PartData) => part.type !== 'hardware' && partStockName(part) === previous?.name;
+    if (!previous || !nextName || previous.name === nextName || !state.parts.some(usesPrevious)) {
+      return { customStock };
+    }
+    return {
+      customStock,
+      ...withHistory(
+        state,
+        state.parts.map((part) => (usesPrevious(part)
+          ? { ...part, stock: nextName, name: part.name === previous.name ? nextName : part.name }
+          : part)),
+        `Rename stock ${previous.name} to ${nextName}`
+      ),
+    };
+  }),
+
+  deleteCustomStock: (id) => set((state) => {
+    const customStock = state.customStock.filter((entry) => entry.id !== id);
+    persistCustomStock(customStock);
+    return { customStock };
+  }),
 }));
@@ -1,12 +1,22 @@
-import { PartData } from './types';
+import { LoadMarker, PartData } from './types';
+import { partSpecies, partWeightLb, REFERENCE_SPECIES } from './species';
+import { FrameSkip, FrameSolution, solveFrame } from './frameSolver';
+import { analyzeStability, StabilityReport } from './stability';
+import { ResolvedLoad, resolveLoadMarkers } from './loadMarkers';
 
 type Axis = 'x' | 'y' | 'z';
 
 export type StressScenario = 'baseline' | 'vertical-load' | 'lateral-rack' | 'torsion-twist' | 'impact-burst';
 
+// 'frame' replaces the heuristic scores of lumber members with their solved stress utilization.
+export type StructuralSolver = 'heuristic' | 'frame';
+
 export type StructuralAnalysisOptions = {
   stressScenario?: StressScenario;
   stressIntensity?: number;
+  solver?: StructuralSolver;
+  // When any resolve to a part, these replace the scenario's forces.
+  loadMarkers?: LoadMarker[];
 };
 
 type Bounds3 = {
@@ -51,7 +61,13 @@ export type StructuralReport = {
     score: number;
     grade: string;
     recommendation: string;
+    placedLoadCount: number;
   };
+  solver: StructuralSolver;
+  frame: FrameSolution | null;
+  // Set when the frame solver was chosen but left the scores to the quick estimates.
+  frameSkipped: FrameSkip | null;
+  stability: StabilityReport;
   partScores: Record<string, number>;
   partFields: Record<string, StructuralPartField>;
   weakPartIds: string[];
@@ -124,6 +140,9 @@ type StressProfile = {
   impactLoad: number;
 };
 
+// Placed loads are summed into a profile of their own, which stands in for the scenario's.
+type LoadProfile = Omit<StressProfile, 'id'> & { id: StressScenario | 'placed' };
+
 const STRESS_PROFILES: Record<StressScenario, StressProfile> = {
   baseline: {
     id: 'baseline',
@@ -180,6 +199,51 @@ export const STRESS_SCENARIO_OPTIONS = (
   }))
 );
 
+// Full-scale placed forces, matching the frame solver's design loads: a seated adult pressing down,
+// a 50 lb shove sideways and a 40 lb couple twisting the corners.
+const PLACED_VERTICAL_REFERENCE_LB = 200;
+const PLACED_LATERAL_REFERENCE_LB = 50;
+const PLACED_TORSION_REFERENCE_LB = 40;
+const MAX_PLACED_LOAD_RATIO = 2;
+
+const placedLoadProfile = (
+  loads: ResolvedLoad[],
+  centerX: number,
+  centerZ: number,
+  radius: number
+): LoadProfile => {
+  let down = 0;
+  let level = 0;
+  let twist = 0;
+  loads.forEach((load) => {
+    load.points.forEach((point) => {
+      down += Math.max(-load.force.y, 0);
+      level += Math.hypot(load.force.x, load.force.z);
+      twist += Math.abs((point.x - centerX) * load.force.z - (point.z - centerZ) * load.force.x);
+    });
+  });
+  const totalLb = loads.reduce((sum, load) => sum + load.marker.magnitudeLb, 0);
+  return {
+    id: 'placed',
+    label: 'Placed Loads',
+    description: `${loads.length} placed load${loads.length === 1 ? '' : 's'} totaling ${totalLb.toFixed(0)} lb, in place of the scenario forces.`,
+    verticalLoad: clamp(down / PLACED_VERTICAL_REFERENCE_LB, 0, MAX_PLACED_LOAD_RATIO),
+    lateralLoad: clamp(level / PLACED_LATERAL_REFERENCE_LB, 0, MAX_PLACED_LOAD_RATIO),
+    torsionLoad: clamp(twist / (2 * PLACED_TORSION_REFERENCE_LB * radius), 0, MAX_PLACED_LOAD_RATIO),
+    impactLoad: 0,
+  };
+};
+
+const placedLoadPoints = (loads: ResolvedLoad[], partId: string): StructuralPoint[] =>
+  loads
+    .filter((load) => load.part.id === partId)
+    .flatMap((load) => load.points.map((point) => ({
+      x: point.x,
+      y: point.y,
+      z: point.z,
+      intensity: clamp(0.3 + (load.marker.magnitudeLb / PLACED_VERTICAL_REFERENCE_LB) * 0.7, 0.1, 1),
+    })));
+
 const HEAT_STOPS: Array<{ t: number; color: string }> = [
   { t: 0, color: '#dc2626' },
   { t: 0.16, color: '#f97316' },
@@ -338,7 +402,7 @@ const buildRecommendation = (
 };
 
 const buildStressRecommendation = (
-  profile: StressProfile,
+  profile: LoadProfile,
   stressScore: number,
   weakPartCount: number,
   fastenerEngagement: number
@@ -466,7 +530,9 @@ export const analyzeStructuralIntegrity = (
   const scenario = options.stressScenario ?? 'baseline';
   const stressIntensity = clamp(options.stressIntensity ?? 0.6, 0, 1);
   const stressProfile = STRESS_PROFILES[scenario] ?? STRESS_PROFILES.baseline;
+  const solver = options.solver ?? 'heuristic';
   const woodParts = parts.filter((part) => part.type !== 'hardware');
+  const placedLoads = resolveLoadMarkers(options.loadMarkers ?? [], woodParts);
   const hardwareParts = parts.filter((part) => part.type === 'hardware');
   const fastenerParts = hardwareParts.filter((part) => part.hardwareKind === 'fastener');
   const fastenerCount = fastenerParts.length;
@@ -483,7 +549,12 @@ export const analyzeStructuralIntegrity = (
       score: 0,
       grade: 'N/A',
       recommendation: 'Add parts to run structural stress simulation.',
+      placedLoadCount: 0,
     },
+    solver,
+    frame: null,
+    frameSkipped: null,
+    stability: analyzeStability(parts),
     partScores: {},
     partFields: {},
     weakPartIds: [],
@@ -666,14 +737,22 @@ export const analyzeStructuralIntegrity = (
     }
   });
 
+  // Loads are tracked in pounds, so heavy species bear down harder on what holds them up.
   const partById = new Map<string, PartData>();
-  const partVolumeById = new Map<string, number>();
+  const partWeightById = new Map<string, number>();
   const carriedLoad = new Map<string, number>();
   woodParts.forEach((part) => {
     partById.set(part.id, part);
-    const volume = Math.max(part.dimensions[0] * part.dimensions[1] * part.dimensions[2], EPS);
-    partVolumeById.set(part.id, volume);
-    carriedLoad.set(part.id, volume);
+    const weight = Math.max(partWeightLb(part), EPS);
+    partWeightById.set(part.id, weight);
+    carriedLoad.set(part.id, weight);
+  });
+  // The downward part of each placed load bears on its part and is passed down with its weight.
+  placedLoads.forEach((load) => {
+    const downLb = Math.max(-load.force.y, 0) * load.points.length;
+    if (downLb <= 0) return;
+    loadDemand.set(load.part.id, (loadDemand.get(load.part.id) ?? 0) + downLb);
+    carriedLoad.set(load.part.id, (carriedLoad.get(load.part.id) ?? 0) + downLb);
   });
 
   const topDownParts = [...woodParts].sort((lhs, rhs) => {
@@ -688,7 +767,7 @@ export const analyzeStructuralIntegrity = (
     const totalSupportArea = supporters.reduce((sum, item) => sum + item.area, 0);
     if (totalSupportArea <= EPS) return;
 
-    const carried = carriedLoad.get(part.id) ?? (partVolumeById.get(part.id) ?? EPS);
+    const carried = carriedLoad.get(part.id) ?? (partWeightById.get(part.id) ?? EPS);
     supporters.forEach((item) => {
       const share = item.area / totalSupportArea;
       const transferredLoad = carried * share;
@@ -698,8 +777,8 @@ export const analyzeStructuralIntegrity = (
       const belowPart = partById.get(item.belowId);
       const belowBounds = boundsById.get(item.belowId);
       if (!belowPart || !belowBounds) return;
-      const belowVolume = partVolumeById.get(item.belowId) ?? EPS;
-      const localIntensity = clamp((transferredLoad / belowVolume) * 0.72, 0.08, 1);
+      const belowWeight = partWeightById.get(item.belowId) ?? EPS;
+      const localIntensity = clamp((transferredLoad / belowWeight) * 0.72, 0.08, 1);
       pushDistributedPatchPoints(
         loadPoints,
         item.belowId,
@@ -767,6 +846,37 @@ export const analyzeStructuralIntegrity = (
   let groundedParts = 0;
   let totalConnections = 0;
   let totalSupportRatio = 0;
+  const loadProfile: LoadProfile = placedLoads.length > 0
+    ? placedLoadProfile(placedLoads, modelCenterX, modelCenterZ, modelRadius)
+    : stressProfile;
+  // Placed loads are already in pounds, so the intensity slider does not scale them.
+  const scenarioWeight = loadProfile.id === 'placed'
+    ? 1
+    : loadProfile.id === 'baseline'
+      ? 0
+      : clamp(0.4 + stressIntensity * 0.6, 0.4, 1);
+  const frameResult = solver === 'frame'
+    ? solveFrame(parts, loadProfile.id === 'placed'
+      ? {
+        vertical: 0,
+        lateral: 0,
+        torsion: 0,
+        impact: 0,
+        placed: placedLoads.flatMap((load) => load.points.map((point) => ({
+          partId: load.part.id,
+          point,
+          force: load.force,
+        }))),
+      }
+      : {
+        vertical: loadProfile.verticalLoad * scenarioWeight,
+        lateral: loadProfile.lateralLoad * scenarioWeight,
+        torsion: loadProfile.torsionLoad * scenarioWeight,
+        impact: loadProfile.impactLoad * scenarioWeight,
+      })
+    : null;
+  const frameSkipped = frameResult && 'skipped' in frameResult ? frameResult : null;
+  const frame = frameSkipped ? null : frameResult as FrameSolution | null;
 
   woodParts.forEach((part) => {
     const bounds = boundsById.get(part.id);
@@ -809,16 +919,21 @@ export const analyzeStructuralIntegrity = (
           ? 0.72
           : 1;
 
+    // Stiffer and stronger material than SPF tolerates more slenderness and load. Stiffness is
+    // square-rooted to keep MDF from failing every shelf outright.
+    const species = partSpecies(part);
+    const stiffnessFactor = Math.sqrt(species.modulusPsi / REFERENCE_SPECIES.modulusPsi);
+    const strengthFactor = species.bendingStrengthPsi / REFERENCE_SPECIES.bendingStrengthPsi;
     const slenderness = Math.max(spanX, spanY, spanZ) / Math.max(Math.min(spanX, spanZ), 0.5);
-    const geometryScore = clamp(1 - (slenderness - 1) / 8, 0.12, 1);
+    const geometryScore = clamp(1 - (slenderness - 1) / (8 * stiffnessFactor), 0.12, 1);
 
     const relativeHeight = spanY / Math.max(spanX + spanZ, 1);
     const cantileverPenalty = !grounded && supportRatio < 0.36
       ? clamp(relativeHeight * 0.14 + (0.36 - supportRatio) * 0.18, 0, 0.22)
       : 0;
     const screwSupport = clamp((fastenerLinks.get(part.id) ?? 0) / 2.5, 0, 1);
-    const ownVolume = Math.max(spanX * spanY * spanZ, EPS);
-    const loadRatio = clamp((loadDemand.get(part.id) ?? 0) / ownVolume, 0, 5);
+    const ownWeight = Math.max(((spanX * spanY * spanZ) / 1728) * species.densityLbPerCuFt, EPS);
+    const loadRatio = clamp((loadDemand.get(part.id) ?? 0) / (ownWeight * strengthFactor), 0, 5);
     const pressurePenalty = clamp((loadRatio - 1.05) * 0.045, 0, 0.14) * (1 - supportRatio * 0.68);
 
     let score = (
@@ -845,23 +960,20 @@ export const analyzeStructuralIntegrity = (
       1
     );
     const topExposure = clamp((bounds.maxY - modelMinY) / modelSpanY, 0, 1);
-    const scenarioWeight = stressProfile.id === 'baseline'
-      ? 0
-      : clamp(0.4 + stressIntensity * 0.6, 0.4, 1);
 
-    const verticalPenalty = stressProfile.verticalLoad
+    const verticalPenalty = loadProfile.verticalLoad
       * scenarioWeight
       * (0.13 + loadRatio * 0.05)
       * (1 - supportRatio * 0.72);
-    const lateralPenalty = stressProfile.lateralLoad
+    const lateralPenalty = loadProfile.lateralLoad
       * scenarioWeight
       * (0.12 + relativeHeight * 0.08 + topExposure * 0.05)
       * (1 - (axisDiversity * 0.5 + screwSupport * 0.26 + connectionScore * 0.24));
-    const torsionPenalty = stressProfile.torsionLoad
+    const torsionPenalty = loadProfile.torsionLoad
       * scenarioWeight
       * (0.1 + radialNorm * 0.1 + topExposure * 0.06)
       * (1 - (supportPatternScore * 0.46 + screwSupport * 0.34 + axisDiversity * 0.2));
-    const impactPenalty = stressProfile.impactLoad
+    const impactPenalty = loadProfile.impactLoad
       * scenarioWeight
       * (0.08 + loadRatio * 0.05)
       * (1 - (screwSupport * 0.42 + connectionScore * 0.34 + supportRatio * 0.24));
@@ -878,12 +990,16 @@ export const analyzeStructuralIntegrity = (
       0,
       1
     );
-    const stressBonus = stressProfile.id === 'baseline'
+    const stressBonus = loadProfile.id === 'baseline'
       ? 0
       : Math.max(0, resilience - 0.62) * scenarioWeight * 0.08;
     score = score - stressPenalty + stressBonus;
 
     score = clamp(score, 0, 1);
+    const utilization = frame?.utilization[part.id];
+    if (utilization !== undefined) {
+      score = clamp(1 - utilization, 0, 1);
+    }
     partScores[part.id] = score;
 
     if (score < 0.48) {
@@ -901,8 +1017,8 @@ export const analyzeStructuralIntegrity = (
       });
     }
 
-    const scenarioLoadList: StructuralPoint[] = [];
-    if (stressProfile.id !== 'baseline') {
+    const scenarioLoadList = placedLoadPoints(placedLoads, part.id);
+    if (loadProfile.id !== 'baseline' && loadProfile.id !== 'placed') {
       const heightBias = clamp(0.62 + topExposure * 0.52, 0.62, 1.25);
       if (stressProfile.verticalLoad > 0) {
         const vIntensity = clamp(
@@ -1022,7 +1138,7 @@ export const analyzeStructuralIntegrity = (
     0
   );
   const totalVolumeCuFt = totalVolumeCuIn / 1728;
-  const estimatedWeightLb = totalVolumeCuFt * 34;
+  const estimatedWeightLb = woodParts.reduce((sum, part) => sum + partWeightLb(part), 0);
 
   const allBounds = woodParts.map((part) => boundsById.get(part.id)).filter(Boolean) as Bounds3[];
   const minX = Math.min(...allBounds.map((b) => b.minX));
@@ -1035,13 +1151,12 @@ export const analyzeStructuralIntegrity = (
   const footprintSqFt = Math.max((maxX - minX) * (maxZ - minZ), 0) / 144;
   const maxSpanIn = Math.max(maxX - minX, maxZ - minZ);
 
-  const volumeWeightedCenterY = woodParts.reduce((sum, part) => {
-    const volume = part.dimensions[0] * part.dimensions[1] * part.dimensions[2];
+  const weightedCenterY = woodParts.reduce((sum, part) => {
     const bounds = boundsById.get(part.id);
     if (!bounds) return sum;
-    return sum + ((bounds.minY + bounds.maxY) / 2) * volume;
-  }, 0) / Math.max(totalVolumeCuIn, EPS);
-  const centerOfMassHeightIn = Math.max(0, volumeWeightedCenterY - minY);
+    return sum + ((bounds.minY + bounds.maxY) / 2) * partWeightLb(part);
+  }, 0) / Math.max(estimatedWeightLb, EPS);
+  const centerOfMassHeightIn = Math.max(0, weightedCenterY - minY);
 
   let positiveXVolume = 0;
   let negativeXVolume = 0;
@@ -1103,18 +1218,23 @@ export const analyzeStructuralIntegrity = (
     recommendation: buildRecommendation(overallScore, weakPartIds.length, connectedGroups, fastenerEngagement),
     stress: {
       scenario: stressProfile.id,
-      label: stressProfile.label,
-      description: stressProfile.description,
+      label: loadProfile.label,
+      description: loadProfile.description,
       intensity: stressIntensity,
       score: stressScore,
       grade: getGrade(stressScore),
       recommendation: buildStressRecommendation(
-        stressProfile,
+        loadProfile,
         stressScore,
         weakPartIds.length,
         fastenerEngagement
       ),
+      placedLoadCount: placedLoads.length,
     },
+    solver,
+    frame,
+    frameSkipped,
+    stability: analyzeStability(parts, placedLoads),
     partScores,
     partFields,
     weakPartIds,
@@ -1,5 +1,6 @@
 export type PartType = 'lumber' | 'sheet' | 'hardware';
 export type HardwareKind = 'fastener' | 'hinge' | 'bracket' | 'slide' | 'handle' | 'dowel';
+export type WoodSpecies = 'spf' | 'pine' | 'oak' | 'maple' | 'birch-ply' | 'mdf';
 
 export type PartProfileType = 'rect' | 'l-cut' | 'polygon' | 'angled';
 export type CutCorner = 'front-left' | 'front-right' | 'back-left' | 'back-right';
@@ -40,6 +41,129 @@ export interface PartData {
   profile?: PartProfile;
   hinge?: HingeState;
   attachment?: HingeAttachment;
+  groupId?: string; // innermost assembly the part belongs to
+  stock?: string; // stock it is cut from; the name is used when missing
+  species?: WoodSpecies; // the stock's usual material is assumed when missing
+  payloadLb?: number; // weight stored on the part, e.g. books on a shelf
 }
 
-export type ToolType = 'select' | 'move' | 'rotate' | 'delete' | 'auto-screw';
+export type FurnitureTemplateId = 'bookshelf' | 'bench' | 'workbench';
+
+export interface FurnitureTemplateParams {
+  width: number;
+  height: number;
+  depth: number;
+  shelfCount: number;
+  stock: string;
+}
+
+// `partIds` lists the generated boards in build order; regeneration uses the first survivor
+// to work out where the assembly has been moved since.
+export interface TemplateInstance {
+  templateId: FurnitureTemplateId;
+  params: FurnitureTemplateParams;
+  partIds: string[];
+}
+
+// Assemblies nest through parentId; a group without one sits at the top of the tree.
+export interface PartGroup {
+  id: string;
+  name: string;
+  parentId?: string;
+  hidden?: boolean;
+  template?: TemplateInstance;
+}
+
+// Lengths are always stored in inches; the unit only changes how they are shown and typed.
+export type LengthUnit = 'in' | 'frac-in' | 'mm' | 'cm';
+
+// Denominator fractional inches are rounded to.
+export type FractionPrecision = 16 | 32;
+
+export interface CutAllowances {
+  kerf: number;
+  endTrim: number;
+  ripAllowance: number;
+}
+
+// A board or panel size as sold. Lumber comes in each of `stockLengths`; sheets come as
+// `width` x the first stock length.
+export interface StockDefinition {
+  id: string;
+  name: string;
+  type: 'lumber' | 'sheet';
+  nominal: string; // trade size, e.g. 5/4x6 or 1/4"
+  thickness: number; // actual, in inches
+  width: number;
+  color: string;
+  stockLengths: number[];
+}
+
+export interface PriceBook {
+  parts: Record<string, number>;
+  hardwareKinds: Partial<Record<HardwareKind, number>>;
+}
+
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: string;
+  parts: PartData[];
+  groups: PartGroup[];
+}
+
+// `parts` is the design on the far side of the labeled action: before it for undo entries, after it for redo entries.
+export interface HistoryEntry {
+  label: string;
+  parts: PartData[];
+  groups: PartGroup[];
+}
+
+export interface ProjectHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// A null target compares the base snapshot against the live design.
+export interface SnapshotCompare {
+  baseId: string;
+  targetId: string | null;
+}
+
+export type ToolType = 'select' | 'move' | 'rotate' | 'delete' | 'auto-screw' | 'measure' | 'load';
+
+// A pinned distance in world space. Face-to-face measurements run perpendicular between two
+// parallel faces, so `end` is the foot of that perpendicular rather than the clicked point.
+export interface Measurement {
+  id: string;
+  kind: 'point' | 'face';
+  start: [number, number, number];
+  end: [number, number, number];
+}
+
+// A point on a part as a fraction of its half-dimensions, so it tracks the part through moves and resizes.
+export interface PartAnchor {
+  partId: string;
+  offset: [number, number, number];
+}
+
+// A dimension line between two parts. Face annotations keep the start face's normal (in the start
+// part's frame) and measure the perpendicular gap to the end anchor.
+export interface DimensionAnnotation {
+  id: string;
+  kind: 'point' | 'face';
+  start: PartAnchor;
+  end: PartAnchor;
+  normal?: [number, number, number];
+}
+
+// A force placed on a part. Point loads act at the anchor; distributed loads are spread over the
+// part's top face. The direction is a world-space unit vector, so a lean stays level as the part turns.
+export interface LoadMarker {
+  id: string;
+  kind: 'point' | 'distributed';
+  anchor: PartAnchor;
+  direction: [number, number, number];
+  magnitudeLb: number;
+  label: string;
+}
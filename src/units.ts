@@ -0,0 +1,137 @@
+import { FractionPrecision, LengthUnit } from './types';
+
+export const formatInches = (value: number) => {
+  const rounded = Math.round(value * 100) / 100;
+  const text = rounded.toFixed(2);
+  return text.replace(/\.00$/, '').replace(/(\.\d)0$/, '$1');
+};
+
+export const LENGTH_UNITS: { id: LengthUnit; label: string }[] = [
+  { id: 'in', label: 'Inches (decimal)' },
+  { id: 'frac-in', label: 'Inches (fractional)' },
+  { id: 'mm', label: 'Millimeters' },
+  { id: 'cm', label: 'Centimeters' },
+];
+
+const MM_PER_INCH = 25.4;
+const KG_PER_LB = 0.45359237;
+const SQ_M_PER_SQ_FT = 0.09290304;
+const CU_IN_PER_CU_FT = 1728;
+const LITERS_PER_CU_IN = 0.016387064;
+export const FRACTION_PRECISIONS: { id: FractionPrecision; label: string }[] = [
+  { id: 16, label: '1/16"' },
+  { id: 32, label: '1/32"' },
+];
+
+// Anything closer than this to a tick mark is treated as landing on it.
+const ROUNDING_TOLERANCE = 1e-4;
+
+export const normalizeLengthUnit = (value: unknown): LengthUnit =>
+  LENGTH_UNITS.some((unit) => unit.id === value) ? value as LengthUnit : 'in';
+
+export const normalizeFractionPrecision = (value: unknown): FractionPrecision =>
+  FRACTION_PRECISIONS.some((precision) => precision.id === value) ? value as FractionPrecision : 16;
+
+export const isMetricUnit = (unit: LengthUnit) => unit === 'mm' || unit === 'cm';
+
+const trimDecimals = (value: number, digits: number) =>
+  value.toFixed(digits).replace(/\.?0+$/, '') || '0';
+
+export const formatFractionalInches = (inches: number, denominator: FractionPrecision = 16) => {
+  const steps = Math.round(Math.abs(inches) * denominator);
+  const sign = inches < 0 && steps > 0 ? '-' : '';
+  const whole = Math.floor(steps / denominator);
+  let numerator = steps % denominator;
+  let reduced: number = denominator;
+  while (numerator > 0 && numerator % 2 === 0) {
+    numerator /= 2;
+    reduced /= 2;
+  }
+  if (numerator === 0) return `${sign}${whole}`;
+  return whole === 0 ? `${sign}${numerator}/${reduced}` : `${sign}${whole}-${numerator}/${reduced}`;
+};
+
+// The bare number in the project's unit, as typed into inputs.
+export const formatLengthValue = (inches: number, unit: LengthUnit, precision: FractionPrecision) => {
+  switch (unit) {
+    case 'frac-in':
+      return formatFractionalInches(inches, precision);
+    case 'mm':
+      return trimDecimals(inches * MM_PER_INCH, 1);
+    case 'cm':
+      return trimDecimals((inches * MM_PER_INCH) / 10, 2);
+    default:
+      return formatInches(inches);
+  }
+};
+
+export const lengthUnitSymbol = (unit: LengthUnit) => (isMetricUnit(unit) ? ` ${unit}` : '"');
+
+export const lengthUnitName = (unit: LengthUnit) => (isMetricUnit(unit) ? unit : 'inches');
+
+export const formatLength = (inches: number, unit: LengthUnit, precision: FractionPrecision) =>
+  `${formatLengthValue(inches, unit, precision)}${lengthUnitSymbol(unit)}`;
+
+// Sag is a few hundredths of an inch, far below the fraction precision used for cut sizes.
+export const formatDeflection = (inches: number, unit: LengthUnit) =>
+  isMetricUnit(unit) ? `${(inches * 25.4).toFixed(2)} mm` : `${inches.toFixed(3)}"`;
+
+export const formatSize = (dimensions: number[], unit: LengthUnit, precision: FractionPrecision) =>
+  dimensions.map((dimension) => formatLength(dimension, unit, precision)).join(' x ');
+
+// How far the displayed fraction is from the real length; zero outside fractional inches.
+export const fractionRoundingError = (inches: number, unit: LengthUnit, precision: FractionPrecision) => {
+  if (unit !== 'frac-in') return 0;
+  const error = Math.round(inches * precision) / precision - inches;
+  return Math.abs(error) < ROUNDING_TOLERANCE ? 0 : error;
+};
+
+export const describeRounding = (inches: number, unit: LengthUnit, precision: FractionPrecision) => {
+  const error = fractionRoundingError(inches, unit, precision);
+  if (error === 0) return null;
+  return `${trimDecimals(inches, 3)}" shows as ${formatLength(inches, unit, precision)} (${error > 0 ? 'over' : 'under'} by ${Math.abs(error).toFixed(3)}")`;
+};
+
+const UNIT_SUFFIX = /\s*(mm|cm|in|inches|")$/i;
+const NUMBER_PATTERN = /^(-)?(?:(\d+(?:\.\d*)?|\.\d+)(?:(?:\s+|-)(\d+)\/(\d+))?|(\d+)\/(\d+))$/;
+
+// Accepts decimals and tape-measure fractions (23-5/8, 23 5/8, 5/8). A typed unit suffix wins over
+// the project unit, so 600mm works while the project is in inches. Returns inches.
+export const parseLength = (text: string, unit: LengthUnit): number | null => {
+  let source = text.trim();
+  let inputUnit = unit;
+  const suffix = source.match(UNIT_SUFFIX);
+  if (suffix) {
+    const symbol = suffix[1].toLowerCase();
+    inputUnit = symbol === 'mm' || symbol === 'cm' ? symbol : 'in';
+    source = source.slice(0, suffix.index).trim();
+  }
+
+  const match = source.match(NUMBER_PATTERN);
+  if (!match) return null;
+  const [, negative, whole, fractionTop, fractionBottom, bareTop, bareBottom] = match;
+  const top = Number(fractionTop ?? bareTop ?? 0);
+  const bottom = Number(fractionBottom ?? bareBottom ?? 1);
+  if (bottom === 0) return null;
+  const magnitude = Number(whole ?? 0) + top / bottom;
+  const value = negative ? -magnitude : magnitude;
+
+  if (inputUnit === 'mm') return value / MM_PER_INCH;
+  if (inputUnit === 'cm') return (value * 10) / MM_PER_INCH;
+  return value;
+};
+
+export const formatArea = (squareFeet: number, unit: LengthUnit) =>
+  isMetricUnit(unit)
+    ? `${(squareFeet * SQ_M_PER_SQ_FT).toFixed(2)} m^2`
+    : `${squareFeet.toFixed(2)} ft^2`;
+
+export const formatWeight = (pounds: number, unit: LengthUnit) =>
+  isMetricUnit(unit)
+    ? `${(pounds * KG_PER_LB).toFixed(1)} kg`
+    : `${pounds.toFixed(1)} lb`;
+
+export const formatVolume = (cubicInches: number, unit: LengthUnit) =>
+  isMetricUnit(unit)
+    ? `${(cubicInches * LITERS_PER_CU_IN).toFixed(1)} L`
+    : `${(cubicInches / CU_IN_PER_CU_FT).toFixed(2)} ft^3`;